@@ -1,33 +1,33 @@
 // api/chat.ts - Main chat API endpoint
 // Handles AI model routing, usage tracking, and plan enforcement
 
-import { NextApiRequest, NextApiResponse } from 'next'
-import { getUserById, getUserPlan, canUserMakeRequest, logTokenUsage } from '@/lib/db'
-import { routeModelRequest, isModelAllowed } from '@/lib/models'
+import { NextApiResponse } from 'next'
+import { reserveTokens, reconcileReservation, releaseReservation } from '@/lib/db'
+import { requireAuth, AuthenticatedRequest } from '@/lib/auth'
+import { withRateLimit } from '@/lib/rateLimit'
+import { routeModelRequest, isModelAllowed, getRequiredPlan, estimateTokenUsage, buildConversation, ModelResponse } from '@/lib/models'
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
   try {
-    const { userId, model, prompt, mode = 'ask', context } = req.body
+    const { model, prompt, messages, mode = 'ask', context } = req.body
+    const userId = req.user.id
+
+    // Accept either a single prompt or the full conversation history
+    const conversation = buildConversation(prompt, messages)
 
     // Validate required fields
-    if (!userId || !model || !prompt) {
+    if (!model || !conversation) {
       return res.status(400).json({ 
-        error: 'Missing required fields: userId, model, prompt' 
+        error: 'Missing required fields: model, prompt or messages' 
       })
     }
 
-    // Step 1: Validate user exists
-    const user = await getUserById(userId)
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' })
-    }
-
-    // Step 2: Check user plan and model access
-    const userPlan = await getUserPlan(userId)
+    // Step 1: Check user plan and model access (requireAuth has loaded the user)
+    const userPlan = req.user.plan
     if (!isModelAllowed(userPlan, model)) {
       return res.status(403).json({ 
         error: 'Plan upgrade required for this model',
@@ -36,44 +36,59 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       })
     }
 
-    // Step 3: Estimate token usage and check limits
-    const estimatedTokens = estimateTokenUsage(prompt, context)
-    const canMakeRequest = await canUserMakeRequest(userId, estimatedTokens)
+    // Step 2: Estimate token usage and reserve it against the plan limit
+    const estimatedTokens = estimateTokenUsage(model, conversation, context)
+    const { reservation, quota } = await reserveTokens(userId, estimatedTokens)
     
-    if (!canMakeRequest) {
+    if (!reservation) {
       return res.status(429).json({ 
         error: 'Token limit exceeded for current plan',
-        suggestion: 'Upgrade your plan or wait for next billing cycle'
+        suggestion: 'Upgrade your plan or wait for next billing cycle',
+        remainingTokens: quota.remaining,
+        resetsAt: quota.resetsAt.toISOString()
       })
     }
 
-    // Step 4: Route to appropriate AI model
-    const modelResponse = await routeModelRequest({
-      model,
-      prompt,
-      context: { 
-        ...context, 
-        mode,
-        userId,
-        userPlan 
-      }
-    })
+    // Step 3: Route to appropriate AI model, failing over to an equivalent
+    // model on another provider if this one is unavailable
+    let modelResponse: ModelResponse
+    try {
+      modelResponse = await routeModelRequest({
+        model,
+        messages: conversation,
+        fallback: true,
+        userPlan,
+        context: { 
+          ...context, 
+          mode,
+          userId,
+          userPlan 
+        }
+      })
+    } catch (error) {
+      await releaseReservation(reservation)
+      throw error
+    }
 
-    // Step 5: Log token usage for billing
-    await logTokenUsage(
-      userId,
-      model,
-      modelResponse.tokenUsage,
+    // Step 4: Replace the reservation with actual usage for billing
+    await reconcileReservation(
+      reservation,
+      modelResponse.fallbackFrom ? modelResponse.model : model,
+      modelResponse,
       modelResponse.cost,
       mode
     )
 
-    // Step 6: Return response
+    // Step 5: Return response
     return res.status(200).json({
       result: modelResponse.text,
       model: modelResponse.model,
       tokenUsage: modelResponse.tokenUsage,
+      promptTokens: modelResponse.promptTokens,
+      completionTokens: modelResponse.completionTokens,
+      cachedTokens: modelResponse.cachedTokens,
       cost: modelResponse.cost,
+      fallbackFrom: modelResponse.fallbackFrom,
       mode
     })
 
@@ -96,38 +111,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-// =============================================
-// HELPER FUNCTIONS
-// =============================================
-
-function estimateTokenUsage(prompt: string, context?: any): number {
-  // Rough estimation: ~4 characters per token
-  let totalText = prompt
-  
-  if (context?.selectedFrames) {
-    totalText += JSON.stringify(context.selectedFrames)
-  }
-  
-  if (context?.projectContext) {
-    totalText += JSON.stringify(context.projectContext)
-  }
-  
-  // Add response estimation (usually 1.5x the input)
-  return Math.ceil((totalText.length / 4) * 1.5)
-}
-
-function getRequiredPlan(model: string): string {
-  // Map models to minimum required plan
-  const beastModels = ['claude-4.1-opus', 'gemini-2.5-pro', 'gpt-4o']
-  const maxModels = ['claude-3.5-sonnet', 'gpt-4-turbo', 'claude-4-sonnet']
-  
-  if (beastModels.some(m => model.includes(m.split('-')[0]))) {
-    return 'BEAST'
-  }
-  
-  if (maxModels.some(m => model.includes(m.split('-')[0]))) {
-    return 'MAX'
-  }
-  
-  return 'BASIC'
-}
+export default requireAuth(withRateLimit(handler, { scope: 'chat' }))
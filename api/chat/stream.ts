@@ -0,0 +1,135 @@
+// api/chat/stream.ts - Streaming chat API endpoint
+// Same checks as /api/chat, but relays model output as Server-Sent Events:
+//   event: delta  -> { text }
+//   event: usage  -> { model, tokenUsage, promptTokens, completionTokens, cachedTokens, cost, mode }
+//   event: error  -> { error, details? }
+
+import { NextApiResponse } from 'next'
+import { reserveTokens, reconcileReservation, releaseReservation } from '@/lib/db'
+import { requireAuth, AuthenticatedRequest } from '@/lib/auth'
+import { withRateLimit } from '@/lib/rateLimit'
+import { streamModelRequest, isModelAllowed, getRequiredPlan, estimateTokenUsage, estimatePartialUsage, buildConversation, ModelResponse } from '@/lib/models'
+import { openEventStream, sendEvent, closeEventStream } from '@/lib/sse'
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { model, prompt, messages, mode = 'ask', context } = req.body
+  const userId = req.user.id
+
+  // Accept either a single prompt or the full conversation history
+  const conversation = buildConversation(prompt, messages)
+
+  // Validate required fields
+  if (!model || !conversation) {
+    return res.status(400).json({
+      error: 'Missing required fields: model, prompt or messages'
+    })
+  }
+
+  // Pre-flight checks are answered with plain JSON so clients can tell
+  // rejected requests apart from failures mid-stream
+  try {
+    const userPlan = req.user.plan
+    if (!isModelAllowed(userPlan, model)) {
+      return res.status(403).json({
+        error: 'Plan upgrade required for this model',
+        requiredPlan: getRequiredPlan(model),
+        currentPlan: userPlan
+      })
+    }
+
+    const estimatedTokens = estimateTokenUsage(model, conversation, context)
+    const { reservation, quota } = await reserveTokens(userId, estimatedTokens)
+
+    if (!reservation) {
+      return res.status(429).json({
+        error: 'Token limit exceeded for current plan',
+        suggestion: 'Upgrade your plan or wait for next billing cycle',
+        remainingTokens: quota.remaining,
+        resetsAt: quota.resetsAt.toISOString()
+      })
+    }
+
+    openEventStream(res)
+
+    let finalResponse: ModelResponse | null = null
+    let streamedText = ''
+
+    try {
+      const stream = streamModelRequest({
+        model,
+        messages: conversation,
+        context: {
+          ...context,
+          mode,
+          userId,
+          userPlan
+        }
+      })
+
+      // Keep consuming after a client disconnect so usage is still logged
+      for await (const event of stream) {
+        if (event.type === 'delta') {
+          streamedText += event.text
+          sendEvent(res, 'delta', { text: event.text })
+        } else {
+          finalResponse = event.response
+        }
+      }
+    } catch (error) {
+      console.error('Chat Stream Error:', error)
+      sendEvent(res, 'error', {
+        error: error instanceof Error && error.message.includes('API Error')
+          ? 'AI service temporarily unavailable'
+          : 'Internal server error',
+        details: error instanceof Error ? error.message : undefined
+      })
+    }
+
+    if (finalResponse) {
+      await reconcileReservation(
+        reservation,
+        model,
+        finalResponse,
+        finalResponse.cost,
+        mode
+      )
+
+      sendEvent(res, 'usage', {
+        model: finalResponse.model,
+        tokenUsage: finalResponse.tokenUsage,
+        promptTokens: finalResponse.promptTokens,
+        completionTokens: finalResponse.completionTokens,
+        cachedTokens: finalResponse.cachedTokens,
+        cost: finalResponse.cost,
+        mode
+      })
+    } else if (streamedText) {
+      // The provider failed after output reached the client, so bill an estimate of it
+      const partialUsage = estimatePartialUsage(model, conversation, context, streamedText)
+      await reconcileReservation(reservation, model, partialUsage, partialUsage.cost, mode)
+    } else {
+      await releaseReservation(reservation)
+    }
+
+    closeEventStream(res)
+
+  } catch (error) {
+    console.error('Chat Stream Error:', error)
+
+    if (res.headersSent) {
+      sendEvent(res, 'error', { error: 'Internal server error' })
+      return closeEventStream(res)
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    })
+  }
+}
+
+export default requireAuth(withRateLimit(handler, { scope: 'chat' }))
@@ -9,7 +9,8 @@ import {
   updateUserPlan, 
   updateUserStripeCustomer,
   createSubscription,
-  updateSubscriptionStatus 
+  updateSubscriptionStatus,
+  updateSubscriptionPeriod
 } from '@/lib/db'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { 
@@ -161,6 +162,13 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
       plan
     )
 
+    // Renewals start a new period, which resets the usage quota
+    await updateSubscriptionPeriod(
+      subscription.id,
+      new Date(subscription.current_period_start * 1000),
+      new Date(subscription.current_period_end * 1000)
+    )
+
     console.log(`Subscription updated: ${subscription.id} -> ${subscription.status}`)
   } catch (error) {
     console.error('Error handling subscription update:', error)
@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { Check, X, Layers, Square, Image, Sliders } from 'lucide-react'
+import type { BuildPlan, BuildStep } from '../services/buildPlan'
+
+export type BuildPlanStatus = 'pending' | 'applying' | 'applied' | 'discarded'
+
+interface BuildPlanPreviewProps {
+  plan: BuildPlan
+  status: BuildPlanStatus
+  // Step IDs that failed when the plan was applied
+  failedSteps?: string[]
+  onApply: (stepIds: string[]) => void
+  onDiscard: () => void
+}
+
+const getStepIcon = (step: BuildStep) => {
+  switch (step.kind) {
+    case 'section': return <Layers size={14} />
+    case 'frame': return <Square size={14} />
+    case 'svg': return <Image size={14} />
+    case 'attributes': return <Sliders size={14} />
+  }
+}
+
+export function BuildPlanPreview({ plan, status, failedSteps = [], onApply, onDiscard }: BuildPlanPreviewProps) {
+  const [selectedSteps, setSelectedSteps] = useState<Set<string>>(new Set(plan.steps.map(step => step.id)))
+  const isPending = status === 'pending'
+
+  const toggleStep = (stepId: string) => {
+    setSelectedSteps(prev => {
+      const newSet = new Set(prev)
+      if (newSet.has(stepId)) {
+        newSet.delete(stepId)
+      } else {
+        newSet.add(stepId)
+      }
+      return newSet
+    })
+  }
+
+  return (
+    <div className="build-plan">
+      <div className="build-plan-header">
+        <strong>Build plan: {plan.title}</strong>
+        <span className="build-plan-status">
+          {status === 'applied' ? 'Applied' :
+           status === 'discarded' ? 'Discarded' :
+           status === 'applying' ? 'Applying...' :
+           `${selectedSteps.size} of ${plan.steps.length} selected`}
+        </span>
+      </div>
+
+      <div className="build-plan-steps">
+        {plan.steps.map(step => (
+          <label
+            key={step.id}
+            className={`build-plan-step ${failedSteps.includes(step.id) ? 'failed' : ''}`}
+          >
+            <input
+              type="checkbox"
+              checked={selectedSteps.has(step.id)}
+              onChange={() => toggleStep(step.id)}
+              disabled={!isPending}
+            />
+            <span className="build-plan-step-icon">{getStepIcon(step)}</span>
+            <span className="build-plan-step-summary">{step.summary}</span>
+          </label>
+        ))}
+      </div>
+
+      {isPending && (
+        <div className="message-actions">
+          <button
+            className="action-button primary"
+            onClick={() => onApply(plan.steps.map(step => step.id))}
+          >
+            <Check size={14} />
+            Apply All
+          </button>
+          <button
+            className="action-button"
+            onClick={() => onApply(plan.steps.filter(step => selectedSteps.has(step.id)).map(step => step.id))}
+            disabled={selectedSteps.size === 0}
+          >
+            Apply Selected
+          </button>
+          <button
+            className="action-button"
+            onClick={onDiscard}
+          >
+            <X size={14} />
+            Discard
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,18 @@
 import { useState, useRef, useEffect } from 'react'
-import { Send, Check, Edit3, RotateCcw, Save, Sparkles, Image, Target, Box, Layers, ChevronDown, Lock, CheckCircle } from 'lucide-react'
+import { Send, Check, Edit3, RotateCcw, Save, Sparkles, Image, Target, Box, Layers, ChevronDown, Lock, CheckCircle, Type, Shapes, Undo2 } from 'lucide-react'
 import { framer, CanvasNode } from 'framer-plugin'
 import { useAuth } from '../contexts/AuthContext'
 import { useModel } from '../contexts/ModelContext'
-import { generateAIResponse } from '../services/aiService'
+import { generateAIResponse, generateWithTools, ToolCallSummary } from '../services/aiService'
+import { createPlanningTools, CanvasToolResult } from '../services/canvasTools'
+import { runAgentBuild } from '../services/agentBuild'
+import { describeDesignTokens, resolveDesignTokens } from '../services/designTokens'
+import { applyBuildPlan, createBuildPlan, BuildPlan } from '../services/buildPlan'
+import { inferFileTypes, inferRequestType, logRuleApplications, resolveRules, withRules, ResolvedRules } from '../services/rulesResolver'
+import { BuildPlanPreview, BuildPlanStatus } from './BuildPlanPreview'
+import { extractCanvasContext, getNodeType, listCanvasNodes, serializeNodeSubtree, CanvasNodeType } from '../services/canvasContext'
 import { FramerService } from '../services/framerService'
+import { getLastBuild, subscribeToBuildHistory, undoLastBuild, CanvasTransaction } from '../services/canvasTransaction'
 import type { CoreMessage } from 'ai'
 
 interface Message {
@@ -16,21 +24,40 @@ interface Message {
   cost?: number
   canApplyToCanvas?: boolean
   code?: string
+  // Dry-run output waiting for the user to apply or discard it
+  plan?: BuildPlan
+  planStatus?: BuildPlanStatus
+  failedSteps?: string[]
 }
 
 interface FrameItem {
   id: string
   name: string
   type: string
+  // Ancestor layer names, shown as breadcrumbs
+  path: string[]
 }
 
+type FrameFilter = 'All' | CanvasNodeType
+
+const FRAME_FILTERS: FrameFilter[] = ['All', 'Frame', 'Component', 'Text', 'SVG']
+
+// Dropdown sections in display order
+const FRAME_SECTIONS: { type: CanvasNodeType; title: string }[] = [
+  { type: 'Frame', title: 'Canvas Frames' },
+  { type: 'Component', title: 'Components' },
+  { type: 'Text', title: 'Text' },
+  { type: 'SVG', title: 'Graphics' },
+  { type: 'Layer', title: 'Other Layers' }
+]
+
 interface ChatInterfaceProps {
   selection: CanvasNode[]
 }
 
 export function ChatInterface({ selection }: ChatInterfaceProps) {
   const { user } = useAuth()
-  const { selectedModel, availableModels, mode, setMode, setSelectedModel, canUseModel } = useModel()
+  const { selectedModel, availableModels, mode, previewChanges, setMode, setPreviewChanges, setSelectedModel, canUseModel } = useModel()
   const [messages, setMessages] = useState<Message[]>([
     {
       id: 'welcome',
@@ -67,6 +94,12 @@ Ready to create something amazing?`,
   const [isLoading, setIsLoading] = useState(false)
   const [showFramesDropdown, setShowFramesDropdown] = useState(false)
   const [availableFrames, setAvailableFrames] = useState<FrameItem[]>([])
+  const [isLoadingFrames, setIsLoadingFrames] = useState(false)
+  const [frameSearch, setFrameSearch] = useState('')
+  const [frameFilter, setFrameFilter] = useState<FrameFilter>('All')
+  const [mentionedFrames, setMentionedFrames] = useState<FrameItem[]>([])
+  const [lastBuild, setLastBuild] = useState<CanvasTransaction | null>(getLastBuild())
+  const [isUndoing, setIsUndoing] = useState(false)
   const [showModelDropdown, setShowModelDropdown] = useState(false)
   const [showUpgradeModal, setShowUpgradeModal] = useState(false)
   const [selectedLockedModel, setSelectedLockedModel] = useState<any>(null)
@@ -83,55 +116,40 @@ Ready to create something amazing?`,
     scrollToBottom()
   }, [messages])
 
-  // Fetch available frames from canvas
+  // Browse the page's layers whenever the dropdown opens so the list is current
   useEffect(() => {
+    if (!showFramesDropdown) return
+
+    let cancelled = false
     const fetchFrames = async () => {
+      setIsLoadingFrames(true)
       try {
-        const allNodes: FrameItem[] = []
-        
-        // Get current selection and add it to available frames
-        if (selection && selection.length > 0) {
-          selection.forEach((node, index) => {
-            allNodes.push({
-              id: node.id || `selected-${index}`,
-              name: (node as any).name || `Selected Item ${index + 1}`,
-              type: 'Selected'
-            })
-          })
-        }
-
-        // TODO: Replace with real Framer API calls when available
-        // const canvasNodes = await framer.getCanvasNodes()
-        // Process real canvas nodes here...
-        
-        // Enhanced mock frames with more realistic data
-        const mockFrames = [
-          { id: 'frame-hero', name: 'Hero Section', type: 'Frame' },
-          { id: 'frame-nav', name: 'Navigation Bar', type: 'Frame' },
-          { id: 'frame-pricing', name: 'Pricing Cards', type: 'Frame' },
-          { id: 'frame-testimonials', name: 'Testimonials', type: 'Frame' },
-          { id: 'frame-contact', name: 'Contact Form', type: 'Frame' },
-          { id: 'frame-footer', name: 'Footer', type: 'Frame' },
-          { id: 'comp-button', name: 'CTA Button', type: 'Component' },
-          { id: 'comp-card', name: 'Feature Card', type: 'Component' },
-          { id: 'comp-modal', name: 'Modal Dialog', type: 'Component' }
-        ]
-
-        allNodes.push(...mockFrames)
-        setAvailableFrames(allNodes)
+        const nodes = await listCanvasNodes()
+        if (!cancelled) setAvailableFrames(nodes)
       } catch (error) {
         console.error('Error fetching frames:', error)
-        // Fallback with enhanced mock frames
-        setAvailableFrames([
-          { id: 'frame-hero', name: 'Hero Section', type: 'Frame' },
-          { id: 'frame-nav', name: 'Navigation Bar', type: 'Frame' },
-          { id: 'frame-pricing', name: 'Pricing Cards', type: 'Frame' },
-          { id: 'comp-button', name: 'CTA Button', type: 'Component' }
-        ])
+        if (!cancelled) setAvailableFrames([])
+      } finally {
+        if (!cancelled) setIsLoadingFrames(false)
       }
     }
     fetchFrames()
-  }, [selection])
+
+    return () => {
+      cancelled = true
+    }
+  }, [showFramesDropdown, selection])
+
+  useEffect(() => subscribeToBuildHistory(setLastBuild), [])
+
+  const handleUndoLastBuild = async () => {
+    setIsUndoing(true)
+    try {
+      await undoLastBuild()
+    } finally {
+      setIsUndoing(false)
+    }
+  }
 
   // Close frames dropdown when clicking outside
   useEffect(() => {
@@ -147,9 +165,26 @@ Ready to create something amazing?`,
     }
   }, [showFramesDropdown])
 
+  // Typing "@" opens the dropdown and filters it by whatever follows
+  const handleInputChange = (value: string) => {
+    setInputValue(value)
+
+    const mention = value.match(/(?:^|\s)@([^\s@]*)$/)
+    if (mention) {
+      setFrameSearch(mention[1])
+      setShowFramesDropdown(true)
+    }
+  }
+
   const handleFrameSelect = (frame: FrameItem) => {
-    const frameContext = `[Context: ${frame.name} (${frame.type})] `
-    setInputValue(prev => frameContext + prev)
+    const mention = `@${frame.name} `
+    setInputValue(prev => {
+      // Complete a partly typed mention, otherwise append one
+      if (/(?:^|\s)@[^\s@]*$/.test(prev)) return prev.replace(/@[^\s@]*$/, mention)
+      return prev && !prev.endsWith(' ') ? `${prev} ${mention}` : prev + mention
+    })
+    setMentionedFrames(prev => prev.some(item => item.id === frame.id) ? prev : [...prev, frame])
+    setFrameSearch('')
     setShowFramesDropdown(false)
     textareaRef.current?.focus()
   }
@@ -224,29 +259,43 @@ Ready to create something amazing?`,
     }, 100)
   }
 
+  const matchesFrameQuery = (frame: FrameItem) => {
+    if (frameFilter !== 'All' && frame.type !== frameFilter) return false
+
+    const query = frameSearch.trim().toLowerCase()
+    if (!query) return true
+    return frame.name.toLowerCase().includes(query) ||
+      frame.path.some(name => name.toLowerCase().includes(query))
+  }
+
   const getFramesWithHeaders = () => {
     const result: (FrameItem & { isHeader?: boolean })[] = []
     
     // Selected items section
-    const selectedFrames = availableFrames.filter(frame => frame.type === 'Selected')
+    const selectedIds = new Set(selection.map(node => node.id))
+    const selectedFrames = selection
+      .map((node, index): FrameItem => ({
+        id: node.id,
+        name: ('name' in node && node.name) || `Selected Item ${index + 1}`,
+        type: getNodeType(node),
+        path: availableFrames.find(frame => frame.id === node.id)?.path || []
+      }))
+      .filter(matchesFrameQuery)
     if (selectedFrames.length > 0) {
-      result.push({ id: 'header-selected', name: 'Selected Items', type: 'header', isHeader: true })
-      result.push(...selectedFrames)
-    }
-    
-    // Frames section
-    const frames = availableFrames.filter(frame => frame.type === 'Frame')
-    if (frames.length > 0) {
-      result.push({ id: 'header-frames', name: 'Canvas Frames', type: 'header', isHeader: true })
-      result.push(...frames)
+      result.push({ id: 'header-selected', name: 'Selected Items', type: 'header', path: [], isHeader: true })
+      result.push(...selectedFrames.map(frame => ({ ...frame, type: 'Selected' })))
     }
     
-    // Components section
-    const components = availableFrames.filter(frame => frame.type === 'Component')
-    if (components.length > 0) {
-      result.push({ id: 'header-components', name: 'Components', type: 'header', isHeader: true })
-      result.push(...components)
-    }
+    // One section per node type, skipping what's already listed as selected
+    FRAME_SECTIONS.forEach(section => {
+      const frames = availableFrames.filter(frame =>
+        frame.type === section.type && !selectedIds.has(frame.id) && matchesFrameQuery(frame)
+      )
+      if (frames.length > 0) {
+        result.push({ id: `header-${section.type}`, name: section.title, type: 'header', path: [], isHeader: true })
+        result.push(...frames)
+      }
+    })
     
     return result
   }
@@ -265,6 +314,9 @@ Ready to create something amazing?`,
     setInputValue('')
     setIsLoading(true)
 
+    const requestStartedAt = Date.now()
+    let rules: ResolvedRules | null = null
+
     try {
       // Convert chat message to CoreMessage format
       const coreMessages: CoreMessage[] = messages.map(msg => ({
@@ -278,14 +330,28 @@ Ready to create something amazing?`,
         content: inputValue
       })
 
-      // Call the real AI service
-      const aiResponse = await generateAIResponse(
-        coreMessages,
-        selectedModel.id,
-        {
-          temperature: 0.7,
-          maxTokens: 1000,
-          systemPrompt: `You are Framium, an AI design and coding agent built for Framer. You're not just an assistant - you're a powerful creative partner that can build anything, just like Cursor and GitHub Copilot.
+      // Outline of what's on the canvas so the model can refer to real layers
+      const canvasContext = await extractCanvasContext(selection)
+
+      // Mentioned layers still named in the message get their full subtree
+      const mentions = mentionedFrames.filter(frame => inputValue.includes(`@${frame.name}`))
+      const mentionContexts = (await Promise.all(mentions.map(frame => serializeNodeSubtree(frame.id))))
+        .filter((context): context is string => Boolean(context))
+      setMentionedFrames([])
+
+      // The user's rules for this mode and selection, merged by priority
+      const requestType = inferRequestType(userMessage.content, mode)
+      rules = await resolveRules({
+        mode,
+        requestType,
+        model: selectedModel.id,
+        provider: selectedModel.provider,
+        selection: selection.map(node => ({ type: getNodeType(node), name: 'name' in node && node.name ? node.name : '' })),
+        prompt: userMessage.content,
+        fileTypes: inferFileTypes(requestType)
+      })
+
+      const systemPrompt = withRules(`You are Framium, an AI design and coding agent built for Framer. You're not just an assistant - you're a powerful creative partner that can build anything, just like Cursor and GitHub Copilot.
 
 Your capabilities include:
 - Instantly creating professional layouts, components, and designs on the Framer canvas
@@ -306,72 +372,50 @@ Current context:
 - User Plan: ${user?.plan || 'Pro'}
 - Selected Model: ${selectedModel.name}
 - Mode: ${mode}
-- Canvas Selection: ${selection.length > 0 ? `${selection.length} items selected` : 'Clean canvas ready'}
 
-You never say "I'm an AI assistant" or mention limitations. You're a design agent that builds beautiful things instantly.`
-        }
-      )
+Canvas:
+${canvasContext}
+${mentionContexts.length > 0 ? `
+Mentioned layers (the user refers to these with @name):
+${mentionContexts.join('\n\n')}
+` : ''}
+${mode === 'agent' ? `
+In Agent mode you build by calling the canvas tools (createSection, createFrame, addSVG, updateNodeAttributes). Use the node IDs returned by earlier calls to refine what you created, then briefly summarize what you built.
+
+Design tokens (use these colors, fonts, sizes and radii in every frame and SVG you create):
+${describeDesignTokens(resolveDesignTokens('modern'))}
+${previewChanges ? 'The user reviews your tool calls as a build plan before anything reaches the canvas, so summarize what the plan will build.\n' : ''}` : ''}
+You never say "I'm an AI assistant" or mention limitations. You're a design agent that builds beautiful things instantly.`, rules)
+
+      // Agent mode lets the model act on the canvas through structured tool calls;
+      // everything it builds in one turn is undone together, and rolled back
+      // if a call fails. With previews on, the same calls are collected into a
+      // plan for the user to review first.
+      const plan = mode === 'agent' && previewChanges ? createBuildPlan('agent build') : null
+      const agentResponse = mode !== 'agent'
+        ? null
+        : plan
+          ? await generateWithTools(coreMessages, selectedModel.id, createPlanningTools(plan), {
+              temperature: 0.7,
+              systemPrompt
+            })
+          : await runAgentBuild(coreMessages, selectedModel.id, systemPrompt)
+
+      const aiResponse = agentResponse || await generateAIResponse(coreMessages, selectedModel.id, {
+        temperature: 0.7,
+        maxTokens: 1000,
+        systemPrompt
+      })
       
-      if (aiResponse.success && aiResponse.text) {
-        // Mode-specific logic for canvas generation
-        let shouldCreateComponents = false
-        
-        if (mode === 'agent') {
-          // In Agent mode, automatically create components for ANY design-related request
-          const designKeywords = [
-            'create', 'generate', 'build', 'design', 'make', 'add',
-            'landing page', 'homepage', 'website', 'site', 'page',
-            'store', 'e-commerce', 'ecommerce', 'shop', 'product', 'cart', 'checkout',
-            'wireframe', 'layout', 'application', 'app', 'dashboard', 'admin',
-            'hero', 'banner', 'header', 'footer', 'navigation', 'nav', 'menu',
-            'pricing', 'plan', 'tier', 'subscription', 'payment',
-            'contact', 'form', 'input', 'button', 'cta', 'call to action',
-            'blog', 'article', 'content', 'post', 'news',
-            'gallery', 'portfolio', 'showcase', 'grid',
-            'testimonial', 'review', 'feedback', 'quote',
-            'feature', 'service', 'benefit', 'advantage',
-            'about', 'team', 'company', 'organization',
-            'login', 'signup', 'register', 'authentication', 'auth',
-            'profile', 'account', 'user', 'settings',
-            'search', 'filter', 'sort', 'pagination',
-            'notification', 'alert', 'message', 'toast',
-            'modal', 'popup', 'dialog', 'overlay',
-            'sidebar', 'panel', 'section', 'component', 'widget',
-            'card', 'list', 'table', 'chart', 'graph',
-            'animation', 'transition', 'effect', 'motion',
-            'responsive', 'mobile', 'tablet', 'desktop',
-            'modern', 'clean', 'minimal', 'professional', 'beautiful',
-            'colorful', 'vibrant', 'elegant', 'sophisticated'
-          ]
-          
-          const inputLower = inputValue.toLowerCase()
-          shouldCreateComponents = designKeywords.some(keyword => inputLower.includes(keyword)) ||
-                                 inputLower.includes('surprise') ||
-                                 inputLower.includes('proceed') ||
-                                 inputLower.includes('help me') ||
-                                 inputLower.includes('i want') ||
-                                 inputLower.includes('i need') ||
-                                 inputLower.includes('can you') ||
-                                 inputLower.includes('would you')
-        }
-        // In Ask mode, never create components automatically - only provide text responses
-        
-        console.log('Mode:', mode)
-        console.log('Input value:', inputValue)
-        console.log('Should create components:', shouldCreateComponents)
-        
-        if (shouldCreateComponents) {
-          // Execute the canvas creation in the background (Agent mode only)
-          console.log('Executing canvas creation in Agent mode...')
-          setTimeout(async () => {
-            try {
-              const result = await FramerService.executeAIRequest(inputValue)
-              console.log('Canvas creation result:', result)
-            } catch (error) {
-              console.error('Canvas creation error:', error)
-            }
-          }, 500)
-        }
+      if (aiResponse.success) {
+        const toolCalls = agentResponse?.toolCalls || []
+        const responseText = aiResponse.text || ''
+        const toolSummary = toolCalls.length > 0
+          ? `\n\n🛠️ **Canvas actions:**\n${toolCalls.map(formatToolCall).join('\n')}`
+          : ''
+        const rollbackNote = agentResponse && 'rolledBack' in agentResponse && agentResponse.rolledBack
+          ? '\n\n↩️ A canvas action failed, so everything built in this turn was rolled back.'
+          : ''
         
         // Add mode-specific context info
         let contextInfo = ''
@@ -388,20 +432,36 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
         const aiMessage: Message = {
           id: `ai-${Date.now()}`,
           type: 'ai',
-          content: aiResponse.text + contextInfo,
+          content: responseText + toolSummary + rollbackNote + contextInfo,
           timestamp: new Date(),
           tokens: aiResponse.usage?.totalTokens || 0,
           cost: aiResponse.usage?.totalTokens ? (aiResponse.usage.totalTokens / 1000) * (selectedModel.costPer1kTokens || 0.001) : 0,
-          canApplyToCanvas: shouldCreateComponents || aiResponse.text.toLowerCase().includes('component') || aiResponse.text.toLowerCase().includes('create'),
-          code: aiResponse.text.includes('```') ? 'ai-generated-code' : undefined,
+          canApplyToCanvas: toolCalls.length === 0 && (responseText.toLowerCase().includes('component') || responseText.toLowerCase().includes('create')),
+          code: responseText.includes('```') ? 'ai-generated-code' : undefined,
+          ...(plan && plan.steps.length > 0 ? { plan, planStatus: 'pending' as const } : {}),
         }
 
         setMessages(prev => [...prev, aiMessage])
+        void logRuleApplications(rules, {
+          input: userMessage.content,
+          output: responseText,
+          executionTimeMs: Date.now() - requestStartedAt,
+          success: true
+        })
       } else {
         throw new Error(aiResponse.error || 'AI service failed')
       }
     } catch (error) {
       console.error('Error sending message:', error)
+      if (rules) {
+        void logRuleApplications(rules, {
+          input: userMessage.content,
+          output: '',
+          executionTimeMs: Date.now() - requestStartedAt,
+          success: false,
+          error: (error as Error).message
+        })
+      }
       
       // Fallback to simulation if API fails
       try {
@@ -437,10 +497,51 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
     }
   }
 
+  const updateMessage = (messageId: string, changes: Partial<Message>) => {
+    setMessages(prev => prev.map(message => message.id === messageId ? { ...message, ...changes } : message))
+  }
+
+  const handleApplyPlan = async (message: Message, stepIds: string[]) => {
+    if (!message.plan) return
+
+    updateMessage(message.id, { planStatus: 'applying' })
+    try {
+      const result = await applyBuildPlan(message.plan, stepIds)
+      updateMessage(message.id, {
+        planStatus: 'applied',
+        failedSteps: result.failed.map(failure => failure.stepId)
+      })
+
+      framer.notify(result.failed.length === 0
+        ? `✅ Applied ${result.applied.length} step${result.applied.length === 1 ? '' : 's'}`
+        : `⚠️ Applied ${result.applied.length}, ${result.failed.length} failed: ${result.failed[0].message}`)
+    } catch (error) {
+      console.error('Error applying build plan:', error)
+      updateMessage(message.id, { planStatus: 'pending' })
+      framer.notify('❌ Error applying build plan')
+    }
+  }
+
   const handleApplyToCanvas = async (message: Message) => {
     try {
+      // With previews on, show what would be built instead of building it
+      if (previewChanges) {
+        const plan = await FramerService.planAIRequest(message.content, selectedModel.id)
+        if (plan) {
+          setMessages(prev => [...prev, {
+            id: `plan-${Date.now()}`,
+            type: 'ai',
+            content: `📋 Here's what I'd build. Review the steps and apply the ones you want.`,
+            timestamp: new Date(),
+            plan,
+            planStatus: 'pending'
+          }])
+          return
+        }
+      }
+
       // Use the new FramerService to execute the AI request
-      const success = await FramerService.executeAIRequest(message.content)
+      const success = await FramerService.executeAIRequest(message.content, true, selectedModel.id)
       
       if (!success) {
         // Fallback to the original implementation if FramerService doesn't handle it
@@ -530,6 +631,15 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
               >
                 ⚡ Agent Mode
               </button>
+              {mode === 'agent' && (
+                <button
+                  className={`mode-button ${previewChanges ? 'active' : ''}`}
+                  onClick={() => setPreviewChanges(!previewChanges)}
+                  title="Review a build plan before anything is added to the canvas"
+                >
+                  👁 Preview
+                </button>
+              )}
             </div>
             <div className="model-selector" ref={modelDropdownRef}>
               <button 
@@ -601,6 +711,16 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
                                     {message.tokens} tokens • ${message.cost?.toFixed(4)} • {formatTimestamp(message.timestamp)}
                 </div>
               )}
+              {message.plan && message.planStatus && (
+                <BuildPlanPreview
+                  plan={message.plan}
+                  status={message.planStatus}
+                  failedSteps={message.failedSteps}
+                  onApply={(stepIds) => handleApplyPlan(message, stepIds)}
+                  onDiscard={() => updateMessage(message.id, { planStatus: 'discarded' })}
+                />
+              )}
+
               {message.id === 'welcome' && (
                 <div className="message-actions">
                 </div>
@@ -667,7 +787,7 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
           <textarea
             ref={textareaRef}
             value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value)}
             onKeyPress={handleKeyPress}
             placeholder={mode === 'ask' ? 
               "Plan, search, build anything" : 
@@ -690,6 +810,17 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
           <div className="input-footer">
             <div className="input-controls">
               <span className="model-indicator">{selectedModel.name}</span>
+              {lastBuild && (
+                <button
+                  className="undo-build-button"
+                  onClick={handleUndoLastBuild}
+                  disabled={isUndoing || isLoading}
+                  title={`Undo ${lastBuild.name} (${lastBuild.changeCount} change${lastBuild.changeCount === 1 ? '' : 's'})`}
+                >
+                  <Undo2 size={12} />
+                  Undo last build
+                </button>
+              )}
             </div>
             <div className="input-buttons">
               <div className="add-context-container" ref={framesDropdownRef}>
@@ -702,10 +833,32 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
                 {showFramesDropdown && (
                   <div className="frames-dropdown">
                     <div className="frames-dropdown-header">
-                      <h4>Select Frame Context</h4>
+                      <h4>Mention a Layer</h4>
+                      <input
+                        className="frames-search"
+                        value={frameSearch}
+                        onChange={(e) => setFrameSearch(e.target.value)}
+                        placeholder="Search layers..."
+                        autoFocus
+                      />
+                      <div className="frames-filters">
+                        {FRAME_FILTERS.map(filter => (
+                          <button
+                            key={filter}
+                            className={`frames-filter ${frameFilter === filter ? 'active' : ''}`}
+                            onClick={() => setFrameFilter(filter)}
+                          >
+                            {filter}
+                          </button>
+                        ))}
+                      </div>
                     </div>
                     <div className="frames-list">
-                      {getFramesWithHeaders().length > 0 ? (
+                      {isLoadingFrames && availableFrames.length === 0 ? (
+                        <div className="no-frames">
+                          Loading layers...
+                        </div>
+                      ) : getFramesWithHeaders().length > 0 ? (
                         getFramesWithHeaders().map((frame) => (
                           frame.isHeader ? (
                             <div
@@ -722,18 +875,22 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
                             >
                               <div className="frame-icon">
                                 {frame.type === 'Selected' ? <Target size={16} /> : 
-                                 frame.type === 'Component' ? <Box size={16} /> : <Layers size={16} />}
+                                 frame.type === 'Component' ? <Box size={16} /> :
+                                 frame.type === 'Text' ? <Type size={16} /> :
+                                 frame.type === 'SVG' ? <Shapes size={16} /> : <Layers size={16} />}
                               </div>
                               <div className="frame-info">
                                 <div className="frame-name">{frame.name}</div>
-                                <div className="frame-type">{frame.type}</div>
+                                <div className="frame-type" title={[...frame.path, frame.name].join(' › ')}>
+                                  {frame.path.length > 0 ? frame.path.join(' › ') : frame.type}
+                                </div>
                               </div>
                             </div>
                           )
                         ))
                       ) : (
                         <div className="no-frames">
-                          No frames available
+                          {frameSearch || frameFilter !== 'All' ? 'No matching layers' : 'No layers on this page'}
                         </div>
                       )}
                     </div>
@@ -807,6 +964,15 @@ You never say "I'm an AI assistant" or mention limitations. You're a design agen
   )
 }
 
+// One line per tool call for the chat transcript
+function formatToolCall(call: ToolCallSummary): string {
+  if (call.error) {
+    return `❌ ${call.toolName}: ${call.error}`
+  }
+  const result = call.output as CanvasToolResult | undefined
+  return `${result?.success ? '✅' : '❌'} ${result?.message || call.toolName}`
+}
+
 // Enhanced AI response simulation with better logic
 async function simulateAIResponse(prompt: string, selection: CanvasNode[], modelName: string) {
   // Simulate realistic API delay based on model
@@ -1,6 +1,10 @@
-import { useState, useEffect, useRef } from 'react'
-import { Layers, Eye, EyeOff, Copy, Trash2, Search, Filter, Zap, Square, Type, Image as ImageIcon } from 'lucide-react'
-import { framer, CanvasNode } from 'framer-plugin'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { Layers, Eye, EyeOff, Copy, Trash2, Search, Filter, Zap, Square, Type, Image as ImageIcon, Lock, Unlock, ChevronRight, ChevronDown, Box, Shapes } from 'lucide-react'
+import { framer, CanvasNode, isFrameNode } from 'framer-plugin'
+import { getNodeType } from '../services/canvasContext'
+import { duplicateNode, removeNodes, updateNodeAttributes } from '../services/mutateCanvas'
+import { generateComponentFromLayers, insertGeneratedComponent, ComponentInsertMode } from '../services/componentGenerator'
+import { useModel } from '../contexts/ModelContext'
 
 interface FramerLayer {
   id: string
@@ -8,21 +12,60 @@ interface FramerLayer {
   type: string
   visible: boolean
   locked: boolean
-  children?: FramerLayer[]
   parent?: string
 }
 
+function toLayer(node: CanvasNode, parent?: string): FramerLayer {
+  const nodeType = getNodeType(node)
+  const type = isFrameNode(node) && node.backgroundImage ? 'Image' : nodeType
+
+  return {
+    id: node.id,
+    name: ('name' in node && node.name) || type,
+    type,
+    visible: 'visible' in node ? node.visible : true,
+    locked: 'locked' in node ? node.locked : false,
+    parent
+  }
+}
+
+// Children are read on demand; reads are unprotected but can still fail for
+// nodes that were removed in the meantime
+async function getLayerChildren(nodeId?: string): Promise<FramerLayer[]> {
+  try {
+    const node = nodeId ? await framer.getNode(nodeId) : await framer.getCanvasRoot()
+    if (!node) return []
+
+    const children = (await node.getChildren()) as CanvasNode[]
+    return children.map(child => toLayer(child, nodeId))
+  } catch (error) {
+    console.warn('Could not read layer children:', error)
+    return []
+  }
+}
+
 interface ProjectPanelProps {
   selection: CanvasNode[]
 }
 
 export function ProjectPanel({ selection }: ProjectPanelProps) {
+  const { selectedModel } = useModel()
   const [layers, setLayers] = useState<FramerLayer[]>([])
+  // Loaded children keyed by parent ID, filled in as layers are expanded
+  const [childLayers, setChildLayers] = useState<Record<string, FramerLayer[]>>({})
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
   const [searchQuery, setSearchQuery] = useState('')
-  const [filterType, setFilterType] = useState<'all' | 'frame' | 'text' | 'image'>('all')
+  const [filterType, setFilterType] = useState<'all' | 'frame' | 'text' | 'image' | 'component' | 'svg'>('all')
   const [isLoading, setIsLoading] = useState(false)
+  const [insertMode, setInsertMode] = useState<ComponentInsertMode>('instance')
   const [selectedLayerIds, setSelectedLayerIds] = useState<Set<string>>(new Set())
   const notificationTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const expandedIdsRef = useRef(expandedIds)
+  expandedIdsRef.current = expandedIds
+
+  const allLayers = [...layers, ...Object.values(childLayers).flat()]
+  const findLayer = (layerId: string) => allLayers.find(layer => layer.id === layerId)
 
   // Combine Framer selection with manual checkbox selections
   const totalSelectedLayers = new Set([
@@ -37,11 +80,7 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
     }
     
     notificationTimeoutRef.current = setTimeout(() => {
-      const selectedNames = Array.from(totalSelectedLayers).map(id => {
-        return layers.find(l => l.id === id)?.name || 
-               layers.flatMap(l => l.children || []).find(c => c.id === id)?.name || 
-               'Unknown Layer'
-      })
+      const selectedNames = Array.from(totalSelectedLayers).map(id => findLayer(id)?.name || 'Unknown Layer')
       
       if (selectedNames.length === 0) {
         framer.notify('❌ No layers selected')
@@ -62,60 +101,68 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
     }
   }, [])
 
-  // Mock layers data - in production, this would come from Framer API
-  const mockLayers: FramerLayer[] = [
-    {
-      id: 'layer-1',
-      name: 'Navigation',
-      type: 'Frame',
-      visible: true,
-      locked: false,
-      children: [
-        { id: 'layer-1-1', name: 'Logo', type: 'Image', visible: true, locked: false, parent: 'layer-1' },
-        { id: 'layer-1-2', name: 'Menu Items', type: 'Frame', visible: true, locked: false, parent: 'layer-1' },
-        { id: 'layer-1-3', name: 'CTA Button', type: 'Frame', visible: true, locked: false, parent: 'layer-1' }
-      ]
-    },
-    {
-      id: 'layer-2',
-      name: 'Hero Section',
-      type: 'Frame',
-      visible: true,
-      locked: false,
-      children: [
-        { id: 'layer-2-1', name: 'Headline', type: 'Text', visible: true, locked: false, parent: 'layer-2' },
-        { id: 'layer-2-2', name: 'Subheading', type: 'Text', visible: true, locked: false, parent: 'layer-2' },
-        { id: 'layer-2-3', name: 'Hero Image', type: 'Image', visible: true, locked: false, parent: 'layer-2' }
-      ]
-    },
-    {
-      id: 'layer-3',
-      name: 'Features Grid',
-      type: 'Frame',
-      visible: true,
-      locked: false,
-      children: [
-        { id: 'layer-3-1', name: 'Feature 1', type: 'Frame', visible: true, locked: false, parent: 'layer-3' },
-        { id: 'layer-3-2', name: 'Feature 2', type: 'Frame', visible: true, locked: false, parent: 'layer-3' },
-        { id: 'layer-3-3', name: 'Feature 3', type: 'Frame', visible: true, locked: false, parent: 'layer-3' }
-      ]
-    }
-  ]
+  // Reload the top level and every expanded layer so the tree matches the canvas
+  const refreshTree = useCallback(async () => {
+    const expanded = Array.from(expandedIdsRef.current)
+    const [topLevel, ...children] = await Promise.all([
+      getLayerChildren(),
+      ...expanded.map(id => getLayerChildren(id))
+    ])
 
-  useEffect(() => {
-    setLayers(mockLayers)
+    setLayers(topLevel)
+    setChildLayers(Object.fromEntries(expanded.map((id, index) => [id, children[index]])))
   }, [])
 
-  // Show selection summary when Framer selection changes
+  // The root update fires for any change on the page; debounce so drags and
+  // multi-step edits only trigger one reload
+  useEffect(() => {
+    refreshTree()
+
+    const unsubscribe = framer.subscribeToCanvasRoot(() => {
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current)
+      }
+      refreshTimeoutRef.current = setTimeout(() => {
+        refreshTree()
+      }, 250)
+    })
+
+    return () => {
+      unsubscribe()
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current)
+      }
+    }
+  }, [refreshTree])
+
+  const handleToggleExpand = async (layerId: string) => {
+    if (expandedIds.has(layerId)) {
+      setExpandedIds(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(layerId)
+        return newSet
+      })
+      return
+    }
+
+    setExpandedIds(prev => new Set(prev).add(layerId))
+    const children = await getLayerChildren(layerId)
+    setChildLayers(prev => ({ ...prev, [layerId]: children }))
+  }
+
+  // Show selection summary when Framer selection changes. Not on layer
+  // refreshes: those follow every canvas edit, selection or not.
   useEffect(() => {
     showSelectionSummary()
-  }, [selection, selectedLayerIds, layers])
+  }, [selection, selectedLayerIds])
 
   const getTypeIcon = (type: string) => {
     switch (type.toLowerCase()) {
       case 'frame': return <Square size={14} />
       case 'text': return <Type size={14} />
       case 'image': return <ImageIcon size={14} />
+      case 'component': return <Box size={14} />
+      case 'svg': return <Shapes size={14} />
       default: return <Layers size={14} />
     }
   }
@@ -125,6 +172,8 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
       case 'frame': return '#3b82f6'
       case 'text': return '#10b981'
       case 'image': return '#f59e0b'
+      case 'component': return '#8b5cf6'
+      case 'svg': return '#ec4899'
       default: return '#6b7280'
     }
   }
@@ -135,8 +184,7 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
       // await framer.setSelection([layerId])
       
       // Local state management for now
-      const layer = layers.find(l => l.id === layerId) || 
-                    layers.flatMap(l => l.children || []).find(c => c.id === layerId)
+      const layer = findLayer(layerId)
       
       if (layer) {
         console.log('Selecting layer:', layerId, layer.name)
@@ -173,12 +221,13 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
 
   const handleSelectAll = () => {
     const allLayerIds = new Set<string>()
-    filteredLayers.forEach(layer => {
+    const addVisible = (layer: FramerLayer) => {
       allLayerIds.add(layer.id)
-      if (layer.children) {
-        layer.children.forEach(child => allLayerIds.add(child.id))
+      if (expandedIds.has(layer.id)) {
+        getVisibleChildren(layer.id).forEach(addVisible)
       }
-    })
+    }
+    filteredLayers.forEach(addVisible)
     setSelectedLayerIds(allLayerIds)
     showSelectionSummary()
   }
@@ -188,77 +237,56 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
     showSelectionSummary()
   }
 
+  // Apply a change to whichever list holds the layer, ahead of the canvas refresh
+  const updateLocalLayer = (layerId: string, changes: Partial<FramerLayer>) => {
+    const apply = (list: FramerLayer[]) => list.map(layer => layer.id === layerId ? { ...layer, ...changes } : layer)
+    setLayers(apply)
+    setChildLayers(prev => Object.fromEntries(Object.entries(prev).map(([id, list]) => [id, apply(list)])))
+  }
+
   const handleToggleVisibility = async (layerId: string) => {
-    setLayers(prev => 
-      prev.map(layer => {
-        if (layer.id === layerId) {
-          return { ...layer, visible: !layer.visible }
-        }
-        if (layer.children) {
-          return {
-            ...layer,
-            children: layer.children.map(child => 
-              child.id === layerId ? { ...child, visible: !child.visible } : child
-            )
-          }
-        }
-        return layer
-      })
-    )
+    const layer = findLayer(layerId)
+    if (!layer) return
+
+    const visible = !layer.visible
+    if (await updateNodeAttributes(layerId, { visible })) {
+      updateLocalLayer(layerId, { visible })
+    }
+  }
+
+  const handleToggleLock = async (layerId: string) => {
+    const layer = findLayer(layerId)
+    if (!layer) return
+
+    const locked = !layer.locked
+    if (await updateNodeAttributes(layerId, { locked })) {
+      updateLocalLayer(layerId, { locked })
+    }
   }
 
   const handleDuplicateLayer = async (layerId: string) => {
-    try {
-      // TODO: Replace with real Framer API call
-      // await framer.cloneNode(layerId)
-      
-      // Local state simulation for now
-      const layerToDuplicate = layers.find(l => l.id === layerId) || 
-                               layers.flatMap(l => l.children || []).find(c => c.id === layerId)
-      
-      if (layerToDuplicate) {
-        const duplicatedLayer = {
-          ...layerToDuplicate,
-          id: `${layerId}-copy-${Date.now()}`,
-          name: `${layerToDuplicate.name} Copy`
-        }
-        
-        // Add to layers state
-        setLayers(prev => {
-          if (layerToDuplicate.parent) {
-            // It's a child layer
-            return prev.map(layer => 
-              layer.id === layerToDuplicate.parent 
-                ? { ...layer, children: [...(layer.children || []), duplicatedLayer] }
-                : layer
-            )
-          } else {
-            // It's a parent layer
-            return [...prev, duplicatedLayer]
-          }
-        })
-        
-        framer.notify(`✅ Duplicated: ${layerToDuplicate.name}`)
-      }
-    } catch (error) {
-      console.error('Failed to duplicate layer:', error)
-      framer.notify('❌ Failed to duplicate layer')
+    const layer = findLayer(layerId)
+    if (!layer) return
+
+    const copy = await duplicateNode(layerId)
+    if (copy) {
+      framer.notify(`✅ Duplicated: ${layer.name}`)
+      refreshTree()
     }
   }
 
   const handleDeleteLayer = async (layerId: string) => {
-    try {
-      // In production, use framer.removeNode(layerId)
-      setLayers(prev => 
-        prev.filter(layer => layer.id !== layerId)
-          .map(layer => ({
-            ...layer,
-            children: layer.children?.filter(child => child.id !== layerId)
-          }))
-      )
-      framer.notify(`Deleted layer: ${layerId}`)
-    } catch (error) {
-      console.error('Failed to delete layer:', error)
+    const layer = findLayer(layerId)
+    if (!layer) return
+
+    if (await removeNodes([layerId])) {
+      setSelectedLayerIds(prev => {
+        const newSet = new Set(prev)
+        newSet.delete(layerId)
+        return newSet
+      })
+      framer.notify(`🗑️ Deleted: ${layer.name}`)
+      refreshTree()
     }
   }
 
@@ -271,11 +299,7 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
     setIsLoading(true)
     try {
       // Get selected layer names for better feedback
-      const selectedNames = Array.from(totalSelectedLayers).map(id => {
-        return layers.find(l => l.id === id)?.name || 
-               layers.flatMap(l => l.children || []).find(c => c.id === id)?.name || 
-               'Unknown Layer'
-      })
+      const selectedNames = Array.from(totalSelectedLayers).map(id => findLayer(id)?.name || 'Unknown Layer')
 
       // Show generation start message
       if (selectedNames.length === 1) {
@@ -284,49 +308,17 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
         framer.notify(`🚀 Generating component from ${selectedNames.length} layers: ${selectedNames.slice(0, 2).join(', ')}${selectedNames.length > 2 ? '...' : ''}`)
       }
 
-      // Enhanced component generation with different types
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // Determine component type based on selected layers
-      const componentType = selectedNames.some(name => name.toLowerCase().includes('button')) ? 'button' :
-                           selectedNames.some(name => name.toLowerCase().includes('card')) ? 'card' :
-                           selectedNames.some(name => name.toLowerCase().includes('nav')) ? 'navigation' : 'component'
-      
-      const componentSVGs = {
-        button: `<svg xmlns="http://www.w3.org/2000/svg" width="120" height="40" viewBox="0 0 120 40">
-          <rect width="120" height="40" fill="#3b82f6" rx="8"/>
-          <text x="60" y="25" text-anchor="middle" fill="white" font-size="14" font-weight="600">${selectedNames[0]}</text>
-        </svg>`,
-        card: `<svg xmlns="http://www.w3.org/2000/svg" width="250" height="300" viewBox="0 0 250 300">
-          <rect width="250" height="300" fill="#ffffff" stroke="#e5e7eb" rx="12"/>
-          <rect x="20" y="20" width="210" height="120" fill="#f3f4f6" rx="8"/>
-          <rect x="20" y="160" width="150" height="16" fill="#374151" rx="4"/>
-          <rect x="20" y="190" width="100" height="12" fill="#6b7280" rx="2"/>
-          <rect x="20" y="250" width="80" height="30" fill="#10b981" rx="6"/>
-        </svg>`,
-        navigation: `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="60" viewBox="0 0 400 60">
-          <rect width="400" height="60" fill="#ffffff" stroke="#e5e7eb"/>
-          <rect x="20" y="20" width="80" height="20" fill="#1f2937" rx="4"/>
-          <rect x="150" y="22" width="50" height="16" fill="#6b7280" rx="2"/>
-          <rect x="220" y="22" width="50" height="16" fill="#6b7280" rx="2"/>
-          <rect x="290" y="22" width="50" height="16" fill="#6b7280" rx="2"/>
-        </svg>`,
-        component: `<svg xmlns="http://www.w3.org/2000/svg" width="200" height="150" viewBox="0 0 200 150">
-          <rect width="200" height="150" fill="#f8fafc" stroke="#e2e8f0" rx="8"/>
-          <rect x="20" y="20" width="160" height="20" fill="#3b82f6" rx="4"/>
-          <rect x="20" y="50" width="120" height="12" fill="#64748b" rx="2"/>
-          <rect x="20" y="70" width="140" height="12" fill="#64748b" rx="2"/>
-          <rect x="20" y="100" width="100" height="30" fill="#10b981" rx="6"/>
-          <text x="70" y="118" text-anchor="middle" fill="white" font-size="12" font-weight="600">Component</text>
-        </svg>`
+      const result = await generateComponentFromLayers(Array.from(totalSelectedLayers), selectedModel.id)
+      if (!result.success || !result.component) {
+        framer.notify(`❌ ${result.error || 'Failed to generate component'}`)
+        return
+      }
+
+      const { component } = result
+      const node = await insertGeneratedComponent(component, insertMode)
+      if (node) {
+        framer.notify(`✅ ${component.name} created with ${component.variants.length} variant${component.variants.length === 1 ? '' : 's'} and ${component.props.length} prop${component.props.length === 1 ? '' : 's'}`)
       }
-      
-      await framer.addSVG({
-        svg: componentSVGs[componentType as keyof typeof componentSVGs],
-        name: `Generated-${componentType}-${Date.now()}.svg`,
-      })
-      
-      framer.notify(`✅ ${componentType.charAt(0).toUpperCase() + componentType.slice(1)} component generated successfully!`)
     } catch (error) {
       console.error('Failed to generate component:', error)
       framer.notify('❌ Failed to generate component')
@@ -335,11 +327,107 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
     }
   }
 
-  const filteredLayers = layers.filter(layer => {
+  const matchesLayer = (layer: FramerLayer) => {
     const matchesSearch = layer.name.toLowerCase().includes(searchQuery.toLowerCase())
     const matchesFilter = filterType === 'all' || layer.type.toLowerCase() === filterType
     return matchesSearch && matchesFilter
-  })
+  }
+
+  // A layer stays in the tree when it matches or any loaded descendant does
+  const hasMatch = (layer: FramerLayer): boolean =>
+    matchesLayer(layer) || (childLayers[layer.id] || []).some(hasMatch)
+
+  const getVisibleChildren = (layerId: string) => (childLayers[layerId] || []).filter(hasMatch)
+
+  const filteredLayers = layers.filter(hasMatch)
+
+  const renderLayer = (layer: FramerLayer, depth: number) => {
+    const isExpanded = expandedIds.has(layer.id)
+    const children = isExpanded ? getVisibleChildren(layer.id) : []
+    const canExpand = layer.type !== 'Text' && layer.type !== 'SVG' && layer.type !== 'Component'
+
+    return (
+      <div key={layer.id}>
+        <div className={`layer-item ${depth > 0 ? 'child' : ''} ${isLayerSelected(layer.id) ? 'selected' : ''}`} onClick={() => {
+          handleLayerSelect(layer.id)
+          handleCheckboxToggle(layer.id, !isLayerSelected(layer.id))
+        }}>
+          <div className="layer-info">
+            <button
+              className="layer-expand"
+              onClick={(e) => {
+                e.stopPropagation()
+                handleToggleExpand(layer.id)
+              }}
+              disabled={!canExpand}
+              title={isExpanded ? 'Collapse' : 'Expand'}
+            >
+              {canExpand && (isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+            </button>
+            <input
+              type="checkbox"
+              checked={isLayerSelected(layer.id)}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => handleCheckboxToggle(layer.id, e.target.checked)}
+              className="layer-checkbox"
+            />
+            <div className="layer-icon" style={{ color: getTypeColor(layer.type) }}>
+              {getTypeIcon(layer.type)}
+            </div>
+            <div>
+              <h5>{layer.name}</h5>
+              <span className="layer-type">{layer.type}</span>
+            </div>
+          </div>
+          <div className="layer-actions">
+            <button 
+              onClick={(e) => {
+                e.stopPropagation()
+                handleToggleVisibility(layer.id)
+              }}
+              title={layer.visible ? 'Hide' : 'Show'}
+            >
+              {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+            </button>
+            <button 
+              onClick={(e) => {
+                e.stopPropagation()
+                handleToggleLock(layer.id)
+              }}
+              title={layer.locked ? 'Unlock' : 'Lock'}
+            >
+              {layer.locked ? <Lock size={14} /> : <Unlock size={14} />}
+            </button>
+            <button 
+              onClick={(e) => {
+                e.stopPropagation()
+                handleDuplicateLayer(layer.id)
+              }}
+              title="Duplicate"
+            >
+              <Copy size={14} />
+            </button>
+            <button 
+              onClick={(e) => {
+                e.stopPropagation()
+                handleDeleteLayer(layer.id)
+              }}
+              title="Delete"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        </div>
+
+        {/* Child Layers */}
+        {children.length > 0 && (
+          <div className="child-layers">
+            {children.map(child => renderLayer(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    )
+  }
 
   return (
     <div className="panel">
@@ -359,7 +447,7 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
         </div>
         <div className="selection-stat">
           <span className="selection-label">Total Layers:</span>
-          <span className="selection-value">{layers.length}</span>
+          <span className="selection-value">{allLayers.length}</span>
         </div>
       </div>
 
@@ -373,6 +461,16 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
           <Zap size={14} />
           {isLoading ? 'Generating...' : 'Generate Component'}
         </button>
+        <select
+          value={insertMode}
+          onChange={(e) => setInsertMode(e.target.value as ComponentInsertMode)}
+          className="filter-select"
+          title="How the generated component is placed on the canvas"
+          disabled={isLoading}
+        >
+          <option value="instance">As instance</option>
+          <option value="detached">As layers</option>
+        </select>
       </div>
 
       {/* Selection Controls */}
@@ -416,6 +514,8 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
             <option value="frame">Frames</option>
             <option value="text">Text</option>
             <option value="image">Images</option>
+            <option value="component">Components</option>
+            <option value="svg">Graphics</option>
           </select>
         </div>
       </div>
@@ -429,122 +529,7 @@ export function ProjectPanel({ selection }: ProjectPanelProps) {
             <span>Try adjusting your search or filter</span>
           </div>
         ) : (
-          filteredLayers.map(layer => (
-            <div key={layer.id}>
-              <div className={`layer-item ${isLayerSelected(layer.id) ? 'selected' : ''}`} onClick={() => {
-                handleLayerSelect(layer.id)
-                handleCheckboxToggle(layer.id, !isLayerSelected(layer.id))
-              }}>
-                <div className="layer-info">
-                  <input
-                    type="checkbox"
-                    checked={isLayerSelected(layer.id)}
-                    onChange={(e) => {
-                      e.stopPropagation()
-                      handleCheckboxToggle(layer.id, e.target.checked)
-                    }}
-                    className="layer-checkbox"
-                  />
-                  <div className="layer-icon" style={{ color: getTypeColor(layer.type) }}>
-                    {getTypeIcon(layer.type)}
-                  </div>
-                  <div>
-                    <h5>{layer.name}</h5>
-                    <span className="layer-type">{layer.type}</span>
-                  </div>
-                </div>
-                <div className="layer-actions">
-                  <button 
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleToggleVisibility(layer.id)
-                    }}
-                    title={layer.visible ? 'Hide' : 'Show'}
-                  >
-                    {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
-                  </button>
-                  <button 
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleDuplicateLayer(layer.id)
-                    }}
-                    title="Duplicate"
-                  >
-                    <Copy size={14} />
-                  </button>
-                  <button 
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleDeleteLayer(layer.id)
-                    }}
-                    title="Delete"
-                  >
-                    <Trash2 size={14} />
-                  </button>
-                </div>
-              </div>
-
-              {/* Child Layers */}
-              {layer.children && layer.children.length > 0 && (
-                <div className="child-layers">
-                  {layer.children.map(child => (
-                    <div key={child.id} className={`layer-item child ${isLayerSelected(child.id) ? 'selected' : ''}`} onClick={() => {
-                      handleLayerSelect(child.id)
-                      handleCheckboxToggle(child.id, !isLayerSelected(child.id))
-                    }}>
-                      <div className="layer-info">
-                        <input
-                          type="checkbox"
-                          checked={isLayerSelected(child.id)}
-                          onChange={(e) => {
-                            e.stopPropagation()
-                            handleCheckboxToggle(child.id, e.target.checked)
-                          }}
-                          className="layer-checkbox"
-                        />
-                        <div className="layer-icon" style={{ color: getTypeColor(child.type) }}>
-                          {getTypeIcon(child.type)}
-                        </div>
-                        <div>
-                          <h5>{child.name}</h5>
-                          <span className="layer-type">{child.type}</span>
-                        </div>
-                      </div>
-                      <div className="layer-actions">
-                        <button 
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleToggleVisibility(child.id)
-                          }}
-                          title={child.visible ? 'Hide' : 'Show'}
-                        >
-                          {child.visible ? <Eye size={14} /> : <EyeOff size={14} />}
-                        </button>
-                        <button 
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleDuplicateLayer(child.id)
-                          }}
-                          title="Duplicate"
-                        >
-                          <Copy size={14} />
-                        </button>
-                        <button 
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleDeleteLayer(child.id)
-                          }}
-                          title="Delete"
-                        >
-                          <Trash2 size={14} />
-                        </button>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
-          ))
+          filteredLayers.map(layer => renderLayer(layer, 0))
         )}
       </div>
     </div>
@@ -1,6 +1,19 @@
-import { useState } from 'react'
-import { X, AlertCircle } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { X, AlertCircle, FlaskConical } from 'lucide-react'
 import { useRulesService, Rule } from '../services/rulesService'
+import { evaluateRuleConditions, parseRuleCondition, ConditionResult, RuleConditions, RuleContext } from '../services/ruleConditions'
+
+const CONDITION_EXAMPLE = `{
+  "type": "all",
+  "conditions": [
+    { "type": "mode", "value": "agent" },
+    { "type": "any", "conditions": [
+      { "type": "requestType", "value": "website" },
+      { "type": "keywords", "value": ["landing", "hero"] }
+    ] },
+    { "type": "not", "condition": { "type": "model", "pattern": "gpt-3*" } }
+  ]
+}`
 
 interface RuleModalProps {
   isOpen: boolean
@@ -22,19 +35,64 @@ export function RuleModal({ isOpen, onClose, onRuleCreated, onRuleUpdated, exist
     category: existingRule?.category || 'general' as Rule['category'],
     priority: existingRule?.priority || 0,
     fileTypes: existingRule?.conditions?.fileTypes?.join(', ') || '',
-    contexts: existingRule?.conditions?.contexts?.join(', ') || ''
+    contexts: existingRule?.conditions?.contexts?.join(', ') || '',
+    match: existingRule?.conditions?.match ? JSON.stringify(existingRule.conditions.match, null, 2) : ''
+  })
+  const [sampleContext, setSampleContext] = useState({
+    mode: 'agent' as RuleContext['mode'],
+    requestType: 'website' as RuleContext['requestType'],
+    model: '',
+    provider: '',
+    selectionType: 'none',
+    nodeName: '',
+    fileTypes: '',
+    prompt: ''
   })
+  const [testResult, setTestResult] = useState<ConditionResult | null>(null)
+
+  const parsedMatch = useMemo(() => parseRuleCondition(formData.match), [formData.match])
+
+  const buildConditions = (): RuleConditions | undefined => {
+    const conditions: RuleConditions = {
+      fileTypes: formData.fileTypes ? formData.fileTypes.split(',').map(t => t.trim()).filter(Boolean) : undefined,
+      contexts: formData.contexts ? formData.contexts.split(',').map(c => c.trim()).filter(Boolean) : undefined,
+      match: parsedMatch.condition
+    }
+    return (conditions.fileTypes?.length || conditions.contexts?.length || conditions.match) ? conditions : undefined
+  }
+
+  const handleTestRule = () => {
+    const context: RuleContext = {
+      mode: sampleContext.mode,
+      requestType: sampleContext.requestType,
+      model: sampleContext.model.trim() || undefined,
+      provider: sampleContext.provider.trim() || undefined,
+      selection: sampleContext.selectionType === 'none'
+        ? []
+        : [{ type: sampleContext.selectionType, name: sampleContext.nodeName }],
+      prompt: sampleContext.prompt,
+      fileTypes: sampleContext.fileTypes.split(',').map(t => t.trim()).filter(Boolean)
+    }
+    setTestResult(evaluateRuleConditions(buildConditions(), context))
+  }
+
+  const updateSample = (changes: Partial<typeof sampleContext>) => {
+    setSampleContext(prev => ({ ...prev, ...changes }))
+    setTestResult(null)
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (parsedMatch.error) {
+      setError(`Match conditions: ${parsedMatch.error}`)
+      return
+    }
+
     setLoading(true)
     setError(null)
 
     try {
-      const conditions = {
-        fileTypes: formData.fileTypes ? formData.fileTypes.split(',').map(t => t.trim()).filter(Boolean) : undefined,
-        contexts: formData.contexts ? formData.contexts.split(',').map(c => c.trim()).filter(Boolean) : undefined
-      }
+      const conditions = buildConditions()
 
       if (existingRule) {
         const updatedRule = await updateRule(existingRule.id, {
@@ -43,7 +101,7 @@ export function RuleModal({ isOpen, onClose, onRuleCreated, onRuleUpdated, exist
           prompt: formData.prompt,
           category: formData.category,
           priority: formData.priority,
-          conditions: (conditions.fileTypes?.length || conditions.contexts?.length) ? conditions : undefined
+          conditions
         })
         if (updatedRule) {
           onRuleUpdated(updatedRule)
@@ -55,7 +113,7 @@ export function RuleModal({ isOpen, onClose, onRuleCreated, onRuleUpdated, exist
           formData.description,
           formData.prompt,
           formData.category,
-          (conditions.fileTypes?.length || conditions.contexts?.length) ? conditions : undefined,
+          conditions,
           formData.priority
         )
         if (newRule) {
@@ -186,6 +244,146 @@ export function RuleModal({ isOpen, onClose, onRuleCreated, onRuleUpdated, exist
               <small>Comma-separated list of code contexts where this rule applies</small>
             </div>
           </div>
+
+          <div className="form-group">
+            <label htmlFor="match">Match Conditions (Optional)</label>
+            <textarea
+              id="match"
+              className="condition-editor"
+              value={formData.match}
+              onChange={(e) => {
+                setFormData(prev => ({ ...prev, match: e.target.value }))
+                setTestResult(null)
+              }}
+              placeholder={CONDITION_EXAMPLE}
+              rows={8}
+              disabled={loading}
+            />
+            {parsedMatch.error ? (
+              <small className="condition-error">{parsedMatch.error}</small>
+            ) : (
+              <small>
+                JSON condition combining all, any and not with mode, model, provider, selection,
+                nodeName, requestType, keywords and regex checks
+              </small>
+            )}
+          </div>
+
+          <div className="rule-test">
+            <div className="condition-label">Test against a sample request</div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="sampleMode">Mode</label>
+                <select
+                  id="sampleMode"
+                  value={sampleContext.mode}
+                  onChange={(e) => updateSample({ mode: e.target.value as RuleContext['mode'] })}
+                >
+                  <option value="ask">Ask</option>
+                  <option value="agent">Agent</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="sampleRequestType">Request Type</label>
+                <select
+                  id="sampleRequestType"
+                  value={sampleContext.requestType}
+                  onChange={(e) => updateSample({ requestType: e.target.value as RuleContext['requestType'] })}
+                >
+                  <option value="website">Website</option>
+                  <option value="section">Section</option>
+                  <option value="component">Component</option>
+                  <option value="canvas">Canvas</option>
+                  <option value="chat">Chat</option>
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="sampleModel">Model</label>
+                <input
+                  id="sampleModel"
+                  type="text"
+                  value={sampleContext.model}
+                  onChange={(e) => updateSample({ model: e.target.value })}
+                  placeholder="claude-sonnet-4"
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="sampleProvider">Provider</label>
+                <input
+                  id="sampleProvider"
+                  type="text"
+                  value={sampleContext.provider}
+                  onChange={(e) => updateSample({ provider: e.target.value })}
+                  placeholder="anthropic"
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="sampleSelection">Selection</label>
+                <select
+                  id="sampleSelection"
+                  value={sampleContext.selectionType}
+                  onChange={(e) => updateSample({ selectionType: e.target.value })}
+                >
+                  <option value="none">Nothing selected</option>
+                  <option value="Frame">Frame</option>
+                  <option value="Text">Text</option>
+                  <option value="SVG">SVG</option>
+                  <option value="Component">Component</option>
+                  <option value="Layer">Layer</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="sampleNodeName">Layer Name</label>
+                <input
+                  id="sampleNodeName"
+                  type="text"
+                  value={sampleContext.nodeName}
+                  onChange={(e) => updateSample({ nodeName: e.target.value })}
+                  placeholder="Button/Primary"
+                  disabled={sampleContext.selectionType === 'none'}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="sampleFileTypes">File Types</label>
+              <input
+                id="sampleFileTypes"
+                type="text"
+                value={sampleContext.fileTypes}
+                onChange={(e) => updateSample({ fileTypes: e.target.value })}
+                placeholder=".tsx"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="samplePrompt">Prompt</label>
+              <textarea
+                id="samplePrompt"
+                value={sampleContext.prompt}
+                onChange={(e) => updateSample({ prompt: e.target.value })}
+                placeholder="Build a landing page for a coffee shop"
+                rows={2}
+              />
+            </div>
+            <button
+              type="button"
+              className="secondary-button"
+              onClick={handleTestRule}
+              disabled={Boolean(parsedMatch.error)}
+            >
+              <FlaskConical size={14} />
+              Test Rule
+            </button>
+            {testResult && (
+              <div className={`rule-test-result ${testResult.matched ? 'matched' : 'unmatched'}`}>
+                <strong>{testResult.matched ? 'Rule applies' : 'Rule does not apply'}</strong>
+                <pre>{testResult.trace.join('\n')}</pre>
+              </div>
+            )}
+          </div>
         </form>
 
         <div className="modal-footer">
@@ -196,7 +394,7 @@ export function RuleModal({ isOpen, onClose, onRuleCreated, onRuleUpdated, exist
             type="submit" 
             form="ruleForm"
             className="gradient-button" 
-            disabled={loading || !formData.name.trim() || !formData.prompt.trim()}
+            disabled={loading || !formData.name.trim() || !formData.prompt.trim() || Boolean(parsedMatch.error)}
             onClick={handleSubmit}
           >
             {loading ? 'Saving...' : existingRule ? 'Update Rule' : 'Create Rule'}
@@ -16,18 +16,46 @@ import {
   ToggleRight,
   AlertCircle,
   CheckCircle2,
-  Loader
+  Loader,
+  Play,
+  Pause,
+  Square,
+  Store,
+  Search,
+  Filter,
+  GitFork,
+  Upload,
+  EyeOff,
+  Globe
 } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
-import { useRulesService, Rule, WorkflowTemplate, FineTuningProject } from '../services/rulesService'
+import { useModel } from '../contexts/ModelContext'
+import { framer } from 'framer-plugin'
+import { useRulesService, RulesService, Rule, WorkflowTemplate, FineTuningProject } from '../services/rulesService'
+import { describeCondition } from '../services/ruleConditions'
+import { describeStep } from '../services/workflowSteps'
+import { filterMarketplaceWorkflows, sanitizeWorkflowForPublishing, MarketplaceFilters } from '../services/workflowMarketplace'
+import {
+  WorkflowRun,
+  startWorkflow,
+  pauseWorkflow,
+  resumeWorkflow,
+  cancelWorkflow,
+  restoreWorkflowRuns,
+  isAwaitingApproval,
+  getApprovalMessage,
+  getWorkflowRuns,
+  subscribeToWorkflowRuns
+} from '../services/workflowExecutor'
 import { RuleModal } from './RuleModal'
 import { WorkflowModal } from './WorkflowModal'
 
 export function RulesPanel() {
   const { user } = useAuth()
+  const { selectedModel } = useModel()
   const rulesService = useRulesService()
   
-  const [activeTab, setActiveTab] = useState<'rules' | 'workflows' | 'finetuning'>('rules')
+  const [activeTab, setActiveTab] = useState<'rules' | 'workflows' | 'marketplace' | 'finetuning'>('rules')
   const [expandedSections, setExpandedSections] = useState<string[]>(['general'])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -36,6 +64,14 @@ export function RulesPanel() {
   const [rules, setRules] = useState<Rule[]>([])
   const [workflows, setWorkflows] = useState<WorkflowTemplate[]>([])
   const [fineTuningProjects, setFineTuningProjects] = useState<FineTuningProject[]>([])
+  const [workflowRuns, setWorkflowRuns] = useState<WorkflowRun[]>(getWorkflowRuns)
+  const [publicWorkflows, setPublicWorkflows] = useState<WorkflowTemplate[]>([])
+  const [marketplaceFilters, setMarketplaceFilters] = useState<MarketplaceFilters>({
+    search: '',
+    category: 'all',
+    sort: 'usage'
+  })
+  const [forkingId, setForkingId] = useState<string | null>(null)
   
   // Modal state
   const [ruleModalOpen, setRuleModalOpen] = useState(false)
@@ -48,6 +84,9 @@ export function RulesPanel() {
     loadData()
   }, [activeTab])
 
+  // Runs keep going while the panel is closed, so progress comes from the executor
+  useEffect(() => subscribeToWorkflowRuns(setWorkflowRuns), [])
+
   const loadData = async () => {
     setLoading(true)
     setError(null)
@@ -59,6 +98,10 @@ export function RulesPanel() {
       } else if (activeTab === 'workflows') {
         const workflowsData = await rulesService.getWorkflows()
         setWorkflows(workflowsData)
+        await restoreWorkflowRuns(workflowsData, selectedModel.id)
+      } else if (activeTab === 'marketplace') {
+        const publicData = await RulesService.getPublicWorkflows()
+        setPublicWorkflows(publicData)
       } else if (activeTab === 'finetuning') {
         const projectsData = await rulesService.getFineTuningProjects()
         setFineTuningProjects(projectsData)
@@ -131,6 +174,73 @@ export function RulesPanel() {
     }
   }
 
+  const handleRunWorkflow = async (workflow: WorkflowTemplate) => {
+    try {
+      await startWorkflow(workflow, selectedModel.id)
+    } catch (err) {
+      console.error('Failed to start workflow:', err)
+      alert(err instanceof Error ? err.message : 'Failed to start workflow')
+    }
+  }
+
+  const handlePublishWorkflow = async (workflow: WorkflowTemplate) => {
+    const { removed } = sanitizeWorkflowForPublishing(workflow)
+    const removedNote = removed.length > 0
+      ? `\n\nThese will be left out of the public copy:\n${removed.map(item => `• ${item}`).join('\n')}`
+      : ''
+    if (!confirm(`Publish a copy of "${workflow.name}" to the workflow gallery?${removedNote}`)) return
+
+    try {
+      const result = await RulesService.publishWorkflow(workflow)
+      if (result) {
+        setWorkflows(prev => [result.listing, ...prev.filter(existing => existing.id !== result.listing.id)])
+        framer.notify(`🌐 Published "${result.listing.name}" to the gallery`)
+      }
+    } catch (err) {
+      console.error('Failed to publish workflow:', err)
+      alert(err instanceof Error ? err.message : 'Failed to publish workflow')
+    }
+  }
+
+  const handleUnpublishWorkflow = async (listing: WorkflowTemplate) => {
+    if (!confirm(`Remove "${listing.name}" from the gallery? Your own workflow stays.`)) return
+
+    const success = await RulesService.deleteWorkflow(listing.id)
+    if (success) {
+      setWorkflows(prev => prev.filter(workflow => workflow.id !== listing.id))
+    }
+  }
+
+  const handleForkWorkflow = async (listing: WorkflowTemplate) => {
+    setForkingId(listing.id)
+    try {
+      const fork = await RulesService.forkWorkflow(listing)
+      if (fork) {
+        setWorkflows(prev => [fork, ...prev])
+        setPublicWorkflows(prev => prev.map(workflow =>
+          workflow.id === listing.id ? { ...workflow, usage_count: (workflow.usage_count || 0) + 1 } : workflow
+        ))
+        framer.notify(`🍴 Forked "${listing.name}" to your workflows`)
+      }
+    } catch (err) {
+      console.error('Failed to fork workflow:', err)
+      alert(err instanceof Error ? err.message : 'Failed to fork workflow')
+    } finally {
+      setForkingId(null)
+    }
+  }
+
+  const updateMarketplaceFilters = (changes: Partial<MarketplaceFilters>) => {
+    setMarketplaceFilters(prev => ({ ...prev, ...changes }))
+  }
+
+  // Most recent run of each workflow
+  const getLatestRun = (workflowId: string) =>
+    workflowRuns.find(run => run.workflow.id === workflowId)
+
+  const isRunActive = (run?: WorkflowRun) =>
+    run?.execution.status === 'running' || run?.execution.status === 'paused'
+
   const openEditRule = (rule: Rule) => {
     setEditingRule(rule)
     setRuleModalOpen(true)
@@ -176,7 +286,9 @@ export function RulesPanel() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return '#10b981'
-      case 'training': return '#3b82f6'
+      case 'training':
+      case 'running': return '#3b82f6'
+      case 'paused': return '#f59e0b'
       case 'failed': return '#ef4444'
       default: return '#6b7280'
     }
@@ -188,7 +300,12 @@ export function RulesPanel() {
     return acc
   }, {} as Record<string, Rule[]>)
 
-  const workflowsByCategory = workflows.reduce((acc, workflow) => {
+  // Public rows are the user's gallery listings, shown apart from their workflows
+  const publishedWorkflows = workflows.filter(workflow => workflow.is_public)
+  const totalListingUses = publishedWorkflows.reduce((total, workflow) => total + (workflow.usage_count || 0), 0)
+  const marketplaceWorkflows = filterMarketplaceWorkflows(publicWorkflows, marketplaceFilters)
+
+  const workflowsByCategory = workflows.filter(workflow => !workflow.is_public).reduce((acc, workflow) => {
     if (!acc[workflow.category]) acc[workflow.category] = []
     acc[workflow.category].push(workflow)
     return acc
@@ -220,6 +337,13 @@ export function RulesPanel() {
           <Zap size={16} />
           <span>Workflows</span>
         </button>
+        <button
+          className={`settings-tab ${activeTab === 'marketplace' ? 'active' : ''}`}
+          onClick={() => setActiveTab('marketplace')}
+        >
+          <Store size={16} />
+          <span>Gallery</span>
+        </button>
         <button
           className={`settings-tab ${activeTab === 'finetuning' ? 'active' : ''}`}
           onClick={() => setActiveTab('finetuning')}
@@ -342,6 +466,11 @@ export function RulesPanel() {
                                 ))}
                               </div>
                             )}
+                            {rule.conditions.match && (
+                              <div className="condition-tags">
+                                <span className="condition-tag">{describeCondition(rule.conditions.match)}</span>
+                              </div>
+                            )}
                           </div>
                         )}
 
@@ -417,8 +546,29 @@ export function RulesPanel() {
                           <div className="workflow-info">
                             <h4>{workflow.name}</h4>
                             <p>{workflow.description}</p>
+                            {workflow.forked_from && (
+                              <span className="workflow-attribution">
+                                <GitFork size={12} />
+                                Forked from {workflow.forked_from.name}
+                              </span>
+                            )}
                           </div>
                           <div className="workflow-actions">
+                            <button
+                              className="icon-button"
+                              title={workflow.enabled ? 'Run workflow' : 'Enable the workflow to run it'}
+                              disabled={!workflow.enabled || isRunActive(getLatestRun(workflow.id))}
+                              onClick={() => handleRunWorkflow(workflow)}
+                            >
+                              <Play size={14} />
+                            </button>
+                            <button
+                              className="icon-button"
+                              title="Publish to the gallery"
+                              onClick={() => handlePublishWorkflow(workflow)}
+                            >
+                              <Upload size={14} />
+                            </button>
                             <button
                               className="toggle-button"
                               onClick={() => handleToggleWorkflow(workflow.id, !workflow.enabled)}
@@ -446,11 +596,15 @@ export function RulesPanel() {
                         <div className="workflow-steps">
                           <div className="steps-label">Steps:</div>
                           <ol className="steps-list">
-                            {workflow.steps.map((step, index) => (
-                              <li key={index} className="step-item">{step}</li>
+                            {workflow.steps.map(step => (
+                              <li key={step.id} className="step-item">{describeStep(step, workflow.steps)}</li>
                             ))}
                           </ol>
                         </div>
+
+                        {getLatestRun(workflow.id) && (
+                          <WorkflowRunProgress run={getLatestRun(workflow.id)!} getStatusColor={getStatusColor} />
+                        )}
                       </div>
                     ))}
                   </div>
@@ -458,6 +612,160 @@ export function RulesPanel() {
               </div>
             ))
           )}
+
+          {publishedWorkflows.length > 0 && (
+            <div className="collapsible-section">
+              <button
+                className="section-toggle"
+                onClick={() => toggleSection('workflow-published')}
+              >
+                {expandedSections.includes('workflow-published') ?
+                  <ChevronDown size={16} /> : <ChevronRight size={16} />
+                }
+                <Globe size={16} />
+                <span>Published to gallery</span>
+                <span className="rule-count">{publishedWorkflows.length}</span>
+              </button>
+
+              {expandedSections.includes('workflow-published') && (
+                <div className="section-content">
+                  <p className="marketplace-stats-summary">
+                    {totalListingUses.toLocaleString()} uses across your listings (forks and runs of forks)
+                  </p>
+                  {publishedWorkflows.map(listing => (
+                    <div key={listing.id} className="workflow-card">
+                      <div className="workflow-header">
+                        <div className="workflow-info">
+                          <h4>{listing.name}</h4>
+                          <div className="marketplace-meta">
+                            <span>{(listing.usage_count || 0).toLocaleString()} uses</span>
+                            <span>{listing.steps.length} steps</span>
+                            {listing.created_at && <span>Published {new Date(listing.created_at).toLocaleDateString()}</span>}
+                            {listing.updated_at && listing.updated_at !== listing.created_at && (
+                              <span>Updated {new Date(listing.updated_at).toLocaleDateString()}</span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="workflow-actions">
+                          <button
+                            className="icon-button text-red-400"
+                            title="Remove from the gallery"
+                            onClick={() => handleUnpublishWorkflow(listing)}
+                          >
+                            <EyeOff size={14} />
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Gallery Tab */}
+      {!loading && !error && activeTab === 'marketplace' && (
+        <div className="settings-content">
+          <div className="section-header">
+            <div>
+              <h3>Workflow Gallery</h3>
+              <p>Browse workflows shared by the community and fork them into your own</p>
+            </div>
+          </div>
+
+          <div className="marketplace-controls">
+            <div className="search-container">
+              <Search size={16} />
+              <input
+                type="text"
+                placeholder="Search workflows..."
+                value={marketplaceFilters.search}
+                onChange={(e) => updateMarketplaceFilters({ search: e.target.value })}
+                className="search-input"
+              />
+            </div>
+            <div className="filter-container">
+              <Filter size={16} />
+              <select
+                value={marketplaceFilters.category}
+                onChange={(e) => updateMarketplaceFilters({ category: e.target.value as MarketplaceFilters['category'] })}
+                className="filter-select"
+              >
+                <option value="all">All categories</option>
+                <option value="component">Component</option>
+                <option value="animation">Animation</option>
+                <option value="layout">Layout</option>
+                <option value="integration">Integration</option>
+              </select>
+            </div>
+            <div className="filter-container">
+              <Filter size={16} />
+              <select
+                value={marketplaceFilters.sort}
+                onChange={(e) => updateMarketplaceFilters({ sort: e.target.value as MarketplaceFilters['sort'] })}
+                className="filter-select"
+              >
+                <option value="usage">Most used</option>
+                <option value="newest">Newest</option>
+                <option value="name">Name</option>
+              </select>
+            </div>
+          </div>
+
+          {marketplaceWorkflows.length === 0 ? (
+            <div className="empty-state">
+              <Store size={48} />
+              <p>
+                {publicWorkflows.length === 0
+                  ? 'No public workflows yet. Publish one of yours to share it.'
+                  : 'No workflows match your search.'}
+              </p>
+            </div>
+          ) : (
+            marketplaceWorkflows.map(listing => (
+              <div key={listing.id} className="workflow-card">
+                <div className="workflow-header">
+                  <div className="workflow-info">
+                    <h4>{listing.name}</h4>
+                    <p>{listing.description}</p>
+                    {listing.forked_from && (
+                      <span className="workflow-attribution">
+                        <GitFork size={12} />
+                        Based on {listing.forked_from.name}
+                      </span>
+                    )}
+                  </div>
+                  <div className="workflow-actions">
+                    <button
+                      className="gradient-button small"
+                      onClick={() => handleForkWorkflow(listing)}
+                      disabled={forkingId === listing.id}
+                    >
+                      {forkingId === listing.id ? <Loader size={12} className="animate-spin" /> : <GitFork size={12} />}
+                      Fork
+                    </button>
+                  </div>
+                </div>
+
+                <div className="marketplace-meta">
+                  <span className="capitalize">{listing.category}</span>
+                  <span>{(listing.usage_count || 0).toLocaleString()} uses</span>
+                  <span>{listing.steps.length} steps</span>
+                </div>
+
+                <div className="workflow-steps">
+                  <div className="steps-label">Steps:</div>
+                  <ol className="steps-list">
+                    {listing.steps.map(step => (
+                      <li key={step.id} className="step-item">{describeStep(step, listing.steps)}</li>
+                    ))}
+                  </ol>
+                </div>
+              </div>
+            ))
+          )}
         </div>
       )}
 
@@ -590,3 +898,87 @@ export function RulesPanel() {
     </div>
   )
 }
+
+function WorkflowRunProgress({ run, getStatusColor }: { run: WorkflowRun; getStatusColor: (status: string) => string }) {
+  const { execution, workflow } = run
+  const totalSteps = workflow.steps.length
+  const progress = totalSteps > 0 ? Math.round((execution.current_step / totalSteps) * 100) : 0
+  const [expandedStep, setExpandedStep] = useState<number | null>(null)
+
+  return (
+    <div className="workflow-run">
+      <div className="progress-header">
+        <span className="workflow-run-status">
+          <span
+            className="status-indicator"
+            style={{ backgroundColor: getStatusColor(execution.status) }}
+          >
+            {execution.status.charAt(0).toUpperCase() + execution.status.slice(1)}
+          </span>
+          {execution.status === 'running' && run.stepRunning
+            ? `Step ${execution.current_step + 1} of ${totalSteps}`
+            : `${execution.current_step} of ${totalSteps} steps done`}
+          {run.stepRunning && <Loader size={12} className="animate-spin" />}
+        </span>
+        <span>{execution.total_tokens_used.toLocaleString()} tokens</span>
+      </div>
+      <div className="progress-bar">
+        <div className="progress-fill" style={{ width: `${progress}%` }} />
+      </div>
+
+      {isAwaitingApproval(run) && (
+        <div className="workflow-run-approval">
+          <CheckCircle2 size={12} />
+          <span>{getApprovalMessage(run)}</span>
+        </div>
+      )}
+
+      {execution.error_message && (
+        <div className="workflow-run-error">
+          <AlertCircle size={12} />
+          <span>{execution.error_message}</span>
+        </div>
+      )}
+
+      {execution.step_results.length > 0 && (
+        <div className="workflow-run-results">
+          {execution.step_results.map(result => (
+            <div key={result.step} className="workflow-run-result">
+              <button
+                className="workflow-run-result-toggle"
+                onClick={() => setExpandedStep(expandedStep === result.step ? null : result.step)}
+              >
+                {expandedStep === result.step ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                <span>Step {result.step + 1}: {result.instruction}</span>
+              </button>
+              {expandedStep === result.step && (
+                <pre className="workflow-run-output">{result.output}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(execution.status === 'running' || execution.status === 'paused') && (
+        <div className="project-actions">
+          {execution.status === 'running' ? (
+            <button className="secondary-button small" onClick={() => pauseWorkflow(execution.id)}>
+              <Pause size={12} />
+              Pause
+            </button>
+          ) : (
+            <button className="gradient-button small" onClick={() => resumeWorkflow(execution.id)}>
+              {isAwaitingApproval(run) ? <CheckCircle2 size={12} /> : <Play size={12} />}
+              {isAwaitingApproval(run) ? 'Approve' : 'Resume'}
+            </button>
+          )}
+          <button className="secondary-button small" onClick={() => cancelWorkflow(execution.id)}>
+            <Square size={12} />
+            {isAwaitingApproval(run) ? 'Reject' : 'Cancel'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
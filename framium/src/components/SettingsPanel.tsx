@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { LogOut, User, Shield, Palette, Code, HelpCircle, ExternalLink, Save, Crown, Zap, Check } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { useModel } from '../contexts/ModelContext'
+import { getBrandTokens, importTokensFromFramer, parseDesignTokens, setBrandTokens, DesignTokens } from '../services/designTokens'
 
 interface SettingsPanelProps {
   onOpenAuth?: (mode?: 'signin' | 'signup') => void
@@ -19,6 +20,10 @@ export function SettingsPanel({ onOpenAuth }: SettingsPanelProps) {
     codeStyle: 'typescript',
     defaultMode: mode
   })
+  const [brandTokens, setBrandTokensState] = useState<DesignTokens | null>(() => getBrandTokens())
+  const [tokenJson, setTokenJson] = useState('')
+  const [showTokenJson, setShowTokenJson] = useState(false)
+  const [importingTokens, setImportingTokens] = useState(false)
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false)
   const [showEditProfile, setShowEditProfile] = useState(false)
   const [showChangePassword, setShowChangePassword] = useState(false)
@@ -45,6 +50,46 @@ export function SettingsPanel({ onOpenAuth }: SettingsPanelProps) {
     alert('✅ Preferences saved successfully!')
   }
 
+  const saveBrandTokens = (tokens: DesignTokens | null) => {
+    setBrandTokens(tokens)
+    setBrandTokensState(tokens)
+  }
+
+  const handleImportTokenJson = () => {
+    const result = parseDesignTokens(tokenJson, brandTokens || undefined)
+    if (!result.success || !result.tokens) {
+      alert(`❌ ${result.error}`)
+      return
+    }
+
+    saveBrandTokens(result.tokens)
+    setTokenJson('')
+    setShowTokenJson(false)
+    alert(`✅ Design tokens "${result.tokens.name}" imported`)
+  }
+
+  const handleImportFramerTokens = async () => {
+    setImportingTokens(true)
+    try {
+      const result = await importTokensFromFramer(brandTokens || undefined)
+      if (!result.success || !result.tokens) {
+        alert(`❌ ${result.error}`)
+        return
+      }
+
+      saveBrandTokens(result.tokens)
+      alert(`✅ Imported ${result.imported?.colorStyles || 0} color styles and ${result.imported?.textStyles || 0} text styles`)
+    } finally {
+      setImportingTokens(false)
+    }
+  }
+
+  const handleExportTokens = async () => {
+    if (!brandTokens) return
+    await navigator.clipboard.writeText(JSON.stringify(brandTokens, null, 2))
+    alert('✅ Design tokens copied as JSON')
+  }
+
   const handleEditProfile = () => {
     setShowEditProfile(true)
   }
@@ -321,6 +366,64 @@ export function SettingsPanel({ onOpenAuth }: SettingsPanelProps) {
             </div>
           </div>
 
+          <div className="preference-group">
+            <h4>Design Tokens</h4>
+            <div className="preference-item">
+              <label>
+                {brandTokens ? `Brand: ${brandTokens.name}` : 'Theme presets'}
+              </label>
+              {brandTokens && (
+                <div className="token-swatches">
+                  {Object.entries(brandTokens.colors).map(([role, color]) => (
+                    <span key={role} className="token-swatch" style={{ background: color }} title={`${role} ${color}`} />
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="preference-item token-actions">
+              <button
+                className="action-button"
+                onClick={handleImportFramerTokens}
+                disabled={importingTokens}
+              >
+                {importingTokens ? 'Importing...' : 'Import Framer Styles'}
+              </button>
+              <button
+                className="action-button"
+                onClick={() => setShowTokenJson(!showTokenJson)}
+              >
+                Import JSON
+              </button>
+              {brandTokens && (
+                <>
+                  <button className="action-button" onClick={handleExportTokens}>
+                    Copy JSON
+                  </button>
+                  <button className="action-button" onClick={() => saveBrandTokens(null)}>
+                    Reset
+                  </button>
+                </>
+              )}
+            </div>
+            {showTokenJson && (
+              <div className="preference-item token-json">
+                <textarea
+                  value={tokenJson}
+                  onChange={(e) => setTokenJson(e.target.value)}
+                  placeholder='{ "name": "Acme", "colors": { "accent": "#FF5A1F" }, "typography": { "fontFamily": "Manrope" } }'
+                  rows={6}
+                />
+                <button
+                  className="action-button primary"
+                  onClick={handleImportTokenJson}
+                  disabled={!tokenJson.trim()}
+                >
+                  Import
+                </button>
+              </div>
+            )}
+          </div>
+
           <div className="preference-group">
             <h4>Behavior</h4>
             <div className="preference-item">
@@ -1,6 +1,30 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { X, Plus, Trash2, AlertCircle, GripVertical } from 'lucide-react'
 import { useRulesService, WorkflowTemplate } from '../services/rulesService'
+import {
+  CANVAS_ACTIONS,
+  END_OF_WORKFLOW,
+  PREVIOUS_OUTPUT_VARIABLE,
+  STEP_KINDS,
+  BranchOperator,
+  CanvasActionType,
+  ExtractField,
+  WorkflowStep,
+  WorkflowStepKind,
+  createStep,
+  validateWorkflowSteps
+} from '../services/workflowSteps'
+
+const BRANCH_OPERATORS: Record<BranchOperator, string> = {
+  equals: 'equals',
+  contains: 'contains',
+  matches: 'matches regex',
+  isEmpty: 'is empty',
+  isNotEmpty: 'is not empty'
+}
+
+// Blank prompt steps are left out when saving, like blank steps always were
+const isBlankStep = (step: WorkflowStep) => step.kind === 'prompt' && !step.prompt.trim()
 
 interface WorkflowModalProps {
   isOpen: boolean
@@ -19,13 +43,16 @@ export function WorkflowModal({ isOpen, onClose, onWorkflowCreated, onWorkflowUp
     name: existingWorkflow?.name || '',
     description: existingWorkflow?.description || '',
     category: existingWorkflow?.category || 'component' as WorkflowTemplate['category'],
-    steps: existingWorkflow?.steps || ['']
+    steps: existingWorkflow?.steps.length ? existingWorkflow.steps : [createStep('prompt')]
   })
 
+  const stepsToSave = useMemo(() => formData.steps.filter(step => !isBlankStep(step)), [formData.steps])
+  const issues = useMemo(() => validateWorkflowSteps(stepsToSave), [stepsToSave])
+
   const addStep = () => {
     setFormData(prev => ({
       ...prev,
-      steps: [...prev.steps, '']
+      steps: [...prev.steps, createStep('prompt')]
     }))
   }
 
@@ -36,13 +63,18 @@ export function WorkflowModal({ isOpen, onClose, onWorkflowCreated, onWorkflowUp
     }))
   }
 
-  const updateStep = (index: number, value: string) => {
+  const updateStep = (index: number, value: WorkflowStep) => {
     setFormData(prev => ({
       ...prev,
       steps: prev.steps.map((step, i) => i === index ? value : step)
     }))
   }
 
+  // Keep the ID so branches pointing at this step still do
+  const changeStepKind = (index: number, kind: WorkflowStepKind) => {
+    updateStep(index, { ...createStep(kind), id: formData.steps[index].id })
+  }
+
   const moveStep = (fromIndex: number, toIndex: number) => {
     setFormData(prev => {
       const newSteps = [...prev.steps]
@@ -58,7 +90,7 @@ export function WorkflowModal({ isOpen, onClose, onWorkflowCreated, onWorkflowUp
     setError(null)
 
     try {
-      const validSteps = formData.steps.filter(step => step.trim())
+      const validSteps = stepsToSave
       
       if (validSteps.length === 0) {
         setError('At least one step is required')
@@ -66,6 +98,12 @@ export function WorkflowModal({ isOpen, onClose, onWorkflowCreated, onWorkflowUp
         return
       }
 
+      if (issues.length > 0) {
+        setError(`Fix step ${issues[0].index + 1}: ${issues[0].message}`)
+        setLoading(false)
+        return
+      }
+
       if (existingWorkflow) {
         const updatedWorkflow = await updateWorkflow(existingWorkflow.id, {
           name: formData.name,
@@ -160,18 +198,32 @@ export function WorkflowModal({ isOpen, onClose, onWorkflowCreated, onWorkflowUp
             <label>Workflow Steps *</label>
             <div className="workflow-steps-editor">
               {formData.steps.map((step, index) => (
-                <div key={index} className="step-editor">
+                <div key={step.id} className="step-editor">
                   <div className="step-handle">
                     <GripVertical size={16} />
                     <span className="step-number">{index + 1}</span>
                   </div>
-                  <textarea
-                    value={step}
-                    onChange={(e) => updateStep(index, e.target.value)}
-                    placeholder={`Step ${index + 1}: Describe what should happen...`}
-                    rows={2}
-                    disabled={loading}
-                  />
+                  <div className="step-fields">
+                    <select
+                      value={step.kind}
+                      onChange={(e) => changeStepKind(index, e.target.value as WorkflowStepKind)}
+                      disabled={loading}
+                    >
+                      {Object.entries(STEP_KINDS).map(([kind, { label, description }]) => (
+                        <option key={kind} value={kind}>{label}: {description}</option>
+                      ))}
+                    </select>
+                    <StepFields
+                      step={step}
+                      index={index}
+                      steps={formData.steps}
+                      onChange={(value) => updateStep(index, value)}
+                      disabled={loading}
+                    />
+                    {!isBlankStep(step) && issues.filter(issue => issue.stepId === step.id).map((issue, i) => (
+                      <small key={i} className="step-issue">{issue.message}</small>
+                    ))}
+                  </div>
                   <div className="step-actions">
                     {index > 0 && (
                       <button
@@ -226,7 +278,7 @@ export function WorkflowModal({ isOpen, onClose, onWorkflowCreated, onWorkflowUp
           <button 
             type="submit" 
             className="gradient-button" 
-            disabled={loading || !formData.name.trim() || formData.steps.filter(s => s.trim()).length === 0}
+            disabled={loading || !formData.name.trim() || stepsToSave.length === 0 || issues.length > 0}
             onClick={handleSubmit}
           >
             {loading ? 'Saving...' : existingWorkflow ? 'Update Workflow' : 'Create Workflow'}
@@ -236,3 +288,219 @@ export function WorkflowModal({ isOpen, onClose, onWorkflowCreated, onWorkflowUp
     </div>
   )
 }
+
+interface StepFieldsProps {
+  step: WorkflowStep
+  index: number
+  steps: WorkflowStep[]
+  onChange: (step: WorkflowStep) => void
+  disabled: boolean
+}
+
+function StepFields({ step, index, steps, onChange, disabled }: StepFieldsProps) {
+  // Variables earlier steps save, for the hint under template fields
+  const variables = steps.slice(0, index).flatMap(earlier => 'output' in earlier && earlier.output ? [earlier.output] : [])
+  if (index > 0) variables.push(PREVIOUS_OUTPUT_VARIABLE)
+  const variableHint = variables.length > 0
+    ? <small>Variables: {Array.from(new Set(variables)).map(name => `{{${name}}}`).join(', ')}</small>
+    : null
+
+  // Shown by the kinds that save a result
+  const outputInput = (
+    <input
+      type="text"
+      value={'output' in step ? step.output || '' : ''}
+      onChange={(e) => onChange({ ...step, output: e.target.value.trim() || undefined } as WorkflowStep)}
+      placeholder="Save result as (variable name, optional)"
+      disabled={disabled}
+    />
+  )
+
+  switch (step.kind) {
+    case 'prompt':
+      return (
+        <>
+          <textarea
+            value={step.prompt}
+            onChange={(e) => onChange({ ...step, prompt: e.target.value })}
+            placeholder={`Step ${index + 1}: Describe what should happen...`}
+            rows={2}
+            disabled={disabled}
+          />
+          {variableHint}
+          {outputInput}
+        </>
+      )
+
+    case 'structuredExtract': {
+      const updateField = (fieldIndex: number, changes: Partial<ExtractField>) => {
+        onChange({ ...step, fields: step.fields.map((field, i) => i === fieldIndex ? { ...field, ...changes } : field) })
+      }
+
+      return (
+        <>
+          <textarea
+            value={step.prompt}
+            onChange={(e) => onChange({ ...step, prompt: e.target.value })}
+            placeholder="What to extract, e.g. Write hero copy for {{product}}"
+            rows={2}
+            disabled={disabled}
+          />
+          {variableHint}
+          {step.fields.map((field, fieldIndex) => (
+            <div key={fieldIndex} className="step-field-row">
+              <input
+                type="text"
+                value={field.name}
+                onChange={(e) => updateField(fieldIndex, { name: e.target.value.trim() })}
+                placeholder="headline"
+                disabled={disabled}
+              />
+              <select
+                value={field.type}
+                onChange={(e) => updateField(fieldIndex, { type: e.target.value as ExtractField['type'] })}
+                disabled={disabled}
+              >
+                <option value="string">Text</option>
+                <option value="number">Number</option>
+                <option value="boolean">Yes/No</option>
+                <option value="list">List</option>
+              </select>
+              <input
+                type="text"
+                value={field.description || ''}
+                onChange={(e) => updateField(fieldIndex, { description: e.target.value || undefined })}
+                placeholder="Description (optional)"
+                disabled={disabled}
+              />
+              {step.fields.length > 1 && (
+                <button
+                  type="button"
+                  className="icon-button text-red-400"
+                  onClick={() => onChange({ ...step, fields: step.fields.filter((_, i) => i !== fieldIndex) })}
+                  disabled={disabled}
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            className="secondary-button small"
+            onClick={() => onChange({ ...step, fields: [...step.fields, { name: '', type: 'string' }] })}
+            disabled={disabled}
+          >
+            <Plus size={12} />
+            Add Field
+          </button>
+          {outputInput}
+        </>
+      )
+    }
+
+    case 'canvasAction':
+      return (
+        <>
+          <select
+            value={step.action}
+            onChange={(e) => onChange({ ...step, action: e.target.value as CanvasActionType, params: {} })}
+            disabled={disabled}
+          >
+            {Object.entries(CANVAS_ACTIONS).map(([action, { label }]) => (
+              <option key={action} value={action}>{label}</option>
+            ))}
+          </select>
+          {CANVAS_ACTIONS[step.action].params.map(param => {
+            const props = {
+              value: step.params[param.name] || '',
+              onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+                onChange({ ...step, params: { ...step.params, [param.name]: e.target.value } }),
+              placeholder: `${param.label}${param.optional ? ' (optional)' : ''}, e.g. ${param.placeholder}`,
+              disabled
+            }
+            return param.multiline
+              ? <textarea key={param.name} rows={2} {...props} />
+              : <input key={param.name} type="text" {...props} />
+          })}
+          {variableHint}
+          {outputInput}
+        </>
+      )
+
+    case 'userApproval':
+      return (
+        <>
+          <textarea
+            value={step.message}
+            onChange={(e) => onChange({ ...step, message: e.target.value })}
+            placeholder="What to check before continuing, e.g. Review the hero copy: {{copy.headline}}"
+            rows={2}
+            disabled={disabled}
+          />
+          {variableHint}
+        </>
+      )
+
+    case 'branch': {
+      const targets = steps
+        .map((target, targetIndex) => ({ id: target.id, label: `Step ${targetIndex + 1}` }))
+        .filter(target => target.id !== step.id)
+      const needsValue = step.operator !== 'isEmpty' && step.operator !== 'isNotEmpty'
+
+      return (
+        <>
+          <div className="step-field-row">
+            <input
+              type="text"
+              value={step.variable}
+              onChange={(e) => onChange({ ...step, variable: e.target.value.trim() })}
+              placeholder="Variable, e.g. copy.tone"
+              disabled={disabled}
+            />
+            <select
+              value={step.operator}
+              onChange={(e) => onChange({ ...step, operator: e.target.value as BranchOperator })}
+              disabled={disabled}
+            >
+              {Object.entries(BRANCH_OPERATORS).map(([operator, label]) => (
+                <option key={operator} value={operator}>{label}</option>
+              ))}
+            </select>
+            {needsValue && (
+              <input
+                type="text"
+                value={step.value || ''}
+                onChange={(e) => onChange({ ...step, value: e.target.value })}
+                placeholder="Value"
+                disabled={disabled}
+              />
+            )}
+          </div>
+          {variableHint}
+          <div className="step-field-row">
+            <label>Then go to</label>
+            <select
+              value={step.then}
+              onChange={(e) => onChange({ ...step, then: e.target.value })}
+              disabled={disabled}
+            >
+              {targets.map(target => <option key={target.id} value={target.id}>{target.label}</option>)}
+              <option value={END_OF_WORKFLOW}>End of workflow</option>
+            </select>
+            <label>Else</label>
+            <select
+              value={step.else || ''}
+              onChange={(e) => onChange({ ...step, else: e.target.value || undefined })}
+              disabled={disabled}
+            >
+              <option value="">Next step</option>
+              {targets.map(target => <option key={target.id} value={target.id}>{target.label}</option>)}
+              <option value={END_OF_WORKFLOW}>End of workflow</option>
+            </select>
+          </div>
+        </>
+      )
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
-import type { Database } from '../types/supabase'
+import type { Database, Json } from '../types/supabase'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -294,6 +294,15 @@ export const db = {
       return { error }
     },
 
+    getActiveForContext: async (userId: string, context: Json) => {
+      const { data, error } = await supabase
+        .rpc('get_active_rules_for_context', {
+          user_uuid: userId,
+          context_data: context
+        })
+      return { data, error }
+    },
+
     toggle: async (ruleId: string, enabled: boolean) => {
       const { data, error } = await supabase
         .from('custom_rules')
@@ -360,6 +369,12 @@ export const db = {
         .select()
         .single()
       return { data, error }
+    },
+
+    incrementUsage: async (workflowId: string) => {
+      const { data, error } = await supabase
+        .rpc('increment_workflow_usage', { workflow_uuid: workflowId })
+      return { data, error }
     }
   },
 
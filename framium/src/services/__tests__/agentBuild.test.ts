@@ -0,0 +1,95 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { framer } from 'framer-plugin'
+import { runAgentBuild } from '../agentBuild'
+import { generateWithTools, ToolCallSummary } from '../aiService'
+import { createCanvasTools } from '../canvasTools'
+import { removeNodes } from '../mutateCanvas'
+import type { CanvasTransaction } from '../canvasTransaction'
+
+// framer-plugin only ships an ESM build and only runs inside Framer
+jest.mock('framer-plugin', () => ({
+  framer: { notify: jest.fn(), getNode: jest.fn() }
+}), { virtual: true })
+
+jest.mock('../aiService', () => ({
+  generateWithTools: jest.fn()
+}))
+
+jest.mock('../canvasTools', () => ({
+  createCanvasTools: jest.fn()
+}))
+
+jest.mock('../mutateCanvas', () => ({
+  removeNodes: jest.fn(),
+  updateNodeAttributes: jest.fn()
+}))
+
+const generate = jest.mocked(generateWithTools)
+const getNode = jest.mocked(framer.getNode)
+const remove = jest.mocked(removeNodes)
+
+// The model builds a frame through the tools, then the turn reports these calls
+function buildThenReport(toolCalls: ToolCallSummary[]) {
+  let transaction: CanvasTransaction | undefined
+  jest.mocked(createCanvasTools).mockImplementation(recorder => {
+    transaction = recorder
+    return {} as ReturnType<typeof createCanvasTools>
+  })
+  generate.mockImplementation(async () => {
+    transaction?.created('frame-1')
+    return { success: true, text: 'Done', toolCalls } as Awaited<ReturnType<typeof generateWithTools>>
+  })
+}
+
+const built = { toolName: 'createFrame', input: {}, output: { success: true, message: 'Created frame', nodeId: 'frame-1' } }
+
+describe('runAgentBuild', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    getNode.mockResolvedValue({ id: 'frame-1' } as never)
+    remove.mockResolvedValue(true)
+  })
+
+  it('rolls back the turn when a canvas action fails', async () => {
+    buildThenReport([
+      built,
+      { toolName: 'buildSection', input: {}, output: { success: false, message: 'Building hero section failed' } }
+    ])
+
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    try {
+      const response = await runAgentBuild([], 'openai/gpt-4o', 'system')
+
+      expect(response.rolledBack).toBe(true)
+      expect(remove).toHaveBeenCalledWith(['frame-1'])
+    } finally {
+      consoleSpy.mockRestore()
+    }
+  })
+
+  it('keeps the turn when the model corrected invalid input and the retry succeeded', async () => {
+    buildThenReport([
+      { toolName: 'createFrame', input: { width: 'wide' }, error: 'Invalid input: width must be a number' },
+      built
+    ])
+
+    const response = await runAgentBuild([], 'openai/gpt-4o', 'system')
+
+    expect(response.rolledBack).toBe(false)
+    expect(remove).not.toHaveBeenCalled()
+  })
+
+  it('rolls back the turn when generation fails', async () => {
+    jest.mocked(createCanvasTools).mockReturnValue({} as ReturnType<typeof createCanvasTools>)
+    generate.mockResolvedValue({ success: false, error: 'Gateway timeout' } as Awaited<ReturnType<typeof generateWithTools>>)
+
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    try {
+      const response = await runAgentBuild([], 'openai/gpt-4o', 'system')
+
+      expect(response).toMatchObject({ success: false, rolledBack: true })
+    } finally {
+      consoleSpy.mockRestore()
+    }
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { addBuildStep, applyBuildPlan, createBuildPlan, getPlannedNodeId } from '../buildPlan'
+import { framiumCanvasBuilder } from '../canvasBuilder'
+import { addSVGToCanvas, createFrameNode, updateNodeAttributes, CanvasChangeRecorder } from '../mutateCanvas'
+import { getLastBuild } from '../canvasTransaction'
+
+// framer-plugin only ships an ESM build and only runs inside Framer
+jest.mock('framer-plugin', () => ({
+  framer: { notify: jest.fn(), getNode: jest.fn() }
+}), { virtual: true })
+
+jest.mock('../canvasBuilder', () => ({
+  framiumCanvasBuilder: { buildWebsiteTemplate: jest.fn() }
+}))
+
+jest.mock('../mutateCanvas', () => ({
+  addSVGToCanvas: jest.fn(),
+  createFrameNode: jest.fn(),
+  updateNodeAttributes: jest.fn(),
+  removeNodes: jest.fn()
+}))
+
+const buildWebsiteTemplate = jest.mocked(framiumCanvasBuilder.buildWebsiteTemplate)
+const addSVG = jest.mocked(addSVGToCanvas)
+const createFrame = jest.mocked(createFrameNode)
+const updateAttributes = jest.mocked(updateNodeAttributes)
+
+function createPlan() {
+  const plan = createBuildPlan('Landing page')
+  const frame = addBuildStep(plan, { kind: 'frame', name: 'Card', width: 320, height: 200 })
+  addBuildStep(plan, { kind: 'attributes', nodeId: getPlannedNodeId(frame), attributes: { backgroundColor: '#0F172A' } })
+  addBuildStep(plan, { kind: 'svg', name: 'Logo', svg: '<svg></svg>' })
+  addBuildStep(plan, {
+    kind: 'section',
+    theme: 'modern',
+    section: { type: 'hero', title: 'Welcome', content: 'Build faster' }
+  })
+  return plan
+}
+
+describe('addBuildStep', () => {
+  it('numbers steps and summarizes them for review', () => {
+    const plan = createPlan()
+
+    expect(plan.steps.map(step => step.id)).toEqual(['step-1', 'step-2', 'step-3', 'step-4'])
+    expect(plan.steps.map(step => step.summary)).toEqual([
+      'Create frame "Card" (320×200)',
+      'Set backgroundColor on planned:step-1',
+      'Insert SVG "Logo"',
+      'Build hero section "Welcome"'
+    ])
+  })
+})
+
+describe('applyBuildPlan', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    createFrame.mockImplementation(async (_width, _height, _name, recorder?: CanvasChangeRecorder) => {
+      recorder?.created('frame-1')
+      return { id: 'frame-1' }
+    })
+    updateAttributes.mockResolvedValue(true)
+    addSVG.mockResolvedValue({ id: 'svg-1' })
+    buildWebsiteTemplate.mockResolvedValue(true)
+  })
+
+  it('applies every step, using real IDs for frames created earlier in the plan', async () => {
+    const result = await applyBuildPlan(createPlan())
+
+    expect(result).toEqual({ applied: ['step-1', 'step-2', 'step-3', 'step-4'], failed: [] })
+    expect(updateAttributes).toHaveBeenCalledWith('frame-1', { backgroundColor: '#0F172A' }, expect.anything())
+  })
+
+  it('records the changes in one undoable build', async () => {
+    await applyBuildPlan(createPlan())
+
+    const build = getLastBuild()
+    expect(build?.name).toBe('Landing page')
+    expect(build?.changeCount).toBe(1)
+
+    // Nested section builds join the plan's transaction
+    expect(buildWebsiteTemplate).toHaveBeenCalledWith(expect.objectContaining({ name: 'Welcome' }), build)
+  })
+
+  it('applies only the chosen steps', async () => {
+    const result = await applyBuildPlan(createPlan(), ['step-3'])
+
+    expect(result.applied).toEqual(['step-3'])
+    expect(createFrame).not.toHaveBeenCalled()
+    expect(buildWebsiteTemplate).not.toHaveBeenCalled()
+  })
+
+  it('reports failed steps and keeps applying the rest', async () => {
+    buildWebsiteTemplate.mockResolvedValue(false)
+
+    const result = await applyBuildPlan(createPlan())
+
+    expect(result.applied).toEqual(['step-1', 'step-2', 'step-3'])
+    expect(result.failed).toEqual([{ stepId: 'step-4', message: 'Building hero section failed' }])
+  })
+
+  it('fails a step that changes a planned frame that was not applied', async () => {
+    const result = await applyBuildPlan(createPlan(), ['step-2'])
+
+    expect(result.applied).toEqual([])
+    expect(result.failed).toEqual([{ stepId: 'step-2', message: 'The frame this step changes was not applied' }])
+    expect(updateAttributes).not.toHaveBeenCalled()
+  })
+})
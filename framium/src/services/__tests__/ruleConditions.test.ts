@@ -0,0 +1,155 @@
+import { describe, it, expect } from '@jest/globals'
+import {
+  RuleContext,
+  describeCondition,
+  evaluateCondition,
+  evaluateRuleConditions,
+  getContextTags,
+  parseRuleCondition
+} from '../ruleConditions'
+
+function createContext(overrides: Partial<RuleContext> = {}): RuleContext {
+  return {
+    mode: 'agent',
+    requestType: 'component',
+    model: 'claude-3-5-sonnet',
+    provider: 'Anthropic',
+    selection: [{ type: 'Frame', name: 'Button/Primary' }],
+    prompt: 'Make the pricing card responsive',
+    fileTypes: ['tsx'],
+    ...overrides
+  }
+}
+
+describe('parseRuleCondition', () => {
+  it('treats empty input as no condition', () => {
+    expect(parseRuleCondition('  ')).toEqual({})
+  })
+
+  it('parses nested conditions', () => {
+    const { condition, error } = parseRuleCondition(
+      '{"type":"all","conditions":[{"type":"mode","value":"agent"},{"type":"not","condition":{"type":"selection","value":"none"}}]}'
+    )
+
+    expect(error).toBeUndefined()
+    expect(condition && describeCondition(condition)).toBe('all(mode is agent, not nothing selected)')
+  })
+
+  it('reports invalid JSON', () => {
+    expect(parseRuleCondition('{"type":').error).toMatch(/^Invalid JSON: /)
+  })
+
+  it('reports where the condition is invalid', () => {
+    expect(parseRuleCondition('{"type":"all","conditions":[]}').error).toMatch(/^conditions: /)
+    expect(parseRuleCondition('{"type":"selection","value":"Button"}').error).toBeDefined()
+  })
+
+  it('rejects unsupported or broken regular expressions', () => {
+    expect(parseRuleCondition('{"type":"regex","pattern":"a","flags":"g"}').error)
+      .toBe('flags: Only the i, m, s and u flags are supported')
+    expect(parseRuleCondition('{"type":"regex","pattern":"("}').error).toBe('condition: Invalid regular expression')
+  })
+})
+
+describe('evaluateCondition', () => {
+  it('matches model globs case-insensitively', () => {
+    expect(evaluateCondition({ type: 'model', pattern: 'Claude-*' }, createContext()).matched).toBe(true)
+    expect(evaluateCondition({ type: 'model', pattern: 'gpt-?' }, createContext()).matched).toBe(false)
+    expect(evaluateCondition({ type: 'model', pattern: '*' }, createContext({ model: undefined })).matched).toBe(false)
+  })
+
+  it('matches glob characters in layer names literally apart from * and ?', () => {
+    const context = createContext({ selection: [{ type: 'Text', name: 'Price (monthly)' }] })
+
+    expect(evaluateCondition({ type: 'nodeName', pattern: 'price (*)' }, context).matched).toBe(true)
+    expect(evaluateCondition({ type: 'nodeName', pattern: 'Price.*' }, context).matched).toBe(false)
+  })
+
+  it('matches the selection by layer type, or an empty selection with none', () => {
+    expect(evaluateCondition({ type: 'selection', value: 'Frame' }, createContext()).matched).toBe(true)
+    expect(evaluateCondition({ type: 'selection', value: 'none' }, createContext()).matched).toBe(false)
+    expect(evaluateCondition({ type: 'selection', value: 'none' }, createContext({ selection: [] })).matched).toBe(true)
+  })
+
+  it('matches prompts by keyword or regular expression', () => {
+    const context = createContext()
+
+    expect(evaluateCondition({ type: 'keywords', value: ['PRICING', 'checkout'] }, context).matched).toBe(true)
+    expect(evaluateCondition({ type: 'keywords', value: ['checkout'] }, context).matched).toBe(false)
+    expect(evaluateCondition({ type: 'regex', pattern: '^make\\b', flags: 'i' }, context).matched).toBe(true)
+    expect(evaluateCondition({ type: 'regex', pattern: '^make\\b' }, context).matched).toBe(false)
+  })
+
+  it('traces nested conditions indented by depth', () => {
+    const result = evaluateCondition({
+      type: 'any',
+      conditions: [
+        { type: 'provider', value: 'openai' },
+        { type: 'not', condition: { type: 'mode', value: 'ask' } }
+      ]
+    }, createContext())
+
+    expect(result.matched).toBe(true)
+    expect(result.trace).toEqual([
+      '✓ any of:',
+      '  ✗ provider is openai',
+      '  ✓ not:',
+      '    ✗ mode is ask'
+    ])
+  })
+})
+
+describe('evaluateRuleConditions', () => {
+  it('always applies a rule without conditions', () => {
+    expect(evaluateRuleConditions(undefined, createContext())).toEqual({
+      matched: true,
+      trace: ['✓ no conditions, always applies']
+    })
+  })
+
+  it('matches legacy contexts against the mode, request type and selection', () => {
+    const context = createContext()
+
+    expect(getContextTags(context)).toEqual(['agent', 'component', 'frame', 'selection'])
+    expect(evaluateRuleConditions({ contexts: [' Selection '] }, context).matched).toBe(true)
+    expect(evaluateRuleConditions({ contexts: ['ask'] }, context).matched).toBe(false)
+  })
+
+  it('matches file types with or without the leading dot', () => {
+    expect(evaluateRuleConditions({ fileTypes: ['.TSX'] }, createContext()).matched).toBe(true)
+    expect(evaluateRuleConditions({ fileTypes: ['css'] }, createContext()).trace).toEqual([
+      '✗ file types include one of .tsx'
+    ])
+  })
+
+  it('judges rules by their other conditions when the file types are unknown', () => {
+    const context = createContext({ fileTypes: undefined })
+
+    expect(evaluateRuleConditions({ fileTypes: ['css'], contexts: ['agent'] }, context)).toEqual({
+      matched: true,
+      trace: ['✓ contexts include one of agent, component, frame, selection', '✓ file types skipped, unknown for this request']
+    })
+    expect(evaluateRuleConditions({ fileTypes: ['css'] }, createContext({ fileTypes: [] })).matched).toBe(false)
+  })
+
+  it('requires every kind of condition that is set', () => {
+    const result = evaluateRuleConditions({
+      contexts: ['agent'],
+      match: { type: 'requestType', value: 'website' }
+    }, createContext())
+
+    expect(result).toEqual({
+      matched: false,
+      trace: ['✓ contexts include one of agent, component, frame, selection', '✗ request is a website']
+    })
+  })
+
+  it('does not apply a rule whose stored condition is invalid', () => {
+    const conditions = { match: { type: 'keywords', value: [] } } as never
+
+    const result = evaluateRuleConditions(conditions, createContext())
+
+    expect(result.matched).toBe(false)
+    expect(result.trace[0]).toMatch(/^✗ condition is invalid: /)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals'
+import { z } from 'zod'
+import { extractJsonText, validateStructuredText } from '../structuredOutput'
+
+const schema = z.object({
+  title: z.string(),
+  sections: z.array(z.object({ type: z.enum(['hero', 'features']) })).min(1)
+})
+
+describe('extractJsonText', () => {
+  it('takes the contents of a markdown fence', () => {
+    expect(extractJsonText('Here you go:\n```json\n{"title": "Acme"}\n```\nEnjoy!')).toBe('{"title": "Acme"}')
+  })
+
+  it('cuts prose around a bare object', () => {
+    expect(extractJsonText('Sure! {"title": "Acme"} Let me know.')).toBe('{"title": "Acme"}')
+  })
+
+  it('returns null without an object or array', () => {
+    expect(extractJsonText('I cannot help with that.')).toBeNull()
+  })
+})
+
+describe('validateStructuredText', () => {
+  it('reports the failing schema paths of fenced output', () => {
+    const text = '```json\n{"title": 42, "sections": [{"type": "footer"}]}\n```'
+
+    expect(validateStructuredText(text, schema).map(issue => issue.path)).toEqual(['title', 'sections.0.type'])
+  })
+
+  it('reports the failing schema paths of output wrapped in prose', () => {
+    const text = 'Here is the site:\n{"title": "Acme", "sections": []}\nHope this helps.'
+
+    expect(validateStructuredText(text, schema)).toEqual([
+      { path: 'sections', message: 'Array must contain at least 1 element(s)' }
+    ])
+  })
+
+  it('reports invalid JSON at the root', () => {
+    const [issue] = validateStructuredText('```json\n{"title": \n```', schema)
+
+    expect(issue.path).toBe('(root)')
+    expect(issue.message).toMatch(/^Invalid JSON/)
+  })
+
+  it('finds nothing wrong with valid output', () => {
+    expect(validateStructuredText('{"title": "Acme", "sections": [{"type": "hero"}]}', schema)).toEqual([])
+  })
+})
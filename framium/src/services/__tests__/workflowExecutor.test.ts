@@ -0,0 +1,240 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import {
+  cancelWorkflow,
+  getWorkflowRuns,
+  isAwaitingApproval,
+  pauseWorkflow,
+  resumeWorkflow,
+  startWorkflow,
+  WorkflowRun
+} from '../workflowExecutor'
+import { generateAIResponse } from '../aiService'
+import { RulesService, WorkflowExecution, WorkflowTemplate } from '../rulesService'
+import { updateNodeAttributes } from '../mutateCanvas'
+import type { WorkflowStep } from '../workflowSteps'
+
+// framer-plugin only ships an ESM build and only runs inside Framer
+jest.mock('framer-plugin', () => ({
+  framer: { notify: jest.fn() }
+}), { virtual: true })
+
+jest.mock('../aiService', () => ({
+  generateAIResponse: jest.fn(),
+  generateStructuredData: jest.fn()
+}))
+
+jest.mock('../rulesService', () => ({
+  RulesService: {
+    createWorkflowExecution: jest.fn(),
+    updateWorkflowExecution: jest.fn(),
+    incrementWorkflowUsage: jest.fn()
+  }
+}))
+
+jest.mock('../mutateCanvas', () => ({
+  updateNodeAttributes: jest.fn()
+}))
+
+type AIResponse = Awaited<ReturnType<typeof generateAIResponse>>
+
+const generate = jest.mocked(generateAIResponse)
+const createExecution = jest.mocked(RulesService.createWorkflowExecution)
+const saveExecution = jest.mocked(RulesService.updateWorkflowExecution)
+const incrementUsage = jest.mocked(RulesService.incrementWorkflowUsage)
+const updateNode = jest.mocked(updateNodeAttributes)
+
+let executionCount = 0
+
+function createWorkflow(steps: WorkflowStep[], overrides: Partial<WorkflowTemplate> = {}): WorkflowTemplate {
+  return {
+    id: 'workflow-1',
+    name: 'Landing page',
+    description: '',
+    steps,
+    category: 'layout',
+    enabled: true,
+    is_public: false,
+    usage_count: 0,
+    ...overrides
+  }
+}
+
+function reply(text: string): AIResponse {
+  return { success: true, text, usage: { inputTokens: 5, outputTokens: 5, totalTokens: 10 } } as AIResponse
+}
+
+// A promise the test settles by hand, to hold a step or a save in flight
+function defer<T>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>(settle => {
+    resolve = settle
+  })
+  return { promise, resolve }
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) await new Promise(resolve => setTimeout(resolve, 0))
+}
+
+function getRun(run: WorkflowRun): WorkflowRun {
+  return getWorkflowRuns().find(candidate => candidate.execution.id === run.execution.id)!
+}
+
+const promptStep: WorkflowStep = { kind: 'prompt', id: 'a', prompt: 'Write a headline', output: 'headline' }
+
+describe('workflow executor', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    createExecution.mockImplementation(async workflowId => ({
+      id: `execution-${++executionCount}`,
+      workflow_id: workflowId,
+      status: 'running',
+      current_step: 0,
+      step_results: [],
+      total_tokens_used: 0,
+      started_at: new Date(executionCount).toISOString()
+    }) as WorkflowExecution)
+    saveExecution.mockResolvedValue(null)
+    incrementUsage.mockResolvedValue(true)
+    generate.mockResolvedValue(reply('Ship faster'))
+    updateNode.mockResolvedValue(true)
+  })
+
+  it('runs every step and counts a use of the workflow and the one it was forked from', async () => {
+    const workflow = createWorkflow([promptStep, { kind: 'prompt', id: 'b', prompt: 'Shorten {{headline}}' }], {
+      forked_from: { workflowId: 'listing-1', name: 'Gallery landing page' }
+    })
+
+    const run = await startWorkflow(workflow, 'openai/gpt-4o')
+    await flush()
+
+    const { execution } = getRun(run)
+    expect(execution.status).toBe('completed')
+    expect(execution.step_results.map(result => result.output)).toEqual(['Ship faster', 'Ship faster'])
+    expect(execution.total_tokens_used).toBe(20)
+    expect(generate.mock.calls[1][0][0].content).toContain('Shorten Ship faster')
+    expect(incrementUsage.mock.calls).toEqual([['workflow-1'], ['listing-1']])
+  })
+
+  it('discards a step that finishes after the run was paused and runs it again on resume', async () => {
+    const step = defer<AIResponse>()
+    generate.mockReturnValueOnce(step.promise)
+
+    const run = await startWorkflow(createWorkflow([promptStep]), 'openai/gpt-4o')
+    await flush()
+    expect(getRun(run).stepRunning).toBe(true)
+
+    await pauseWorkflow(run.execution.id)
+    const abortSignal = generate.mock.calls[0][2]?.abortSignal
+    expect(abortSignal?.aborted).toBe(true)
+
+    step.resolve(reply('Too late'))
+    await flush()
+    expect(getRun(run).execution).toMatchObject({ status: 'paused', current_step: 0, step_results: [] })
+
+    await resumeWorkflow(run.execution.id)
+    await flush()
+
+    expect(generate).toHaveBeenCalledTimes(2)
+    expect(getRun(run).execution.status).toBe('completed')
+    expect(getRun(run).execution.step_results.map(result => result.output)).toEqual(['Ship faster'])
+  })
+
+  it('stops after a cancel that arrives while progress is saving', async () => {
+    const save = defer<null>()
+    saveExecution.mockReturnValueOnce(save.promise)
+
+    const run = await startWorkflow(createWorkflow([promptStep, { ...promptStep, id: 'b' }]), 'openai/gpt-4o')
+    await flush()
+
+    await cancelWorkflow(run.execution.id)
+    save.resolve(null)
+    await flush()
+
+    expect(generate).toHaveBeenCalledTimes(1)
+    expect(getRun(run).execution.status).toBe('cancelled')
+    expect(incrementUsage).not.toHaveBeenCalled()
+  })
+
+  it('does not start a second loop when paused and resumed while progress is saving', async () => {
+    const save = defer<null>()
+    saveExecution.mockReturnValueOnce(save.promise)
+
+    const run = await startWorkflow(createWorkflow([promptStep, { ...promptStep, id: 'b' }]), 'openai/gpt-4o')
+    await flush()
+
+    await pauseWorkflow(run.execution.id)
+    await resumeWorkflow(run.execution.id)
+    save.resolve(null)
+    await flush()
+
+    expect(generate).toHaveBeenCalledTimes(2)
+    expect(getRun(run).execution.step_results).toHaveLength(2)
+    expect(incrementUsage).toHaveBeenCalledTimes(1)
+  })
+
+  it('waits at an approval step until the run is resumed', async () => {
+    const workflow = createWorkflow([{ kind: 'userApproval', id: 'a', message: 'Build it?' }, promptStep])
+
+    const run = await startWorkflow(workflow, 'openai/gpt-4o')
+    await flush()
+
+    expect(isAwaitingApproval(getRun(run))).toBe(true)
+    expect(generate).not.toHaveBeenCalled()
+
+    await resumeWorkflow(run.execution.id)
+    await flush()
+
+    expect(getRun(run).execution.status).toBe('completed')
+    expect(getRun(run).execution.step_results.map(result => result.output)).toEqual(['Approved', 'Ship faster'])
+  })
+
+  it('fails a run whose branches loop too many times', async () => {
+    const workflow = createWorkflow([
+      promptStep,
+      { kind: 'branch', id: 'b', variable: 'headline', operator: 'isNotEmpty', then: 'a' }
+    ])
+
+    const run = await startWorkflow(workflow, 'openai/gpt-4o')
+    await flush()
+
+    const { execution } = getRun(run)
+    expect(execution.status).toBe('failed')
+    expect(execution.step_results).toHaveLength(100)
+    expect(execution.error_message).toBe('Step 1 failed: Stopped after 100 steps, check the branches for a loop')
+    expect(incrementUsage).not.toHaveBeenCalled()
+  })
+
+  it('updates a layer with attributes Framer accepts', async () => {
+    const workflow = createWorkflow([{
+      kind: 'canvasAction',
+      id: 'a',
+      action: 'updateNode',
+      params: { nodeId: ' hero ', attributes: '{"opacity": 0.5, "width": "320px"}' }
+    }])
+
+    const run = await startWorkflow(workflow, 'openai/gpt-4o')
+    await flush()
+
+    expect(getRun(run).execution.status).toBe('completed')
+    expect(updateNode).toHaveBeenCalledWith('hero', { opacity: 0.5, width: '320px' })
+  })
+
+  it('fails an update step with the attribute Framer would reject', async () => {
+    const workflow = createWorkflow([{
+      kind: 'canvasAction',
+      id: 'a',
+      action: 'updateNode',
+      params: { nodeId: 'hero', attributes: '{"opacity": 2}' }
+    }])
+
+    const run = await startWorkflow(workflow, 'openai/gpt-4o')
+    await flush()
+
+    expect(getRun(run).execution).toMatchObject({
+      status: 'failed',
+      error_message: 'Step 1 failed: opacity: Number must be less than or equal to 1'
+    })
+    expect(updateNode).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,141 @@
+import { describe, it, expect } from '@jest/globals'
+import { filterMarketplaceWorkflows, sanitizeWorkflowForPublishing } from '../workflowMarketplace'
+import type { WorkflowTemplate } from '../rulesService'
+
+function createWorkflow(overrides: Partial<WorkflowTemplate> = {}): WorkflowTemplate {
+  return {
+    id: 'workflow-1',
+    name: 'Landing page',
+    description: 'Builds a hero section',
+    steps: [{ kind: 'prompt', id: 'a', prompt: 'Write a headline', output: 'headline' }],
+    category: 'layout',
+    enabled: true,
+    is_public: true,
+    usage_count: 0,
+    ...overrides
+  }
+}
+
+describe('sanitizeWorkflowForPublishing', () => {
+  it('removes secrets and email addresses from step text', () => {
+    const workflow = createWorkflow({
+      description: 'Questions to jane.doe@example.com',
+      steps: [
+        { kind: 'prompt', id: 'a', prompt: 'Call the API with sk-abcdefghijklmnopqrstuvwx and Bearer abcdefghijklmnopqrstu' },
+        { kind: 'userApproval', id: 'b', message: 'Check https://cdn.example.com/image.png?token=secret123&size=2' }
+      ]
+    })
+
+    const sanitized = sanitizeWorkflowForPublishing(workflow)
+
+    expect(sanitized.description).toBe('Questions to [removed]')
+    expect(sanitized.steps).toEqual([
+      { kind: 'prompt', id: 'a', prompt: 'Call the API with [removed] and [removed]' },
+      { kind: 'userApproval', id: 'b', message: 'Check https://cdn.example.com/image.png?token=[removed]&size=2' }
+    ])
+    expect(sanitized.removed).toEqual([
+      'Step 1: API key',
+      'Step 1: access token',
+      'Step 2: URL credentials',
+      'Description: email address'
+    ])
+  })
+
+  it('cleans extract field descriptions and branch values', () => {
+    const workflow = createWorkflow({
+      steps: [
+        {
+          kind: 'structuredExtract',
+          id: 'a',
+          prompt: 'Read the brief',
+          fields: [{ name: 'owner', type: 'string', description: 'Default to ops@example.com' }],
+          output: 'brief'
+        },
+        { kind: 'branch', id: 'b', variable: 'brief.owner', operator: 'equals', value: 'ops@example.com', then: 'end' }
+      ]
+    })
+
+    const sanitized = sanitizeWorkflowForPublishing(workflow)
+
+    expect(sanitized.steps[0]).toMatchObject({ fields: [{ description: 'Default to [removed]' }] })
+    expect(sanitized.steps[1]).toMatchObject({ value: '[removed]' })
+    expect(sanitized.removed).toEqual(['Step 1: email address', 'Step 2: email address'])
+  })
+
+  it('clears layer IDs and component URLs unless they come from variables', () => {
+    const workflow = createWorkflow({
+      steps: [
+        { kind: 'canvasAction', id: 'a', action: 'createFrame', params: { name: 'Hero' }, output: 'frame' },
+        { kind: 'canvasAction', id: 'b', action: 'duplicateNode', params: { nodeId: '{{frame}}' } },
+        { kind: 'canvasAction', id: 'c', action: 'removeNodes', params: { nodeIds: 'abc123, def456' } },
+        { kind: 'canvasAction', id: 'd', action: 'addComponent', params: { url: 'https://framer.com/m/Button-x1y2' } }
+      ]
+    })
+
+    const sanitized = sanitizeWorkflowForPublishing(workflow)
+
+    expect(sanitized.steps.map(step => step.kind === 'canvasAction' && step.params)).toEqual([
+      { name: 'Hero' },
+      { nodeId: '{{frame}}' },
+      { nodeIds: '' },
+      { url: '' }
+    ])
+    expect(sanitized.removed).toEqual(['Step 3: layer ID', 'Step 4: component URL'])
+  })
+
+  it('leaves the original workflow untouched', () => {
+    const workflow = createWorkflow({
+      steps: [{ kind: 'canvasAction', id: 'a', action: 'duplicateNode', params: { nodeId: 'abc123' } }]
+    })
+
+    sanitizeWorkflowForPublishing(workflow)
+
+    expect(workflow.steps[0]).toEqual({ kind: 'canvasAction', id: 'a', action: 'duplicateNode', params: { nodeId: 'abc123' } })
+  })
+
+  it('reports nothing for a workflow without private data', () => {
+    const sanitized = sanitizeWorkflowForPublishing(createWorkflow())
+
+    expect(sanitized).toEqual({
+      name: 'Landing page',
+      description: 'Builds a hero section',
+      steps: [{ kind: 'prompt', id: 'a', prompt: 'Write a headline', output: 'headline' }],
+      removed: []
+    })
+  })
+})
+
+describe('filterMarketplaceWorkflows', () => {
+  const workflows = [
+    createWorkflow({ id: '1', name: 'Pricing table', category: 'component', usage_count: 5, created_at: '2026-01-02' }),
+    createWorkflow({
+      id: '2',
+      name: 'Landing page',
+      usage_count: 12,
+      created_at: '2026-01-01',
+      steps: [{ kind: 'userApproval', id: 'a', message: 'Review the testimonials' }]
+    }),
+    createWorkflow({ id: '3', name: 'Blog', description: 'Pricing FAQ section', usage_count: 5, created_at: '2026-01-03' })
+  ]
+
+  const ids = (filtered: WorkflowTemplate[]) => filtered.map(workflow => workflow.id)
+
+  it('sorts by usage, breaking ties by name', () => {
+    expect(ids(filterMarketplaceWorkflows(workflows, { search: '', category: 'all', sort: 'usage' }))).toEqual(['2', '3', '1'])
+  })
+
+  it('sorts by newest or name', () => {
+    expect(ids(filterMarketplaceWorkflows(workflows, { search: '', category: 'all', sort: 'newest' }))).toEqual(['3', '1', '2'])
+    expect(ids(filterMarketplaceWorkflows(workflows, { search: '', category: 'all', sort: 'name' }))).toEqual(['3', '2', '1'])
+  })
+
+  it('filters by category', () => {
+    expect(ids(filterMarketplaceWorkflows(workflows, { search: '', category: 'component', sort: 'name' }))).toEqual(['1'])
+  })
+
+  it('searches names, descriptions and step text for every term', () => {
+    expect(ids(filterMarketplaceWorkflows(workflows, { search: 'PRICING', category: 'all', sort: 'name' }))).toEqual(['3', '1'])
+    expect(ids(filterMarketplaceWorkflows(workflows, { search: 'pricing faq', category: 'all', sort: 'name' }))).toEqual(['3'])
+    expect(ids(filterMarketplaceWorkflows(workflows, { search: 'testimonials', category: 'all', sort: 'name' }))).toEqual(['2'])
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import {
+  BranchStep,
+  END_OF_WORKFLOW,
+  WorkflowStep,
+  buildExtractSchema,
+  evaluateBranch,
+  getTemplateReferences,
+  migrateWorkflowSteps,
+  renderTemplate,
+  validateWorkflowSteps
+} from '../workflowSteps'
+
+describe('migrateWorkflowSteps', () => {
+  it('turns prompts from the original editor into prompt steps', () => {
+    expect(migrateWorkflowSteps(['Write a headline', '  ', 'Write a tagline'])).toEqual([
+      { kind: 'prompt', id: 'step-1', prompt: 'Write a headline' },
+      { kind: 'prompt', id: 'step-3', prompt: 'Write a tagline' }
+    ])
+  })
+
+  it('reads steps stored as a JSON string', () => {
+    const steps = JSON.stringify([{ kind: 'userApproval', id: 'a', message: 'Looks good?' }])
+
+    expect(migrateWorkflowSteps(steps)).toEqual([{ kind: 'userApproval', id: 'a', message: 'Looks good?' }])
+  })
+
+  it('returns no steps for anything that is not a list', () => {
+    expect(migrateWorkflowSteps('not json')).toEqual([])
+    expect(migrateWorkflowSteps(null)).toEqual([])
+    expect(migrateWorkflowSteps({ kind: 'prompt' })).toEqual([])
+  })
+
+  it('drops steps that cannot be read and keeps the rest', () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    try {
+      const steps = migrateWorkflowSteps([
+        { kind: 'prompt', id: 'a', prompt: 'Write a headline', output: 'headline' },
+        { kind: 'teleport', id: 'b' },
+        { kind: 'canvasAction', id: 'c', action: 'explode', params: {} }
+      ])
+
+      expect(steps.map(step => step.id)).toEqual(['a'])
+      expect(consoleSpy).toHaveBeenCalledTimes(2)
+    } finally {
+      consoleSpy.mockRestore()
+    }
+  })
+})
+
+describe('validateWorkflowSteps', () => {
+  it('accepts steps that only use variables set earlier', () => {
+    const steps: WorkflowStep[] = [
+      { kind: 'prompt', id: 'a', prompt: 'Write a headline', output: 'headline' },
+      { kind: 'structuredExtract', id: 'b', prompt: 'Colors for {{headline}}', fields: [{ name: 'background', type: 'string' }], output: 'colors' },
+      { kind: 'canvasAction', id: 'c', action: 'createFrame', params: { name: '{{previous}}' }, output: 'frame' },
+      { kind: 'branch', id: 'd', variable: 'colors.background', operator: 'isEmpty', then: 'a', else: END_OF_WORKFLOW }
+    ]
+
+    expect(validateWorkflowSteps(steps)).toEqual([])
+  })
+
+  it('reports variables that are not set by an earlier step', () => {
+    const steps: WorkflowStep[] = [
+      { kind: 'prompt', id: 'a', prompt: 'Improve {{previous}} and {{headline}}' },
+      { kind: 'prompt', id: 'b', prompt: 'Write a headline', output: 'headline' }
+    ]
+
+    expect(validateWorkflowSteps(steps)).toEqual([
+      { stepId: 'a', index: 0, message: "{{previous}} isn't set by an earlier step" },
+      { stepId: 'a', index: 0, message: "{{headline}} isn't set by an earlier step" }
+    ])
+  })
+
+  it('reports incomplete steps and missing canvas action params', () => {
+    const steps: WorkflowStep[] = [
+      { kind: 'prompt', id: 'a', prompt: '  ' },
+      { kind: 'canvasAction', id: 'b', action: 'addSVG', params: { name: 'Logo' } }
+    ]
+
+    expect(validateWorkflowSteps(steps).map(issue => issue.message)).toEqual([
+      'Prompt is required',
+      'SVG markup is required'
+    ])
+  })
+
+  it('reports branches that jump to themselves or to removed steps', () => {
+    const steps: WorkflowStep[] = [
+      { kind: 'prompt', id: 'a', prompt: 'Write a headline', output: 'headline' },
+      { kind: 'branch', id: 'b', variable: 'headline', operator: 'isEmpty', then: 'b', else: 'gone' }
+    ]
+
+    expect(validateWorkflowSteps(steps)).toEqual([
+      { stepId: 'b', index: 1, message: "A branch can't jump to itself" },
+      { stepId: 'b', index: 1, message: 'Branch target no longer exists' }
+    ])
+  })
+})
+
+describe('renderTemplate', () => {
+  it('fills in variables and nested fields', () => {
+    const variables = { headline: 'Ship faster', colors: { background: '#fff' } }
+
+    expect(renderTemplate('{{ headline }} on {{colors.background}}', variables)).toBe('Ship faster on #fff')
+  })
+
+  it('joins plain lists and inserts objects as JSON', () => {
+    const variables = { tags: ['fast', 'simple'], colors: { background: '#fff' } }
+
+    expect(renderTemplate('{{tags}}', variables)).toBe('fast, simple')
+    expect(renderTemplate('{{colors}}', variables)).toBe('{\n  "background": "#fff"\n}')
+  })
+
+  it('leaves unknown variables empty', () => {
+    expect(renderTemplate('[{{missing}}][{{headline.length}}]', { headline: 'Hi' })).toBe('[][]')
+  })
+})
+
+describe('evaluateBranch', () => {
+  const branch = (operator: BranchStep['operator'], value?: string): BranchStep => ({
+    kind: 'branch',
+    id: 'b',
+    variable: 'review.verdict',
+    operator,
+    value,
+    then: END_OF_WORKFLOW
+  })
+  const variables = { review: { verdict: ' Approved with changes ' } }
+
+  it('compares text case-insensitively', () => {
+    expect(evaluateBranch(branch('equals', 'approved with changes'), variables)).toBe(true)
+    expect(evaluateBranch(branch('equals', 'approved'), variables)).toBe(false)
+    expect(evaluateBranch(branch('contains', 'WITH'), variables)).toBe(true)
+  })
+
+  it('matches regular expressions and treats invalid ones as no match', () => {
+    expect(evaluateBranch(branch('matches', '^\\s*approved'), variables)).toBe(true)
+    expect(evaluateBranch(branch('matches', '('), variables)).toBe(false)
+  })
+
+  it('treats missing and blank values as empty', () => {
+    expect(evaluateBranch(branch('isEmpty'), {})).toBe(true)
+    expect(evaluateBranch(branch('isEmpty'), { review: { verdict: '  ' } })).toBe(true)
+    expect(evaluateBranch(branch('isNotEmpty'), variables)).toBe(true)
+  })
+})
+
+describe('buildExtractSchema', () => {
+  it('requires every field with its type', () => {
+    const schema = buildExtractSchema([
+      { name: 'title', type: 'string', description: 'Page title' },
+      { name: 'columns', type: 'number' },
+      { name: 'dark', type: 'boolean' },
+      { name: 'sections', type: 'list' }
+    ])
+
+    expect(schema.parse({ title: 'Pricing', columns: 3, dark: false, sections: ['Hero', 'FAQ'] }))
+      .toEqual({ title: 'Pricing', columns: 3, dark: false, sections: ['Hero', 'FAQ'] })
+    expect(schema.safeParse({ title: 'Pricing', columns: '3', dark: false, sections: [] }).success).toBe(false)
+    expect(schema.safeParse({ title: 'Pricing', columns: 3, dark: false }).success).toBe(false)
+    expect(schema.shape.title.description).toBe('Page title')
+  })
+})
+
+describe('getTemplateReferences', () => {
+  it('lists the variable each reference reads from', () => {
+    expect(getTemplateReferences('{{headline}} {{ colors.background }} {{ not valid }} {{1st}}')).toEqual(['headline', 'colors'])
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Framium - Agent Build
+ * Runs one Agent mode turn as a single canvas transaction
+ * A turn whose canvas actions fail is rolled back so no half-built design is left behind
+ */
+
+import type { CoreMessage } from 'ai'
+import { generateWithTools, ToolCallSummary } from './aiService'
+import { createCanvasTools, CanvasToolResult } from './canvasTools'
+import { runCanvasTransaction } from './canvasTransaction'
+
+type AgentResponse = Awaited<ReturnType<typeof generateWithTools>>
+
+// Leaves the agent build's transaction so runCanvasTransaction rolls it back
+class AgentBuildFailed extends Error {
+  constructor(readonly response: AgentResponse) {
+    super('Agent build failed')
+  }
+}
+
+/**
+ * Whether a canvas action ran and failed. Calls with invalid input never run;
+ * the model sees their errors and retries, so they don't count.
+ */
+export function hasFailedCanvasAction(toolCalls: ToolCallSummary[] = []): boolean {
+  return toolCalls.some(call => (call.output as CanvasToolResult | undefined)?.success === false)
+}
+
+/**
+ * Generate and apply one Agent mode turn. A failed generation or canvas action
+ * rolls back everything the turn built.
+ */
+export async function runAgentBuild(messages: CoreMessage[], modelId: string, systemPrompt: string) {
+  try {
+    return await runCanvasTransaction('agent build', async transaction => {
+      const response = await generateWithTools(messages, modelId, createCanvasTools(transaction), {
+        temperature: 0.7,
+        systemPrompt
+      })
+
+      if (!response.success || hasFailedCanvasAction(response.toolCalls)) {
+        throw new AgentBuildFailed(response)
+      }
+      return { ...response, rolledBack: false }
+    })
+  } catch (error) {
+    if (error instanceof AgentBuildFailed) {
+      return { ...error.response, rolledBack: true }
+    }
+    throw error
+  }
+}
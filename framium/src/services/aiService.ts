@@ -1,6 +1,10 @@
-import { generateText, streamText, CoreMessage } from 'ai';
+import { generateText, streamText, generateObject, streamObject, stepCountIs, NoObjectGeneratedError, CoreMessage, LanguageModelUsage, ToolSet } from 'ai';
 import { createGateway } from '@ai-sdk/gateway';
 import { z } from 'zod';
+import { findModel, getModelsForPlan, ModelDefinition, PlanTier } from '../../../lib/modelCatalog';
+import { extractJsonText, StructuredDataIssue, validateStructuredText } from './structuredOutput';
+
+export type { StructuredDataIssue } from './structuredOutput';
 
 // AI Gateway Configuration
 const gateway = createGateway({
@@ -8,39 +12,25 @@ const gateway = createGateway({
   baseURL: 'https://ai-gateway.vercel.sh/v1/ai',
 });
 
-// Model definitions based on user's plan - Following industry standards like Cursor/GitHub Copilot
-export const ModelTiers = {
-  Basic: [
-    'openai/gpt-3.5-turbo',
-    'anthropic/claude-3-haiku',
-    'google/gemini-1.5-flash',
-  ],
-  Max: [
-    'openai/gpt-4o-mini',
-    'anthropic/claude-3-5-haiku',
-    'google/gemini-1.5-flash',
-    'openai/gpt-4-turbo',
-    'cohere/command-r',
-  ],
-  Beast: [
-    'openai/gpt-4o',
-    'anthropic/claude-3-5-sonnet',
-    'google/gemini-1.5-pro',
-    'xai/grok-beta',
-    'cohere/command-r-plus',
-    'meta-llama/llama-3.1-70b',
-  ],
-  Ultimate: [
-    'openai/gpt-4o',
-    'anthropic/claude-3-5-sonnet',
-    'anthropic/claude-3-opus',
-    'google/gemini-1.5-pro',
-    'xai/grok-beta',
-    'meta-llama/llama-3.1-405b',
-    'cohere/command-r-plus',
-    'mistral/mistral-large',
-    'perplexity/llama-3.1-sonar-large',
-  ]
+export type PlanName = 'Basic' | 'Max' | 'Beast' | 'Ultimate';
+
+const PLAN_LABELS: Record<PlanTier, PlanName> = {
+  BASIC: 'Basic',
+  MAX: 'Max',
+  BEAST: 'Beast',
+  ULTIMATE: 'Ultimate',
+};
+
+export function getPlanLabel(plan: PlanTier): PlanName {
+  return PLAN_LABELS[plan];
+}
+
+// Model ids available on each plan, derived from the shared model catalog
+export const ModelTiers: Record<PlanName, string[]> = {
+  Basic: getModelsForPlan('BASIC').map(model => model.id),
+  Max: getModelsForPlan('MAX').map(model => model.id),
+  Beast: getModelsForPlan('BEAST').map(model => model.id),
+  Ultimate: getModelsForPlan('ULTIMATE').map(model => model.id),
 };
 
 export interface ChatMessage {
@@ -54,7 +44,7 @@ export interface ModelInfo {
   id: string;
   name: string;
   provider: string;
-  tier: keyof typeof ModelTiers;
+  tier: PlanName;
   description?: string;
   pricing?: {
     input: number;
@@ -63,68 +53,19 @@ export interface ModelInfo {
 }
 
 // Get available models based on user's plan
-export function getAvailableModels(userPlan: keyof typeof ModelTiers): ModelInfo[] {
-  const availableModelIds = ModelTiers[userPlan];
-  
-  return availableModelIds.map(modelId => {
-    const [provider] = modelId.split('/');
-    
-    return {
-      id: modelId,
-      name: getModelDisplayName(modelId),
-      provider: provider.charAt(0).toUpperCase() + provider.slice(1),
-      tier: userPlan,
-      description: getModelDescription(modelId),
-    };
-  });
-}
-
-function getModelDisplayName(modelId: string): string {
-  const displayNames: Record<string, string> = {
-    'openai/gpt-3.5-turbo': 'GPT-3.5 Turbo',
-    'openai/gpt-4o-mini': 'GPT-4o Mini',
-    'openai/gpt-4o': 'GPT-4o',
-    'openai/gpt-4-turbo': 'GPT-4 Turbo',
-    'anthropic/claude-3-haiku': 'Claude 3 Haiku',
-    'anthropic/claude-3-5-haiku': 'Claude 3.5 Haiku',
-    'anthropic/claude-3-5-sonnet': 'Claude 3.5 Sonnet',
-    'anthropic/claude-3-opus': 'Claude 3 Opus',
-    'google/gemini-1.5-flash': 'Gemini 1.5 Flash',
-    'google/gemini-1.5-pro': 'Gemini 1.5 Pro',
-    'xai/grok-beta': 'Grok Beta',
-    'meta-llama/llama-3.1-70b': 'Llama 3.1 70B',
-    'meta-llama/llama-3.1-405b': 'Llama 3.1 405B',
-    'cohere/command-r': 'Command R',
-    'cohere/command-r-plus': 'Command R+',
-    'mistral/mistral-large': 'Mistral Large',
-    'perplexity/llama-3.1-sonar-large': 'Sonar Large',
-  };
-  
-  return displayNames[modelId] || modelId;
+export function getAvailableModels(userPlan: PlanName): ModelInfo[] {
+  return getModelsForPlan(userPlan).map(toModelInfo);
 }
 
-function getModelDescription(modelId: string): string {
-  const descriptions: Record<string, string> = {
-    'openai/gpt-3.5-turbo': 'Fast and cost-effective for basic tasks',
-    'openai/gpt-4o-mini': 'Balanced performance and cost-efficiency',
-    'openai/gpt-4o': 'Most capable OpenAI model for complex reasoning',
-    'openai/gpt-4-turbo': 'High-performance model with enhanced speed',
-    'anthropic/claude-3-haiku': 'Quick responses for simple coding tasks',
-    'anthropic/claude-3-5-haiku': 'Enhanced speed with improved accuracy',
-    'anthropic/claude-3-5-sonnet': 'Best balance of intelligence and speed',
-    'anthropic/claude-3-opus': 'Most powerful Claude model for complex tasks',
-    'google/gemini-1.5-flash': 'Lightning-fast with multimodal capabilities',
-    'google/gemini-1.5-pro': 'Advanced reasoning with extended context',
-    'xai/grok-beta': 'Real-time knowledge with conversational AI',
-    'meta-llama/llama-3.1-70b': 'Open-source powerhouse for development',
-    'meta-llama/llama-3.1-405b': 'Largest open model for enterprise tasks',
-    'cohere/command-r': 'Specialized for retrieval and summarization',
-    'cohere/command-r-plus': 'Advanced RAG and enterprise applications',
-    'mistral/mistral-large': 'European AI excellence for coding',
-    'perplexity/llama-3.1-sonar-large': 'Search-augmented generation specialist',
+export function toModelInfo(definition: ModelDefinition): ModelInfo {
+  return {
+    id: definition.id,
+    name: definition.displayName,
+    provider: definition.provider.charAt(0).toUpperCase() + definition.provider.slice(1),
+    tier: getPlanLabel(definition.minPlan),
+    description: definition.description,
+    pricing: definition.pricing,
   };
-  
-  return descriptions[modelId] || 'AI model for various tasks';
 }
 
 // Generate text response
@@ -135,10 +76,11 @@ export async function generateAIResponse(
     temperature?: number;
     maxTokens?: number;
     systemPrompt?: string;
+    abortSignal?: AbortSignal;
   } = {}
 ) {
   try {
-    const { temperature = 0.7, systemPrompt } = options;
+    const { temperature = 0.7, systemPrompt, abortSignal } = options;
     
     const messagesWithSystem: CoreMessage[] = systemPrompt 
       ? [{ role: 'system', content: systemPrompt }, ...messages]
@@ -148,6 +90,7 @@ export async function generateAIResponse(
       model: gateway(modelId),
       messages: messagesWithSystem,
       temperature,
+      abortSignal,
     });
 
     return {
@@ -165,6 +108,72 @@ export async function generateAIResponse(
   }
 }
 
+export interface ToolCallSummary {
+  toolName: string;
+  input: unknown;
+  output?: unknown;
+  error?: string;
+}
+
+// Generate a response that may call tools. Each call's result is fed back to
+// the model, which keeps going until it answers in text or runs out of steps.
+export async function generateWithTools(
+  messages: CoreMessage[],
+  modelId: string,
+  tools: ToolSet,
+  options: {
+    temperature?: number;
+    systemPrompt?: string;
+    maxSteps?: number;
+  } = {}
+) {
+  try {
+    const { temperature = 0.7, systemPrompt, maxSteps = 8 } = options;
+
+    const messagesWithSystem: CoreMessage[] = systemPrompt 
+      ? [{ role: 'system', content: systemPrompt }, ...messages]
+      : messages;
+
+    const result = await generateText({
+      model: gateway(modelId),
+      messages: messagesWithSystem,
+      tools,
+      stopWhen: stepCountIs(maxSteps),
+      temperature,
+    });
+
+    const toolCalls: ToolCallSummary[] = result.steps.flatMap(step =>
+      step.content.flatMap((part): ToolCallSummary[] => {
+        if (part.type === 'tool-result') {
+          return [{ toolName: part.toolName, input: part.input, output: part.output }];
+        }
+        if (part.type === 'tool-error') {
+          return [{
+            toolName: part.toolName,
+            input: part.input,
+            error: part.error instanceof Error ? part.error.message : String(part.error),
+          }];
+        }
+        return [];
+      })
+    );
+
+    return {
+      success: true,
+      text: result.text,
+      toolCalls,
+      usage: result.totalUsage,
+      finishReason: result.finishReason,
+    };
+  } catch (error) {
+    console.error('AI Tool Generation Error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
 // Stream text response for real-time chat
 export async function streamAIResponse(
   messages: CoreMessage[],
@@ -202,39 +211,103 @@ export async function streamAIResponse(
   }
 }
 
-// Generate structured data
+interface StructuredDataOptions {
+  temperature?: number;
+  systemPrompt?: string;
+  schemaName?: string;
+  schemaDescription?: string;
+  abortSignal?: AbortSignal;
+}
+
+// OpenAI and Gemini enforce JSON schemas natively; Claude is most reliable
+// when the object is extracted from a forced tool call
+function getObjectMode(modelId: string): 'auto' | 'json' | 'tool' {
+  switch (findModel(modelId)?.provider) {
+    case 'openai':
+    case 'google':
+      return 'json';
+    case 'anthropic':
+      return 'tool';
+    default:
+      return 'auto';
+  }
+}
+
+// Strips markdown fences and surrounding prose before the SDK retries parsing
+async function repairJsonText({ text }: { text: string }): Promise<string | null> {
+  return extractJsonText(text);
+}
+
+// Generate structured data with the provider's native object generation. If
+// the output fails validation, the failing schema paths are fed back to the
+// model and it is asked to correct them, up to `maxRetries` more times.
 export async function generateStructuredData<T>(
   prompt: string,
   schema: z.ZodSchema<T>,
   modelId: string,
-  options: {
-    temperature?: number;
-    systemPrompt?: string;
-  } = {}
+  options: StructuredDataOptions & { maxRetries?: number } = {}
 ) {
   try {
-    // For now, return a simple text response since generateObject might not be compatible
-    const textResult = await generateText({
-      model: gateway(modelId),
-      prompt: `${prompt}\n\nPlease respond with valid JSON that matches the required schema.`,
-      temperature: options.temperature || 0.7,
-    });
+    const { temperature = 0.7, systemPrompt, schemaName, schemaDescription, abortSignal, maxRetries = 2 } = options;
+
+    const messages: CoreMessage[] = [{ role: 'user', content: prompt }];
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    const addUsage = (stepUsage?: LanguageModelUsage) => {
+      usage.inputTokens += stepUsage?.inputTokens || 0;
+      usage.outputTokens += stepUsage?.outputTokens || 0;
+      usage.totalTokens += stepUsage?.totalTokens || 0;
+    };
+
+    let issues: StructuredDataIssue[] = [];
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        const result = await generateObject<z.ZodSchema<T>, 'object', T>({
+          model: gateway(modelId),
+          output: 'object',
+          schema,
+          schemaName,
+          schemaDescription,
+          mode: getObjectMode(modelId),
+          system: systemPrompt,
+          messages,
+          // Corrections should be deterministic rather than creative
+          temperature: attempt === 0 ? temperature : 0,
+          experimental_repairText: repairJsonText,
+          abortSignal,
+        });
 
-    try {
-      const parsedObject = JSON.parse(textResult.text);
-      const validatedObject = schema.parse(parsedObject);
-      
-      return {
-        success: true,
-        object: validatedObject,
-        usage: textResult.usage,
-      };
-    } catch (parseError) {
-      return {
-        success: false,
-        error: 'Failed to parse JSON response or validate schema',
-      };
+        addUsage(result.usage);
+
+        return {
+          success: true,
+          object: result.object,
+          usage,
+          attempts: attempt + 1,
+        };
+      } catch (error) {
+        if (!NoObjectGeneratedError.isInstance(error)) throw error;
+
+        addUsage(error.usage);
+        issues = error.text
+          ? validateStructuredText(error.text, schema)
+          : [{ path: '(root)', message: 'The model returned no output' }];
+
+        messages.push(
+          { role: 'assistant', content: error.text || '' },
+          {
+            role: 'user',
+            content: `That response did not match the schema:\n${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}\nReturn the corrected object.`,
+          }
+        );
+      }
     }
+
+    return {
+      success: false,
+      error: `Failed to validate schema at ${issues.map(issue => issue.path).join(', ')}`,
+      issues,
+    };
   } catch (error) {
     console.error('Structured Generation Error:', error);
     return {
@@ -244,6 +317,45 @@ export async function generateStructuredData<T>(
   }
 }
 
+// Stream a structured object, yielding partially filled objects as they arrive
+export async function streamStructuredData<T>(
+  prompt: string,
+  schema: z.ZodSchema<T>,
+  modelId: string,
+  options: StructuredDataOptions = {}
+) {
+  try {
+    const { temperature = 0.7, systemPrompt, schemaName, schemaDescription } = options;
+
+    const result = streamObject<z.ZodSchema<T>, 'object', T>({
+      model: gateway(modelId),
+      output: 'object',
+      schema,
+      schemaName,
+      schemaDescription,
+      mode: getObjectMode(modelId),
+      system: systemPrompt,
+      prompt,
+      temperature,
+      experimental_repairText: repairJsonText,
+    });
+
+    return {
+      success: true,
+      partialObjectStream: result.partialObjectStream,
+      // Rejects if the final object fails validation
+      object: result.object,
+      usage: result.usage,
+    };
+  } catch (error) {
+    console.error('Structured Streaming Error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
 // Test AI connection
 export async function testAIConnection(modelId?: string): Promise<boolean> {
   try {
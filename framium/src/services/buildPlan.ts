@@ -0,0 +1,126 @@
+/**
+ * Framium - Build Plans
+ * Serializable dry run of the canvas changes a request would make
+ * The user reviews the steps in chat and applies all, some or none of them
+ */
+
+import { framiumCanvasBuilder, WebsiteSection, WebsiteTemplate } from './canvasBuilder'
+import { addSVGToCanvas, createFrameNode, updateNodeAttributes } from './mutateCanvas'
+import { runCanvasTransaction, CanvasTransaction } from './canvasTransaction'
+
+export type BuildStep =
+  | { id: string; kind: 'section'; summary: string; theme: WebsiteTemplate['theme']; section: WebsiteSection }
+  | { id: string; kind: 'frame'; summary: string; name: string; width: number; height: number }
+  | { id: string; kind: 'svg'; summary: string; name: string; svg: string }
+  | { id: string; kind: 'attributes'; summary: string; nodeId: string; attributes: Record<string, unknown> }
+
+type WithoutMeta<T> = T extends BuildStep ? Omit<T, 'id' | 'summary'> : never
+type NewBuildStep = WithoutMeta<BuildStep>
+
+export interface BuildPlan {
+  id: string
+  title: string
+  steps: BuildStep[]
+  createdAt: string
+}
+
+export interface BuildPlanResult {
+  applied: string[]
+  failed: { stepId: string; message: string }[]
+}
+
+// Frames planned in the same dry run are referred to by placeholder IDs until
+// they exist; applying the plan swaps in the real node IDs
+const PLANNED_NODE_PREFIX = 'planned:'
+
+export function createBuildPlan(title: string): BuildPlan {
+  return {
+    id: `plan-${Date.now()}`,
+    title,
+    steps: [],
+    createdAt: new Date().toISOString()
+  }
+}
+
+export function addBuildStep(plan: BuildPlan, step: NewBuildStep): BuildStep {
+  const planned = { ...step, id: `step-${plan.steps.length + 1}`, summary: summarizeStep(step) } as BuildStep
+  plan.steps.push(planned)
+  return planned
+}
+
+export function getPlannedNodeId(step: BuildStep): string {
+  return `${PLANNED_NODE_PREFIX}${step.id}`
+}
+
+function summarizeStep(step: NewBuildStep): string {
+  switch (step.kind) {
+    case 'section':
+      return `Build ${step.section.type} section "${step.section.title}"`
+    case 'frame':
+      return `Create frame "${step.name}" (${step.width}×${step.height})`
+    case 'svg':
+      return `Insert SVG "${step.name}"`
+    case 'attributes':
+      return `Set ${Object.keys(step.attributes).join(', ')} on ${step.nodeId}`
+  }
+}
+
+/**
+ * Apply the chosen steps (all of them by default) as one undoable build.
+ * A failed step is reported and skipped; the other steps still apply.
+ */
+export async function applyBuildPlan(plan: BuildPlan, stepIds?: string[]): Promise<BuildPlanResult> {
+  const selected = stepIds ? plan.steps.filter(step => stepIds.includes(step.id)) : plan.steps
+  const result: BuildPlanResult = { applied: [], failed: [] }
+  const createdIds = new Map<string, string>()
+
+  await runCanvasTransaction(plan.title, async transaction => {
+    for (const step of selected) {
+      try {
+        const nodeId = await applyStep(step, createdIds, transaction)
+        if (nodeId) createdIds.set(getPlannedNodeId(step), nodeId)
+        result.applied.push(step.id)
+      } catch (error) {
+        result.failed.push({ stepId: step.id, message: (error as Error).message })
+      }
+    }
+  })
+
+  return result
+}
+
+async function applyStep(
+  step: BuildStep,
+  createdIds: Map<string, string>,
+  transaction: CanvasTransaction
+): Promise<string | null> {
+  switch (step.kind) {
+    case 'section': {
+      const success = await framiumCanvasBuilder.buildWebsiteTemplate({
+        name: step.section.title,
+        theme: step.theme,
+        sections: [step.section],
+        layout: { width: 1200, responsive: true }
+      }, transaction)
+      if (!success) throw new Error(`Building ${step.section.type} section failed`)
+      return null
+    }
+    case 'frame': {
+      const frame = await createFrameNode(step.width, step.height, step.name, transaction)
+      if (!frame) throw new Error(`Creating frame "${step.name}" failed`)
+      return frame.id
+    }
+    case 'svg': {
+      const node = await addSVGToCanvas(step.svg, step.name, transaction)
+      return node?.id || null
+    }
+    case 'attributes': {
+      const nodeId = step.nodeId.startsWith(PLANNED_NODE_PREFIX) ? createdIds.get(step.nodeId) : step.nodeId
+      if (!nodeId) throw new Error('The frame this step changes was not applied')
+
+      const success = await updateNodeAttributes(nodeId, step.attributes, transaction)
+      if (!success) throw new Error(`Node ${nodeId} not found or not editable`)
+      return null
+    }
+  }
+}
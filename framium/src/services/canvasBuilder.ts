@@ -6,8 +6,10 @@
 
 import { framer } from 'framer-plugin'
 import { addSVGToCanvas, getCanvasPermissionStatus } from './mutateCanvas'
-import { professionalCanvasBuilder } from './professionalCanvasBuilder'
+import { professionalCanvasBuilder, Breakpoint } from './professionalCanvasBuilder'
+import { runCanvasTransaction, CanvasTransaction } from './canvasTransaction'
 import { has } from './permissions'
+import { resolveDesignTokens, DesignTokens } from './designTokens'
 
 export interface WebsiteSection {
   type: 'hero' | 'features' | 'about' | 'contact' | 'pricing' | 'testimonials'
@@ -33,12 +35,11 @@ export interface WebsiteTemplate {
   layout: {
     width: number
     responsive: boolean
-    breakpoints?: {
-      mobile: number
-      tablet: number
-      desktop: number
-    }
+    // Frames built side by side, each with its own columns, font and padding scale
+    breakpoints?: Breakpoint[]
   }
+  // Brand tokens for this build; defaults to the saved brand tokens, then the theme preset
+  tokens?: DesignTokens
 }
 
 /**
@@ -50,7 +51,7 @@ export class FramiumCanvasBuilder {
   /**
    * Initialize professional canvas system
    */
-  async initialize(): Promise<boolean> {
+  async initialize(layout?: WebsiteTemplate['layout']): Promise<boolean> {
     try {
       console.log('Initializing professional canvas system...')
       
@@ -63,9 +64,10 @@ export class FramiumCanvasBuilder {
 
       // Initialize professional canvas builder
       const success = await professionalCanvasBuilder.initialize({
-        width: 1200,
+        width: layout?.width || 1200,
         height: 800,
-        responsive: true,
+        responsive: layout?.responsive ?? true,
+        breakpoints: layout?.breakpoints,
         autoLayout: true
       })
 
@@ -86,23 +88,42 @@ export class FramiumCanvasBuilder {
   }
 
   /**
-   * Build professional website template
+   * Build professional website template. Pass the transaction of the build
+   * this template is part of, if any, so both are undone together.
    */
-  async buildWebsiteTemplate(template: WebsiteTemplate): Promise<boolean> {
-    if (!this.initialized) {
-      console.log('Initializing canvas for website template...')
-      const initSuccess = await this.initialize()
-      if (!initSuccess) return false
-    }
-
+  async buildWebsiteTemplate(template: WebsiteTemplate, parent?: CanvasTransaction): Promise<boolean> {
     try {
-      console.log(`Building ${template.theme} website template: ${template.name}`)
-      framer.notify(`🚀 Generating ${template.name} website...`)
-
-      // Build sections in order
-      for (const section of template.sections) {
-        await this.buildSection(section, template.theme)
-      }
+      // One transaction for the whole build: if a section fails, everything
+      // created so far (including a new root container) is removed again
+      await runCanvasTransaction(template.name, async transaction => {
+        professionalCanvasBuilder.setChangeRecorder(transaction)
+
+        try {
+          // A template with a different breakpoint set gets its own frames
+          if (
+            !this.initialized ||
+            !await professionalCanvasBuilder.hasRootFrame() ||
+            !professionalCanvasBuilder.matchesLayout(template.layout)
+          ) {
+            console.log('Initializing canvas for website template...')
+            const initSuccess = await this.initialize(template.layout)
+            if (!initSuccess) throw new Error('Canvas setup failed')
+          }
+
+          console.log(`Building ${template.theme} website template: ${template.name}`)
+          framer.notify(`🚀 Generating ${template.name} website...`)
+
+          const tokens = resolveDesignTokens(template.theme, template.tokens)
+          professionalCanvasBuilder.setDesignTokens(tokens)
+
+          // Build sections in order
+          for (const section of template.sections) {
+            await this.buildSection(section, tokens)
+          }
+        } finally {
+          professionalCanvasBuilder.setChangeRecorder(undefined)
+        }
+      }, parent)
 
       console.log('Website template built successfully')
       framer.notify('✅ Professional website template completed!')
@@ -118,165 +139,126 @@ export class FramiumCanvasBuilder {
   /**
    * Build individual website section
    */
-  private async buildSection(section: WebsiteSection, theme: string): Promise<void> {
+  private async buildSection(section: WebsiteSection, tokens: DesignTokens): Promise<void> {
     console.log(`Building ${section.type} section: ${section.title}`)
     
+    let built: boolean
     switch (section.type) {
       case 'hero':
-        await this.buildHeroSection(section, theme)
+        built = await this.buildHeroSection(section, tokens)
         break
       case 'features':
-        await this.buildFeaturesSection(section, theme)
+        built = await this.buildFeaturesSection(section, tokens)
         break
       case 'about':
-        await this.buildAboutSection(section, theme)
+        built = await this.buildAboutSection(section, tokens)
         break
       case 'contact':
-        await this.buildContactSection(section, theme)
+        built = await this.buildContactSection(section, tokens)
         break
       case 'pricing':
-        await this.buildPricingSection(section, theme)
+        built = await this.buildPricingSection(section, tokens)
         break
       case 'testimonials':
-        await this.buildTestimonialsSection(section, theme)
+        built = await this.buildTestimonialsSection(section, tokens)
         break
       default:
-        await this.buildGenericSection(section, theme)
+        built = await this.buildGenericSection(section, tokens)
+    }
+
+    // Canvas helpers report failures as null; stop so the build is rolled back
+    if (!built) {
+      throw new Error(`Could not build ${section.type} section "${section.title}"`)
     }
   }
 
   /**
    * Build professional hero section
    */
-  private async buildHeroSection(section: WebsiteSection, theme: string): Promise<void> {
-    const themeColors = this.getThemeColors(theme)
-    
-    await professionalCanvasBuilder.addHeroSection(
+  private async buildHeroSection(section: WebsiteSection, _tokens: DesignTokens): Promise<boolean> {
+    return Boolean(await professionalCanvasBuilder.addHeroSection(
       section.title,
-      section.content,
-      themeColors.heroBackground
-    )
+      section.content
+    ))
   }
 
   /**
    * Build professional features section  
    */
-  private async buildFeaturesSection(section: WebsiteSection, _theme: string): Promise<void> {
+  private async buildFeaturesSection(section: WebsiteSection, tokens: DesignTokens): Promise<boolean> {
     // Parse features from section content or elements
     const features = section.elements?.map(element => ({
       title: element.content.split('\n')[0] || 'Feature',
       description: element.content.split('\n')[1] || 'Feature description',
-      icon: this.generateFeatureIcon(element.type)
+      icon: this.generateFeatureIcon(element.type, tokens.colors.accent)
     })) || [
       {
         title: section.title,
         description: section.content,
-        icon: this.generateFeatureIcon('star')
+        icon: this.generateFeatureIcon('star', tokens.colors.accent)
       }
     ]
 
-    await professionalCanvasBuilder.addFeatureSection(features)
+    return Boolean(await professionalCanvasBuilder.addFeatureSection(features))
   }
 
   /**
    * Build other section types
    */
-  private async buildAboutSection(section: WebsiteSection, theme: string): Promise<void> {
-    await professionalCanvasBuilder.addSection({
+  private async buildAboutSection(section: WebsiteSection, tokens: DesignTokens): Promise<boolean> {
+    return Boolean(await professionalCanvasBuilder.addSection({
       name: section.title,
-      backgroundColor: this.getThemeColors(theme).backgroundSecondary,
-      padding: 80,
-      gap: 32
-    })
+      backgroundColor: tokens.colors.surface,
+      padding: tokens.spacing['3xl'],
+      gap: tokens.spacing.xl
+    }))
   }
 
-  private async buildContactSection(section: WebsiteSection, theme: string): Promise<void> {
-    await professionalCanvasBuilder.addSection({
+  private async buildContactSection(section: WebsiteSection, tokens: DesignTokens): Promise<boolean> {
+    return Boolean(await professionalCanvasBuilder.addSection({
       name: section.title,
-      backgroundColor: this.getThemeColors(theme).backgroundPrimary,
-      padding: 80,
-      gap: 24
-    })
+      backgroundColor: tokens.colors.background,
+      padding: tokens.spacing['3xl'],
+      gap: tokens.spacing.lg
+    }))
   }
 
-  private async buildPricingSection(section: WebsiteSection, theme: string): Promise<void> {
-    await professionalCanvasBuilder.addSection({
+  private async buildPricingSection(section: WebsiteSection, tokens: DesignTokens): Promise<boolean> {
+    return Boolean(await professionalCanvasBuilder.addSection({
       name: section.title,
-      backgroundColor: this.getThemeColors(theme).backgroundSecondary,
-      padding: 80,
-      gap: 48
-    })
+      backgroundColor: tokens.colors.surface,
+      padding: tokens.spacing['3xl'],
+      gap: tokens.spacing['2xl']
+    }))
   }
 
-  private async buildTestimonialsSection(section: WebsiteSection, theme: string): Promise<void> {
-    await professionalCanvasBuilder.addSection({
+  private async buildTestimonialsSection(section: WebsiteSection, tokens: DesignTokens): Promise<boolean> {
+    return Boolean(await professionalCanvasBuilder.addSection({
       name: section.title,
-      backgroundColor: this.getThemeColors(theme).backgroundPrimary,
-      padding: 80,
-      gap: 32
-    })
+      backgroundColor: tokens.colors.background,
+      padding: tokens.spacing['3xl'],
+      gap: tokens.spacing.xl
+    }))
   }
 
-  private async buildGenericSection(section: WebsiteSection, theme: string): Promise<void> {
-    await professionalCanvasBuilder.addSection({
+  private async buildGenericSection(section: WebsiteSection, tokens: DesignTokens): Promise<boolean> {
+    return Boolean(await professionalCanvasBuilder.addSection({
       name: section.title,
-      backgroundColor: section.style?.backgroundColor || this.getThemeColors(theme).backgroundPrimary,
-      padding: section.style?.padding || 60,
-      gap: 24
-    })
-  }
-
-  /**
-   * Get theme-specific colors
-   */
-  private getThemeColors(theme: string) {
-    const themes = {
-      modern: {
-        backgroundPrimary: '#FFFFFF',
-        backgroundSecondary: '#F8F9FA',
-        heroBackground: '#000000',
-        textPrimary: '#000000',
-        textSecondary: '#666666',
-        accent: '#007AFF'
-      },
-      classic: {
-        backgroundPrimary: '#FFFFFF',
-        backgroundSecondary: '#F5F5F5',
-        heroBackground: '#2C3E50',
-        textPrimary: '#2C3E50',
-        textSecondary: '#7F8C8D',
-        accent: '#3498DB'
-      },
-      minimal: {
-        backgroundPrimary: '#FFFFFF',
-        backgroundSecondary: '#FAFAFA',
-        heroBackground: '#000000',
-        textPrimary: '#000000',
-        textSecondary: '#888888',
-        accent: '#000000'
-      },
-      bold: {
-        backgroundPrimary: '#FFFFFF',
-        backgroundSecondary: '#FF6B6B',
-        heroBackground: '#FF6B6B',
-        textPrimary: '#2C3E50',
-        textSecondary: '#FFFFFF',
-        accent: '#FF6B6B'
-      }
-    }
-
-    return themes[theme as keyof typeof themes] || themes.modern
+      backgroundColor: section.style?.backgroundColor || tokens.colors.background,
+      padding: section.style?.padding || tokens.spacing['2xl'],
+      gap: tokens.spacing.lg
+    }))
   }
 
   /**
    * Generate professional feature icons
    */
-  private generateFeatureIcon(type: string): string {
+  private generateFeatureIcon(type: string, color: string): string {
     const icons = {
-      star: '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2l2.4 7.2h7.6l-6 4.8 2.4 7.2-6-4.8-6 4.8 2.4-7.2-6-4.8h7.6z"/></svg>',
-      check: '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M20 6L9 17l-5-5"/></svg>',
-      heart: '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z"/></svg>',
-      shield: '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/></svg>'
+      star: `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="${color}"><path d="M12 2l2.4 7.2h7.6l-6 4.8 2.4 7.2-6-4.8-6 4.8 2.4-7.2-6-4.8h7.6z"/></svg>`,
+      check: `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="${color}" stroke-width="2"><path d="M20 6L9 17l-5-5"/></svg>`,
+      heart: `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="${color}"><path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z"/></svg>`,
+      shield: `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="${color}" stroke-width="2"><path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/></svg>`
     }
 
     return icons[type as keyof typeof icons] || icons.star
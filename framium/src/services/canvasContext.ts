@@ -0,0 +1,296 @@
+/**
+ * Framium - Canvas Context Extraction
+ * Describes what is actually on the canvas so the model can reason about it
+ * Walks the selection (or the page's top-level layers) into a compact outline
+ * and lists canvas nodes for @-mentions
+ */
+
+import { framer, CanvasNode, FrameNode, isComponentInstanceNode, isFrameNode, isSVGNode, isTextNode } from 'framer-plugin'
+
+export interface CanvasContextOptions {
+  // Rough budget for the whole description (~4 characters per token)
+  maxTokens?: number
+  // How many levels below each root node to include
+  maxDepth?: number
+  // Longest text content quoted per text layer
+  maxTextLength?: number
+}
+
+const DEFAULT_OPTIONS: Required<CanvasContextOptions> = {
+  maxTokens: 800,
+  maxDepth: 3,
+  maxTextLength: 80
+}
+
+export type CanvasNodeType = 'Frame' | 'Text' | 'SVG' | 'Component' | 'Layer'
+
+/**
+ * A node as listed in the @-mention dropdown
+ */
+export interface CanvasNodeEntry {
+  id: string
+  name: string
+  type: CanvasNodeType
+  // Ancestor names from the top-level layer down, for breadcrumbs
+  path: string[]
+}
+
+export interface ListCanvasNodesOptions {
+  // Stop walking once this many nodes have been listed
+  maxNodes?: number
+  maxDepth?: number
+}
+
+/**
+ * Build a token-budgeted outline of the selection and its children. With an
+ * empty selection the page's top-level layers are described instead.
+ */
+export async function extractCanvasContext(
+  selection: CanvasNode[],
+  options: CanvasContextOptions = {}
+): Promise<string> {
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+
+  let roots = selection
+  let heading = `Selection (${selection.length} layer${selection.length === 1 ? '' : 's'}):`
+
+  if (roots.length === 0) {
+    roots = await getPageLayers()
+    if (roots.length === 0) return 'Canvas: empty page'
+    heading = `Page layers (nothing selected, ${roots.length} top-level):`
+    settings.maxDepth = Math.min(settings.maxDepth, 1)
+  }
+
+  return outlineNodes(roots, heading, settings)
+}
+
+/**
+ * Outline of a single node and its subtree, attached to a message when the
+ * node is @-mentioned. Returns null when the node no longer exists.
+ */
+export async function serializeNodeSubtree(
+  nodeId: string,
+  options: CanvasContextOptions = {}
+): Promise<string | null> {
+  const settings = { ...DEFAULT_OPTIONS, maxTokens: 600, maxDepth: 4, ...options }
+
+  let node: CanvasNode | null = null
+  try {
+    const found = await framer.getNode(nodeId)
+    if (found && found.id !== (await framer.getCanvasRoot()).id) {
+      node = found as CanvasNode
+    }
+  } catch (error) {
+    console.warn(`Could not read node ${nodeId}:`, error)
+  }
+  if (!node) return null
+
+  const name = 'name' in node && node.name ? node.name : getNodeType(node)
+  return outlineNodes([node], `@${name} (id ${node.id}):`, settings)
+}
+
+/**
+ * Named nodes on the current page in canvas order, for browsing and search
+ */
+export async function listCanvasNodes(options: ListCanvasNodesOptions = {}): Promise<CanvasNodeEntry[]> {
+  const { maxNodes = 500, maxDepth = 6 } = options
+  const entries: CanvasNodeEntry[] = []
+
+  const visit = async (node: CanvasNode, path: string[], depth: number): Promise<void> => {
+    if (entries.length >= maxNodes) return
+
+    const name = 'name' in node && node.name ? node.name : null
+    if (name) {
+      entries.push({ id: node.id, name, type: getNodeType(node), path })
+    }
+
+    // Component instances and SVGs are leaves as far as the user is concerned
+    if (depth >= maxDepth || isComponentInstanceNode(node) || isSVGNode(node)) return
+
+    const childPath = name ? [...path, name] : path
+    for (const child of await getChildrenSafe(node)) {
+      await visit(child, childPath, depth + 1)
+    }
+  }
+
+  for (const root of await getPageLayers()) {
+    await visit(root, [], 0)
+  }
+
+  return entries
+}
+
+async function outlineNodes(
+  roots: CanvasNode[],
+  heading: string,
+  settings: Required<CanvasContextOptions>
+): Promise<string> {
+  const maxChars = settings.maxTokens * 4
+  const lines = [heading]
+  let length = heading.length
+  let omitted = 0
+  let full = false
+
+  // Layers the outline would have shown under `node`, counting `node` itself
+  const countLayers = async (node: CanvasNode, depth: number): Promise<number> => {
+    if (depth >= settings.maxDepth) return 1
+
+    let count = 1
+    for (const child of await getChildrenSafe(node)) {
+      count += await countLayers(child, depth + 1)
+    }
+    return count
+  }
+
+  // Depth-first so the outline keeps its nesting. Once a line doesn't fit the
+  // budget, nothing more is described; whole subtrees are only counted.
+  const visit = async (node: CanvasNode, depth: number): Promise<void> => {
+    if (full) {
+      omitted += await countLayers(node, depth)
+      return
+    }
+
+    const line = `${'  '.repeat(depth)}- ${await describeNode(node, settings.maxTextLength)}`
+
+    if (length + line.length > maxChars) {
+      full = true
+      omitted += await countLayers(node, depth)
+      return
+    }
+    lines.push(line)
+    length += line.length + 1
+
+    if (depth >= settings.maxDepth) return
+
+    const children = await getChildrenSafe(node)
+    for (const child of children) {
+      await visit(child, depth + 1)
+    }
+  }
+
+  for (const root of roots) {
+    await visit(root, 0)
+  }
+
+  if (omitted > 0) {
+    lines.push(`… ${omitted} more layer${omitted === 1 ? '' : 's'} omitted`)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * One line per node: type, name, size and position, then type-specific details
+ * such as a frame's fill and stack layout
+ */
+async function describeNode(node: CanvasNode, maxTextLength: number): Promise<string> {
+  const parts: string[] = [getNodeType(node)]
+
+  if ('name' in node && node.name) parts.push(`"${node.name}"`)
+
+  const rect = await getRectSafe(node)
+  if (rect) {
+    parts.push(`${Math.round(rect.width)}×${Math.round(rect.height)} at (${Math.round(rect.x)}, ${Math.round(rect.y)})`)
+  }
+
+  if (isFrameNode(node)) {
+    const background = formatColor(node.backgroundColor)
+    if (background) parts.push(`bg ${background}`)
+    if (node.backgroundImage) parts.push('bg image')
+    if (node.position && node.position !== 'relative') parts.push(node.position)
+    if (node.borderRadius && node.borderRadius !== '0px') parts.push(`radius ${node.borderRadius}`)
+    const layout = formatLayout(node)
+    if (layout) parts.push(layout)
+  }
+
+  if (isTextNode(node)) {
+    const text = await getTextSafe(node)
+    if (text) parts.push(`"${truncate(text, maxTextLength)}"`)
+    if (node.font) parts.push(node.font.family)
+  }
+
+  if (isComponentInstanceNode(node) && node.componentName) {
+    parts.push(`instance of ${node.componentName}`)
+  }
+
+  if ('visible' in node && !node.visible) parts.push('hidden')
+
+  return parts.join(' · ')
+}
+
+export function getNodeType(node: CanvasNode): CanvasNodeType {
+  if (isFrameNode(node)) return 'Frame'
+  if (isTextNode(node)) return 'Text'
+  if (isSVGNode(node)) return 'SVG'
+  if (isComponentInstanceNode(node)) return 'Component'
+  return 'Layer'
+}
+
+function formatColor(color: unknown): string | null {
+  if (!color) return null
+  if (typeof color === 'string') return color
+  // Color styles are referenced by name
+  const style = color as { name?: string }
+  return style.name ? `style "${style.name}"` : null
+}
+
+// Layout attributes aren't in this framer-plugin version's typings yet,
+// so they are read only when the node carries them
+interface LayoutAttributes {
+  layout?: 'stack' | 'grid' | null
+  stackDirection?: 'horizontal' | 'vertical' | null
+  gap?: string | null
+  padding?: string | null
+}
+
+function formatLayout(node: FrameNode): string | null {
+  const { layout, stackDirection, gap, padding } = node as unknown as LayoutAttributes
+  if (!layout) return null
+
+  const parts = [layout === 'stack' ? `${stackDirection || 'vertical'} stack` : layout]
+  if (gap && gap !== '0px') parts.push(`gap ${gap}`)
+  if (padding && padding !== '0px') parts.push(`padding ${padding}`)
+
+  return parts.join(' ')
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim()
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine
+}
+
+// Reads can fail for layers the plugin can't access; leave those details out
+
+async function getPageLayers(): Promise<CanvasNode[]> {
+  try {
+    const root = await framer.getCanvasRoot()
+    return (await root.getChildren()) as CanvasNode[]
+  } catch (error) {
+    console.warn('Could not read canvas root:', error)
+    return []
+  }
+}
+
+async function getChildrenSafe(node: CanvasNode): Promise<CanvasNode[]> {
+  try {
+    return await node.getChildren()
+  } catch {
+    return []
+  }
+}
+
+async function getRectSafe(node: CanvasNode) {
+  try {
+    return await node.getRect()
+  } catch {
+    return null
+  }
+}
+
+async function getTextSafe(node: CanvasNode): Promise<string | null> {
+  try {
+    return isTextNode(node) ? await node.getText() : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Framium - Canvas Tools
+ * Structured tool definitions the model calls to build on the canvas
+ * Inputs are validated with zod before they reach the mutateCanvas helpers
+ * Planning variants record the same calls as a reviewable build plan instead
+ */
+
+import { tool } from 'ai'
+import { z } from 'zod'
+import { framiumCanvasBuilder } from './canvasBuilder'
+import { addSVGToCanvas, createFrameNode, updateNodeAttributes } from './mutateCanvas'
+import { addBuildStep, getPlannedNodeId, BuildPlan } from './buildPlan'
+import type { CanvasTransaction } from './canvasTransaction'
+
+/**
+ * Result of a single tool call, returned to the model for its next step
+ */
+export interface CanvasToolResult {
+  success: boolean
+  message: string
+  nodeId?: string
+}
+
+const themeSchema = z.enum(['modern', 'classic', 'minimal', 'bold'])
+
+export const createSectionInput = z.object({
+  type: z.enum(['hero', 'features', 'about', 'contact', 'pricing', 'testimonials']),
+  title: z.string().min(1),
+  content: z.string(),
+  theme: themeSchema.optional(),
+  style: z.object({
+    backgroundColor: z.string().optional(),
+    textColor: z.string().optional(),
+    padding: z.number().nonnegative().optional(),
+    height: z.number().positive().optional()
+  }).optional(),
+  elements: z.array(z.object({
+    type: z.enum(['text', 'image', 'button', 'icon']),
+    content: z.string()
+  })).optional()
+})
+
+export const addSVGInput = z.object({
+  svg: z.string().min(1).refine(svg => svg.trim().startsWith('<svg'), 'Must be a complete <svg> element'),
+  name: z.string().min(1).optional()
+})
+
+export const createFrameInput = z.object({
+  name: z.string().min(1).optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional()
+})
+
+const pixels = z.string().regex(/^-?\d+(\.\d+)?px$/, 'Use pixels, e.g. "24px"')
+const length = z.string().regex(/^(\d+(\.\d+)?(px|%|fr)|fit-content)$/, 'Use px, %, fr or fit-content, e.g. "320px"')
+
+// Only attributes Framer nodes accept, so a bad call fails validation
+// instead of reaching setAttributes
+export const nodeAttributesSchema = z.object({
+  name: z.string().min(1),
+  visible: z.boolean(),
+  locked: z.boolean(),
+  width: length,
+  height: length,
+  position: z.enum(['relative', 'absolute', 'fixed', 'sticky']),
+  top: pixels,
+  right: pixels,
+  bottom: pixels,
+  left: pixels,
+  rotation: z.number(),
+  opacity: z.number().min(0).max(1),
+  backgroundColor: z.string().min(1),
+  borderRadius: pixels
+}).partial().strict().refine(attributes => Object.keys(attributes).length > 0, 'Set at least one attribute')
+
+export const updateNodeAttributesInput = z.object({
+  nodeId: z.string().min(1),
+  attributes: nodeAttributesSchema
+})
+
+function toResult(node: { id?: string } | null, message: string): CanvasToolResult {
+  if (!node) {
+    return { success: false, message: `${message} failed. Check canvas permissions.` }
+  }
+  return { success: true, message, nodeId: node.id }
+}
+
+function toErrorResult(error: unknown): CanvasToolResult {
+  return { success: false, message: error instanceof Error ? error.message : 'Unknown error' }
+}
+
+// Shared by the live and the planning tool sets
+const descriptions = {
+  createSection: 'Build a full-width website section (hero, features, about, contact, pricing or testimonials) on the canvas.',
+  addSVG: 'Insert an SVG graphic (icon, illustration or custom component) on the canvas.',
+  createFrame: 'Create an empty frame with the given size in pixels. Returns the new node ID.',
+  updateNodeAttributes: 'Set attributes on an existing node by ID: name, visible, locked, width, height, position, top/right/bottom/left, rotation, opacity, backgroundColor or borderRadius.'
+}
+
+/**
+ * Tool set passed to the model in Agent mode. Every change is recorded in
+ * `transaction` so the whole turn can be rolled back.
+ */
+export function createCanvasTools(transaction: CanvasTransaction) {
+  return {
+    createSection: tool({
+      description: descriptions.createSection,
+      inputSchema: createSectionInput,
+      execute: async ({ theme = 'modern', ...section }): Promise<CanvasToolResult> => {
+        try {
+          const success = await framiumCanvasBuilder.buildWebsiteTemplate({
+            name: `${section.title} Section`,
+            theme,
+            sections: [section],
+            layout: { width: 1200, responsive: true }
+          }, transaction)
+          return success
+            ? { success, message: `Built ${section.type} section "${section.title}"` }
+            : { success, message: `Building ${section.type} section failed` }
+        } catch (error) {
+          return toErrorResult(error)
+        }
+      }
+    }),
+
+    addSVG: tool({
+      description: descriptions.addSVG,
+      inputSchema: addSVGInput,
+      execute: async ({ svg, name = 'Generated SVG' }): Promise<CanvasToolResult> => {
+        try {
+          return toResult(await addSVGToCanvas(svg, name, transaction), `Added SVG "${name}"`)
+        } catch (error) {
+          return toErrorResult(error)
+        }
+      }
+    }),
+
+    createFrame: tool({
+      description: descriptions.createFrame,
+      inputSchema: createFrameInput,
+      execute: async ({ name = 'Frame', width = 375, height = 812 }): Promise<CanvasToolResult> => {
+        try {
+          return toResult(await createFrameNode(width, height, name, transaction), `Created frame "${name}" (${width}×${height})`)
+        } catch (error) {
+          return toErrorResult(error)
+        }
+      }
+    }),
+
+    updateNodeAttributes: tool({
+      description: descriptions.updateNodeAttributes,
+      inputSchema: updateNodeAttributesInput,
+      execute: async ({ nodeId, attributes }): Promise<CanvasToolResult> => {
+        try {
+          const success = await updateNodeAttributes(nodeId, attributes, transaction)
+          return success
+            ? { success, message: `Updated ${Object.keys(attributes).join(', ')} on ${nodeId}`, nodeId }
+            : { success, message: `Node ${nodeId} not found or not editable`, nodeId }
+        } catch (error) {
+          return toErrorResult(error)
+        }
+      }
+    })
+  }
+}
+
+export type CanvasToolName = keyof typeof descriptions
+
+/**
+ * Same tools as createCanvasTools, but each call is added to the plan instead of
+ * touching the canvas. Frames get placeholder IDs the model can keep using.
+ */
+export function createPlanningTools(plan: BuildPlan) {
+  const planned = (message: string, nodeId?: string): CanvasToolResult => ({
+    success: true,
+    message: `Planned: ${message}`,
+    nodeId
+  })
+
+  return {
+    createSection: tool({
+      description: descriptions.createSection,
+      inputSchema: createSectionInput,
+      execute: async ({ theme = 'modern', ...section }): Promise<CanvasToolResult> => {
+        const step = addBuildStep(plan, { kind: 'section', theme, section })
+        return planned(step.summary)
+      }
+    }),
+
+    addSVG: tool({
+      description: descriptions.addSVG,
+      inputSchema: addSVGInput,
+      execute: async ({ svg, name = 'Generated SVG' }): Promise<CanvasToolResult> => {
+        const step = addBuildStep(plan, { kind: 'svg', svg, name })
+        return planned(step.summary, getPlannedNodeId(step))
+      }
+    }),
+
+    createFrame: tool({
+      description: descriptions.createFrame,
+      inputSchema: createFrameInput,
+      execute: async ({ name = 'Frame', width = 375, height = 812 }): Promise<CanvasToolResult> => {
+        const step = addBuildStep(plan, { kind: 'frame', name, width, height })
+        return planned(step.summary, getPlannedNodeId(step))
+      }
+    }),
+
+    updateNodeAttributes: tool({
+      description: descriptions.updateNodeAttributes,
+      inputSchema: updateNodeAttributesInput,
+      execute: async ({ nodeId, attributes }): Promise<CanvasToolResult> => {
+        const step = addBuildStep(plan, { kind: 'attributes', nodeId, attributes })
+        return planned(step.summary, nodeId)
+      }
+    })
+  }
+}
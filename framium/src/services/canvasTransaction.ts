@@ -0,0 +1,153 @@
+/**
+ * Framium - Canvas Transactions
+ * Groups the canvas changes of one build so they can be rolled back together
+ * A failed build is cleaned up automatically; the last successful ones can be undone
+ */
+
+import { framer } from 'framer-plugin'
+import { removeNodes, updateNodeAttributes, CanvasChangeRecorder } from './mutateCanvas'
+
+interface AttributeChange {
+  nodeId: string
+  previous: Record<string, unknown>
+}
+
+// Position in a transaction that a nested build can roll back to
+export interface CanvasSavepoint {
+  created: number
+  updates: number
+}
+
+// How many finished builds "Undo last build" can step back through
+const MAX_HISTORY = 10
+
+/**
+ * Every node created and attribute changed during one build
+ */
+export class CanvasTransaction implements CanvasChangeRecorder {
+  readonly startedAt = new Date()
+  private createdIds: string[] = []
+  private updates: AttributeChange[] = []
+
+  constructor(readonly name: string) {}
+
+  created(nodeId: string): void {
+    this.createdIds.push(nodeId)
+  }
+
+  updated(nodeId: string, previous: Record<string, unknown>): void {
+    // Nodes created in this transaction are removed on rollback anyway
+    if (this.createdIds.includes(nodeId)) return
+    this.updates.push({ nodeId, previous })
+  }
+
+  get changeCount(): number {
+    return this.createdIds.length + this.updates.length
+  }
+
+  savepoint(): CanvasSavepoint {
+    return { created: this.createdIds.length, updates: this.updates.length }
+  }
+
+  /**
+   * Restore changed attributes newest first, then remove every created node
+   * that still exists. Only changes after the savepoint are reverted when one
+   * is given. Returns false if anything could not be reverted.
+   */
+  async rollback(savepoint: CanvasSavepoint = { created: 0, updates: 0 }): Promise<boolean> {
+    let success = true
+
+    for (const { nodeId, previous } of this.updates.slice(savepoint.updates).reverse()) {
+      success = (await updateNodeAttributes(nodeId, previous)) && success
+    }
+
+    // Children go with their parents, so skip anything already gone
+    const existing: string[] = []
+    for (const nodeId of this.createdIds.slice(savepoint.created)) {
+      if (await framer.getNode(nodeId).catch(() => null)) existing.push(nodeId)
+    }
+    if (existing.length > 0) {
+      success = (await removeNodes(existing)) && success
+    }
+
+    this.createdIds = this.createdIds.slice(0, savepoint.created)
+    this.updates = this.updates.slice(0, savepoint.updates)
+    return success
+  }
+}
+
+const history: CanvasTransaction[] = []
+const listeners = new Set<(lastBuild: CanvasTransaction | null) => void>()
+
+function notifyListeners(): void {
+  const lastBuild = getLastBuild()
+  listeners.forEach(listener => listener(lastBuild))
+}
+
+/**
+ * Run a multi-step build as one transaction. The operation passes the
+ * transaction to the mutateCanvas helpers it calls; changes made without it,
+ * e.g. by other panels while the build runs, are never recorded. If the
+ * operation throws, its changes are rolled back and the error is rethrown.
+ * A build given a `parent` joins it so the whole build is undone as one; if
+ * it fails, only its own changes are rolled back.
+ */
+export async function runCanvasTransaction<T>(
+  name: string,
+  operation: (transaction: CanvasTransaction) => Promise<T>,
+  parent?: CanvasTransaction
+): Promise<T> {
+  if (parent) {
+    const savepoint = parent.savepoint()
+
+    try {
+      return await operation(parent)
+    } catch (error) {
+      await parent.rollback(savepoint)
+      throw error
+    }
+  }
+
+  const transaction = new CanvasTransaction(name)
+
+  try {
+    const result = await operation(transaction)
+
+    if (transaction.changeCount > 0) {
+      history.push(transaction)
+      if (history.length > MAX_HISTORY) history.shift()
+      notifyListeners()
+    }
+
+    return result
+  } catch (error) {
+    console.warn(`${name} failed, rolling back ${transaction.changeCount} canvas changes`)
+    await transaction.rollback()
+    throw error
+  }
+}
+
+export function getLastBuild(): CanvasTransaction | null {
+  return history[history.length - 1] || null
+}
+
+/**
+ * Undo the most recent successful build
+ */
+export async function undoLastBuild(): Promise<boolean> {
+  const transaction = history.pop()
+  if (!transaction) return false
+
+  const success = await transaction.rollback()
+  notifyListeners()
+
+  framer.notify(success ? `↩️ Undid ${transaction.name}` : `⚠️ ${transaction.name} was only partly undone`)
+  return success
+}
+
+export function subscribeToBuildHistory(listener: (lastBuild: CanvasTransaction | null) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Framium - Component Generation
+ * Turns selected canvas layers into a reusable Framer code component
+ * The model sees the real node outlines and returns props, variants and code
+ */
+
+import { framer, isCodeFileComponentExport, CodeFile } from 'framer-plugin'
+import { z } from 'zod'
+import { generateStructuredData } from './aiService'
+import { serializeNodeSubtree } from './canvasContext'
+import { addComponentToCanvas, addDetachedComponentLayersToCanvas, createCodeFile } from './mutateCanvas'
+
+export const componentPropSchema = z.object({
+  name: z.string().regex(/^[a-z][A-Za-z0-9]*$/, 'Prop names must be camelCase'),
+  type: z.enum(['string', 'number', 'boolean', 'color', 'enum']),
+  defaultValue: z.union([z.string(), z.number(), z.boolean()]),
+  // Allowed values for enum props
+  options: z.array(z.string()).optional(),
+  description: z.string().optional()
+})
+
+export const componentVariantSchema = z.object({
+  name: z.string().min(1),
+  description: z.string()
+})
+
+export const generatedComponentSchema = z.object({
+  name: z.string().regex(/^[A-Z][A-Za-z0-9]*$/, 'Component names must be PascalCase'),
+  description: z.string(),
+  variants: z.array(componentVariantSchema).min(1),
+  props: z.array(componentPropSchema),
+  code: z.string()
+    .refine(code => /export default function/.test(code), 'Must have a default exported function component')
+    .refine(code => code.includes('addPropertyControls'), 'Must register its props with addPropertyControls')
+})
+
+export type ComponentProp = z.infer<typeof componentPropSchema>
+export type GeneratedComponent = z.infer<typeof generatedComponentSchema>
+
+// Instance keeps the code component linked; detached inserts editable layers
+export type ComponentInsertMode = 'instance' | 'detached'
+
+export interface ComponentGenerationResult {
+  success: boolean
+  component?: GeneratedComponent
+  error?: string
+}
+
+const COMPONENT_GENERATOR_PROMPT = `You turn Framer canvas layers into a reusable Framer code component.
+
+Return:
+- name: PascalCase component name describing what the layers are
+- description: one sentence
+- variants: the visual states the component should support (always include "Default"), e.g. Default, Hover, Secondary
+- props: the content and style values a designer would want to change (text, colors, sizes, toggles). Use type "enum" with options for the variant prop.
+- code: a complete TSX file for a Framer code component
+
+The code must:
+- import { addPropertyControls, ControlType } from "framer"
+- export default a function component named after the component that accepts the props (including "variant")
+- reproduce the layers' layout, colors, radius and text as closely as the outline allows, using inline styles
+- give every prop its default value and register all of them with addPropertyControls
+- add the /** @framerSupportedLayoutWidth any @framerSupportedLayoutHeight any */ annotation above the component`
+
+/**
+ * Serialize the selected nodes and ask the model for a component built from them
+ */
+export async function generateComponentFromLayers(
+  nodeIds: string[],
+  modelId: string
+): Promise<ComponentGenerationResult> {
+  const outlines = (await Promise.all(nodeIds.map(id => serializeNodeSubtree(id, { maxTokens: 1200 }))))
+    .filter((outline): outline is string => Boolean(outline))
+
+  if (outlines.length === 0) {
+    return { success: false, error: 'The selected layers could not be read from the canvas' }
+  }
+
+  const result = await generateStructuredData(
+    `Create a component from these layers:\n\n${outlines.join('\n\n')}`,
+    generatedComponentSchema,
+    modelId,
+    {
+      temperature: 0.4,
+      systemPrompt: COMPONENT_GENERATOR_PROMPT,
+      schemaName: 'FramerComponent',
+      schemaDescription: 'A reusable Framer code component with props and variants'
+    }
+  )
+
+  if (!result.success || !result.object) {
+    return { success: false, error: result.error || 'Component generation failed' }
+  }
+
+  return { success: true, component: result.object }
+}
+
+/**
+ * Save the component as a code file and place it on the canvas
+ */
+export async function insertGeneratedComponent(
+  component: GeneratedComponent,
+  mode: ComponentInsertMode = 'instance'
+) {
+  const codeFile = await createCodeFile(await getAvailableFileName(component.name), component.code)
+  if (!codeFile) return null
+
+  const insertURL = getComponentInsertURL(codeFile)
+  if (!insertURL) {
+    framer.notify(`❌ ${codeFile.name} was saved but does not export a component`)
+    return null
+  }
+
+  return mode === 'detached'
+    ? await addDetachedComponentLayersToCanvas(insertURL)
+    : await addComponentToCanvas(insertURL)
+}
+
+function getComponentInsertURL(codeFile: CodeFile): string | null {
+  const componentExport = codeFile.exports.find(isCodeFileComponentExport)
+  return componentExport?.insertURL || null
+}
+
+// Code file names are unique per project, so number repeats: Card.tsx, Card2.tsx...
+async function getAvailableFileName(componentName: string): Promise<string> {
+  let existing = new Set<string>()
+  try {
+    existing = new Set((await framer.getCodeFiles()).map(file => file.name))
+  } catch (error) {
+    console.warn('Could not list code files:', error)
+  }
+
+  let fileName = `${componentName}.tsx`
+  for (let suffix = 2; existing.has(fileName); suffix++) {
+    fileName = `${componentName}${suffix}.tsx`
+  }
+  return fileName
+}
@@ -0,0 +1,432 @@
+/**
+ * Framium - Design Tokens
+ * Colors, type ramp, spacing, radii and shadows that generated layouts and SVGs are built from
+ * Brand tokens can be imported from JSON or from the project's Framer color and text styles
+ */
+
+import { framer, ColorStyle, TextStyle } from 'framer-plugin'
+import { z } from 'zod'
+
+const colorSchema = z.string().min(1)
+
+const typeStyleSchema = z.object({
+  fontSize: z.number().positive(),
+  fontWeight: z.number().int().min(100).max(900),
+  // Multiple of the font size
+  lineHeight: z.number().positive()
+})
+
+const shadowSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  blur: z.number().min(0),
+  color: colorSchema
+})
+
+export const designTokensSchema = z.object({
+  name: z.string().min(1),
+  colors: z.object({
+    background: colorSchema,
+    surface: colorSchema,
+    border: colorSchema,
+    text: colorSchema,
+    textMuted: colorSchema,
+    accent: colorSchema,
+    onAccent: colorSchema,
+    heroBackground: colorSchema,
+    heroText: colorSchema,
+    heroTextMuted: colorSchema
+  }),
+  // Named scales keyed by step, e.g. { accent: { '50': '#EFF6FF', ..., '900': '#1E3A8A' } }
+  colorScales: z.record(z.record(colorSchema)),
+  typography: z.object({
+    fontFamily: z.string().min(1),
+    headingFontFamily: z.string().min(1),
+    ramp: z.object({
+      display: typeStyleSchema,
+      h1: typeStyleSchema,
+      h2: typeStyleSchema,
+      h3: typeStyleSchema,
+      body: typeStyleSchema,
+      small: typeStyleSchema
+    })
+  }),
+  // Pixels
+  spacing: z.object({
+    xs: z.number().min(0),
+    sm: z.number().min(0),
+    md: z.number().min(0),
+    lg: z.number().min(0),
+    xl: z.number().min(0),
+    '2xl': z.number().min(0),
+    '3xl': z.number().min(0)
+  }),
+  radii: z.object({
+    none: z.number().min(0),
+    sm: z.number().min(0),
+    md: z.number().min(0),
+    lg: z.number().min(0),
+    full: z.number().min(0)
+  }),
+  shadows: z.object({
+    sm: shadowSchema,
+    md: shadowSchema,
+    lg: shadowSchema
+  })
+})
+
+export type DesignTokens = z.infer<typeof designTokensSchema>
+export type ColorRole = keyof DesignTokens['colors']
+export type TypeStyle = z.infer<typeof typeStyleSchema>
+export type TypeRampStep = keyof DesignTokens['typography']['ramp']
+export type ThemeName = 'modern' | 'classic' | 'minimal' | 'bold'
+
+export interface DesignTokenImportResult {
+  success: boolean
+  tokens?: DesignTokens
+  // How many Framer styles were mapped onto tokens
+  imported?: { colorStyles: number; textStyles: number }
+  error?: string
+}
+
+const BRAND_TOKENS_KEY = 'framium-design-tokens'
+
+const SCALE_STEPS = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900']
+
+// Amount of white (positive) or black (negative) mixed into the base color per scale step
+const SCALE_MIX = [0.95, 0.9, 0.75, 0.55, 0.3, 0, -0.15, -0.3, -0.45, -0.6]
+
+const BASE_TOKENS: Omit<DesignTokens, 'name' | 'colors' | 'colorScales'> = {
+  typography: {
+    fontFamily: 'Inter',
+    headingFontFamily: 'Inter',
+    ramp: {
+      display: { fontSize: 48, fontWeight: 700, lineHeight: 1.1 },
+      h1: { fontSize: 36, fontWeight: 700, lineHeight: 1.2 },
+      h2: { fontSize: 28, fontWeight: 600, lineHeight: 1.25 },
+      h3: { fontSize: 20, fontWeight: 600, lineHeight: 1.3 },
+      body: { fontSize: 16, fontWeight: 400, lineHeight: 1.5 },
+      small: { fontSize: 14, fontWeight: 400, lineHeight: 1.4 }
+    }
+  },
+  spacing: { xs: 4, sm: 8, md: 16, lg: 24, xl: 32, '2xl': 48, '3xl': 80 },
+  radii: { none: 0, sm: 4, md: 8, lg: 12, full: 9999 },
+  shadows: {
+    sm: { x: 0, y: 1, blur: 2, color: 'rgba(0, 0, 0, 0.06)' },
+    md: { x: 0, y: 4, blur: 12, color: 'rgba(0, 0, 0, 0.08)' },
+    lg: { x: 0, y: 12, blur: 32, color: 'rgba(0, 0, 0, 0.12)' }
+  }
+}
+
+const THEME_COLORS: Record<ThemeName, DesignTokens['colors']> = {
+  modern: {
+    background: '#FFFFFF',
+    surface: '#F8F9FA',
+    border: '#E5E7EB',
+    text: '#1F2937',
+    textMuted: '#6B7280',
+    accent: '#3B82F6',
+    onAccent: '#FFFFFF',
+    heroBackground: '#000000',
+    heroText: '#FFFFFF',
+    heroTextMuted: '#CCCCCC'
+  },
+  classic: {
+    background: '#FFFFFF',
+    surface: '#F5F5F5',
+    border: '#D1D5DB',
+    text: '#2C3E50',
+    textMuted: '#7F8C8D',
+    accent: '#3498DB',
+    onAccent: '#FFFFFF',
+    heroBackground: '#2C3E50',
+    heroText: '#FFFFFF',
+    heroTextMuted: '#BDC3C7'
+  },
+  minimal: {
+    background: '#FFFFFF',
+    surface: '#FAFAFA',
+    border: '#E5E5E5',
+    text: '#171717',
+    textMuted: '#737373',
+    accent: '#000000',
+    onAccent: '#FFFFFF',
+    heroBackground: '#000000',
+    heroText: '#FFFFFF',
+    heroTextMuted: '#A3A3A3'
+  },
+  bold: {
+    background: '#FFFFFF',
+    surface: '#FFF1F1',
+    border: '#EF4444',
+    text: '#2C3E50',
+    textMuted: '#991B1B',
+    accent: '#FF6B6B',
+    onAccent: '#FFFFFF',
+    heroBackground: '#FF6B6B',
+    heroText: '#FFFFFF',
+    heroTextMuted: '#FFE3E3'
+  }
+}
+
+/**
+ * Built-in tokens for one of the canned themes
+ */
+export function getThemeTokens(theme: string): DesignTokens {
+  const name = (theme in THEME_COLORS ? theme : 'modern') as ThemeName
+  const colors = THEME_COLORS[name]
+
+  return {
+    ...structuredClone(BASE_TOKENS),
+    name,
+    colors: { ...colors },
+    colorScales: {
+      accent: buildColorScale(colors.accent),
+      neutral: buildColorScale(colors.textMuted)
+    }
+  }
+}
+
+/**
+ * Tokens a build should use: explicit overrides, then the user's brand tokens,
+ * then the theme preset
+ */
+export function resolveDesignTokens(theme: string, overrides?: DesignTokens): DesignTokens {
+  return overrides || getBrandTokens() || getThemeTokens(theme)
+}
+
+export function getBrandTokens(): DesignTokens | null {
+  try {
+    const saved = localStorage.getItem(BRAND_TOKENS_KEY)
+    if (!saved) return null
+
+    const parsed = designTokensSchema.safeParse(JSON.parse(saved))
+    return parsed.success ? parsed.data : null
+  } catch (error) {
+    console.warn('Could not read brand tokens:', error)
+    return null
+  }
+}
+
+export function setBrandTokens(tokens: DesignTokens | null): void {
+  if (tokens) {
+    localStorage.setItem(BRAND_TOKENS_KEY, JSON.stringify(tokens))
+  } else {
+    localStorage.removeItem(BRAND_TOKENS_KEY)
+  }
+}
+
+/**
+ * Read tokens from JSON. Anything left out is taken from the base tokens, so a
+ * file with just { "colors": { "accent": "#FF5A1F" } } is valid.
+ */
+export function parseDesignTokens(json: string, base: DesignTokens = getThemeTokens('modern')): DesignTokenImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${(error as Error).message}` }
+  }
+
+  const parsed = designTokensSchema.deepPartial().safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { success: false, error: `${issue.path.join('.') || 'tokens'}: ${issue.message}` }
+  }
+
+  const tokens = designTokensSchema.safeParse(mergeTokens(base, parsed.data))
+  if (!tokens.success) {
+    return { success: false, error: tokens.error.issues[0].message }
+  }
+
+  return { success: true, tokens: tokens.data }
+}
+
+// Style names are matched against these in order; the first unassigned role wins
+const COLOR_ROLE_PATTERNS: Array<[ColorRole, RegExp]> = [
+  ['heroTextMuted', /hero.*(muted|secondary|subtle)/],
+  ['heroText', /hero.*(text|foreground|fg)|inverse.*(text|foreground)/],
+  ['heroBackground', /hero|inverse|dark.*(background|bg)/],
+  ['onAccent', /on[\s_-]?(accent|primary|brand)/],
+  ['textMuted', /(text|foreground).*(muted|secondary|subtle)|muted.*text/],
+  ['text', /text|foreground|body|ink/],
+  ['accent', /accent|primary|brand/],
+  ['border', /border|stroke|divider|outline/],
+  ['surface', /surface|card|secondary|muted/],
+  ['background', /background|bg|canvas|page/]
+]
+
+const TEXT_STYLE_RAMP: Partial<Record<TextStyle['tag'], TypeRampStep>> = {
+  h1: 'h1',
+  h2: 'h2',
+  h3: 'h3',
+  p: 'body'
+}
+
+/**
+ * Map the project's color and text styles onto tokens. Styles named like
+ * "Brand/500" become color scales; roles are guessed from style names.
+ */
+export async function importTokensFromFramer(base: DesignTokens = getThemeTokens('modern')): Promise<DesignTokenImportResult> {
+  let colorStyles: ColorStyle[]
+  let textStyles: TextStyle[]
+  try {
+    [colorStyles, textStyles] = await Promise.all([framer.getColorStyles(), framer.getTextStyles()])
+  } catch (error) {
+    return { success: false, error: `Could not read Framer styles: ${(error as Error).message}` }
+  }
+
+  if (colorStyles.length === 0 && textStyles.length === 0) {
+    return { success: false, error: 'This project has no color or text styles' }
+  }
+
+  const tokens = structuredClone(base)
+  tokens.name = 'Framer styles'
+
+  const assigned = new Set<ColorRole>()
+  for (const style of colorStyles) {
+    const label = (style.path || style.name).toLowerCase()
+    const color = toHex(style.light) || style.light
+
+    const scaleMatch = label.match(/^(.+?)[\s/_-]*(50|[1-9]00)$/)
+    if (scaleMatch) {
+      const scaleName = scaleMatch[1].split('/').pop()!.trim()
+      tokens.colorScales[scaleName] = { ...tokens.colorScales[scaleName], [scaleMatch[2]]: color }
+      continue
+    }
+
+    const role = COLOR_ROLE_PATTERNS.find(([role, pattern]) => !assigned.has(role) && pattern.test(label))?.[0]
+    if (role) {
+      tokens.colors[role] = color
+      assigned.add(role)
+    }
+  }
+
+  // Scales named after a role fill in that role when no style was named for it
+  const accentScale = tokens.colorScales.accent || tokens.colorScales.primary || tokens.colorScales.brand
+  if (!assigned.has('accent') && accentScale?.['500']) {
+    tokens.colors.accent = accentScale['500']
+  }
+
+  let largestHeading = 0
+  for (const style of textStyles) {
+    const step = TEXT_STYLE_RAMP[style.tag]
+    const fontSize = toPixels(style.fontSize)
+    if (!step || !fontSize) continue
+
+    const typeStyle: TypeStyle = {
+      fontSize,
+      fontWeight: style.font.weight || tokens.typography.ramp[step].fontWeight,
+      lineHeight: toLineHeight(style.lineHeight, fontSize) || tokens.typography.ramp[step].lineHeight
+    }
+    tokens.typography.ramp[step] = typeStyle
+
+    if (step === 'body') {
+      tokens.typography.fontFamily = style.font.family
+    } else if (fontSize > largestHeading) {
+      largestHeading = fontSize
+      tokens.typography.headingFontFamily = style.font.family
+      // The display size stays a step above the largest imported heading
+      if (step === 'h1') {
+        tokens.typography.ramp.display = { ...typeStyle, fontSize: Math.round(fontSize * 1.33) }
+      }
+    }
+  }
+
+  const result = designTokensSchema.safeParse(tokens)
+  if (!result.success) {
+    return { success: false, error: result.error.issues[0].message }
+  }
+
+  return {
+    success: true,
+    tokens: result.data,
+    imported: { colorStyles: colorStyles.length, textStyles: textStyles.length }
+  }
+}
+
+/**
+ * Short summary for prompts so model-generated SVGs and layouts use the same tokens
+ */
+export function describeDesignTokens(tokens: DesignTokens): string {
+  const { colors, typography, spacing, radii } = tokens
+  return [
+    `Colors: ${Object.entries(colors).map(([role, color]) => `${role} ${color}`).join(', ')}`,
+    `Fonts: headings ${typography.headingFontFamily}, body ${typography.fontFamily}`,
+    `Type ramp (px): ${Object.entries(typography.ramp).map(([step, style]) => `${step} ${style.fontSize}/${style.fontWeight}`).join(', ')}`,
+    `Spacing (px): ${Object.entries(spacing).map(([step, value]) => `${step} ${value}`).join(', ')}`,
+    `Radii (px): ${Object.entries(radii).map(([step, value]) => `${step} ${value}`).join(', ')}`
+  ].join('\n')
+}
+
+/**
+ * Rendered line height of a ramp step in pixels
+ */
+export function getLineHeight(style: TypeStyle, scale = 1): number {
+  return Math.round(style.fontSize * scale * style.lineHeight)
+}
+
+function buildColorScale(color: string): Record<string, string> {
+  const rgb = parseColor(color)
+  if (!rgb) return { '500': color }
+
+  return Object.fromEntries(SCALE_STEPS.map((step, index) => {
+    const mix = SCALE_MIX[index]
+    const target = mix > 0 ? 255 : 0
+    const amount = Math.abs(mix)
+    return [step, rgbToHex(rgb.map(channel => channel + (target - channel) * amount))]
+  }))
+}
+
+function parseColor(color: string): number[] | null {
+  const hex = color.match(/^#([0-9a-f]{6})$/i)
+  if (hex) {
+    return [0, 2, 4].map(offset => parseInt(hex[1].slice(offset, offset + 2), 16))
+  }
+
+  const rgba = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i)
+  return rgba ? rgba.slice(1, 4).map(Number) : null
+}
+
+// Framer reports opaque colors as rgba(); translucent ones are kept as they are
+function toHex(color: string): string | null {
+  const alpha = color.match(/^rgba\(.*,\s*([\d.]+)\s*\)$/i)
+  if (alpha && Number(alpha[1]) < 1) return null
+
+  const rgb = parseColor(color)
+  return rgb ? rgbToHex(rgb) : null
+}
+
+function rgbToHex(rgb: number[]): string {
+  return `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase()}`
+}
+
+function toPixels(size: string): number | null {
+  const value = parseFloat(size)
+  if (Number.isNaN(value)) return null
+  return size.endsWith('rem') ? value * 16 : value
+}
+
+function toLineHeight(lineHeight: string, fontSize: number): number | null {
+  const value = parseFloat(lineHeight)
+  if (Number.isNaN(value)) return null
+  if (lineHeight.endsWith('px')) return value / fontSize
+  if (lineHeight.endsWith('%')) return value / 100
+  return value
+}
+
+function mergeTokens<T>(base: T, overrides: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return (overrides === undefined ? base : overrides) as T
+  }
+
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = mergeTokens(merged[key], value)
+  }
+  return merged as T
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
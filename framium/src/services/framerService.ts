@@ -5,9 +5,14 @@
  */
 
 import { framer } from 'framer-plugin'
+import { z } from 'zod'
 import { framiumCanvasBuilder, WebsiteTemplate, WebsiteSection } from './canvasBuilder'
+import { DEFAULT_BREAKPOINTS } from './professionalCanvasBuilder'
+import { resolveDesignTokens } from './designTokens'
 import { has, ensure, getPermissionStatus } from './permissions'
 import { getCanvasPermissionStatus } from './mutateCanvas'
+import { generateStructuredData } from './aiService'
+import { addBuildStep, createBuildPlan, BuildPlan } from './buildPlan'
 
 export interface AIWebsiteRequest {
   type: 'website' | 'component' | 'section'
@@ -18,11 +23,7 @@ export interface AIWebsiteRequest {
     layout?: 'single-page' | 'multi-section'
   }
   content?: {
-    sections?: Array<{
-      type: 'hero' | 'features' | 'about' | 'contact' | 'pricing' | 'testimonials'
-      title: string
-      content: string
-    }>
+    sections?: WebsiteSection[]
     branding?: {
       companyName?: string
       tagline?: string
@@ -38,9 +39,67 @@ export interface AIResponse {
     sections?: WebsiteSection[]
     svgCode?: string
   }
+  // Set instead of building when the request ran as a dry run
+  plan?: BuildPlan
   permissionIssues?: string[]
 }
 
+export interface ExecuteOptions {
+  // Describe the canvas changes as a build plan without making them
+  dryRun?: boolean
+}
+
+/**
+ * Schemas mirroring WebsiteSection and AIWebsiteRequest, used to validate
+ * requests the model generates from natural language
+ */
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Use 6-digit hex colors like #1F2937')
+
+export const websiteSectionSchema: z.ZodType<WebsiteSection> = z.object({
+  type: z.enum(['hero', 'features', 'about', 'contact', 'pricing', 'testimonials']),
+  title: z.string().min(1),
+  content: z.string().min(1),
+  style: z.object({
+    backgroundColor: hexColorSchema.optional(),
+    textColor: hexColorSchema.optional(),
+    padding: z.number().nonnegative().optional(),
+    height: z.number().positive().optional()
+  }).optional(),
+  elements: z.array(z.object({
+    type: z.enum(['text', 'image', 'button', 'icon']),
+    content: z.string()
+  })).optional()
+})
+
+export const aiWebsiteRequestSchema: z.ZodType<AIWebsiteRequest> = z.object({
+  type: z.enum(['website', 'component', 'section']),
+  description: z.string().min(1),
+  style: z.object({
+    theme: z.enum(['modern', 'classic', 'minimal', 'bold']),
+    colors: z.array(hexColorSchema).max(5).optional(),
+    layout: z.enum(['single-page', 'multi-section']).optional()
+  }),
+  // Required so a bare type and description is sent back for repair instead
+  // of falling through to the placeholder sections
+  content: z.object({
+    sections: z.array(websiteSectionSchema).min(1),
+    branding: z.object({
+      companyName: z.string().min(1),
+      tagline: z.string().optional()
+    })
+  })
+})
+
+// Used when no model is specified; fast and cheap enough for planning
+const DEFAULT_PLANNING_MODEL = 'openai/gpt-4o-mini'
+
+const REQUEST_PLANNER_PROMPT = `You turn a Framer user's request into a build specification for Framium.
+- Pick "website" for full pages or sites, "section" for a single section, "component" for a standalone element.
+- Write real, specific copy for every section title and content; never use placeholders like "Lorem ipsum" or "Your Company".
+- Infer branding (company name, tagline) from the request, inventing a fitting name if none is given.
+- Choose a theme and up to 5 hex colors that suit the brand; the first color is the primary section background.
+- Use section elements for feature items, testimonials, pricing tiers and buttons.`
+
 /**
  * Professional Framer Service with AI integration
  */
@@ -85,9 +144,21 @@ export class FramerService {
   /**
    * Execute AI-powered website generation request
    */
-  async executeAIRequest(request: AIWebsiteRequest): Promise<AIResponse> {
+  async executeAIRequest(request: AIWebsiteRequest, options: ExecuteOptions = {}): Promise<AIResponse> {
     console.log('Processing AI request:', request.type, request.description)
     
+    // A dry run never touches the canvas, so it needs no setup or permissions
+    if (options.dryRun) {
+      const plan = this.createBuildPlan(request)
+      return {
+        success: plan.steps.length > 0,
+        message: plan.steps.length > 0
+          ? `Planned ${plan.steps.length} step${plan.steps.length === 1 ? '' : 's'} for review`
+          : 'Nothing to build for this request',
+        plan
+      }
+    }
+
     try {
       // Ensure service is initialized
       if (!this.initialized) {
@@ -135,24 +206,44 @@ export class FramerService {
   }
 
   /**
-   * Legacy static method for backwards compatibility
+   * Generate a fully populated request from natural language
    */
-  static async executeAIRequest(input: string, _autoExecute: boolean = true): Promise<boolean> {
-    const service = new FramerService()
-    
-    // Parse legacy input format
-    const request: AIWebsiteRequest = {
+  static async createRequestFromPrompt(input: string, modelId: string = DEFAULT_PLANNING_MODEL): Promise<AIWebsiteRequest> {
+    const result = await generateStructuredData(input, aiWebsiteRequestSchema, modelId, {
+      temperature: 0.7,
+      systemPrompt: REQUEST_PLANNER_PROMPT
+    })
+
+    if (result.success && result.object) {
+      return result.object
+    }
+
+    // Fall back to keyword detection so the user still gets something on canvas
+    console.warn('Structured request generation failed, using keyword detection:', result.error)
+    return {
       type: input.toLowerCase().includes('website') ? 'website' : 
             input.toLowerCase().includes('section') ? 'section' : 'component',
       description: input,
-      style: { theme: 'modern' },
-      content: {
-        branding: {
-          companyName: 'Your Company',
-          tagline: 'Professional solutions'
-        }
-      }
+      style: { theme: 'modern' }
     }
+  }
+
+  /**
+   * Generate a request from natural language and return its build plan
+   * without changing the canvas
+   */
+  static async planAIRequest(input: string, modelId?: string): Promise<BuildPlan | null> {
+    const request = await FramerService.createRequestFromPrompt(input, modelId)
+    const response = await framerService.executeAIRequest(request, { dryRun: true })
+    return response.success && response.plan ? response.plan : null
+  }
+
+  /**
+   * Legacy static method for backwards compatibility
+   */
+  static async executeAIRequest(input: string, _autoExecute: boolean = true, modelId?: string): Promise<boolean> {
+    const service = new FramerService()
+    const request = await FramerService.createRequestFromPrompt(input, modelId)
 
     const response = await service.executeAIRequest(request)
     
@@ -186,11 +277,7 @@ export class FramerService {
         layout: {
           width: 1200,
           responsive: true,
-          breakpoints: {
-            mobile: 375,
-            tablet: 768,
-            desktop: 1200
-          }
+          breakpoints: DEFAULT_BREAKPOINTS
         }
       }
 
@@ -293,20 +380,49 @@ export class FramerService {
     }
   }
 
+  /**
+   * The steps generateWebsite, generateSection and generateComponent would take
+   */
+  createBuildPlan(request: AIWebsiteRequest): BuildPlan {
+    const theme = request.style?.theme || 'modern'
+
+    if (request.type === 'component') {
+      const plan = createBuildPlan(`${this.extractComponentName(request.description)} component`)
+      addBuildStep(plan, {
+        kind: 'svg',
+        name: this.extractComponentName(request.description),
+        svg: this.generateComponentSVG(request)
+      })
+      return plan
+    }
+
+    const sections = this.generateWebsiteSections(request)
+    const planned = request.type === 'section' ? sections.slice(0, 1) : sections
+    const plan = createBuildPlan(
+      request.type === 'section'
+        ? `${planned[0]?.type || 'new'} section`
+        : request.content?.branding?.companyName || 'Professional Website'
+    )
+    planned.forEach(section => addBuildStep(plan, { kind: 'section', theme, section }))
+
+    return plan
+  }
+
   /**
    * Generate website sections from AI request
    */
   private generateWebsiteSections(request: AIWebsiteRequest): WebsiteSection[] {
+    const tokens = resolveDesignTokens(request.style?.theme || 'modern')
+
     // Use provided sections or generate default ones
     if (request.content?.sections && request.content.sections.length > 0) {
       return request.content.sections.map(section => ({
-        type: section.type,
-        title: section.title,
-        content: section.content,
+        ...section,
         style: {
-          backgroundColor: request.style?.colors?.[0] || '#FFFFFF',
-          textColor: '#000000',
-          padding: 80
+          backgroundColor: request.style?.colors?.[0] || tokens.colors.background,
+          textColor: tokens.colors.text,
+          padding: tokens.spacing['3xl'],
+          ...section.style
         }
       }))
     }
@@ -320,7 +436,11 @@ export class FramerService {
         type: 'hero',
         title: `Welcome to ${companyName}`,
         content: tagline,
-        style: { backgroundColor: '#000000', textColor: '#FFFFFF', padding: 100 }
+        style: {
+          backgroundColor: tokens.colors.heroBackground,
+          textColor: tokens.colors.heroText,
+          padding: tokens.spacing['3xl']
+        }
       },
       {
         type: 'features',
@@ -353,31 +473,25 @@ export class FramerService {
     const height = 200
     const theme = request.style?.theme || 'modern'
     
-    const colors = this.getThemeColors(theme)
+    const { colors, typography, radii, shadows } = resolveDesignTokens(theme)
     const componentName = this.extractComponentName(request.description)
-
-    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
-  <rect width="${width}" height="${height}" fill="${colors.background}" rx="12" stroke="${colors.border}" stroke-width="1"/>
-  <text x="${width/2}" y="${height/2 - 10}" text-anchor="middle" fill="${colors.text}" font-family="Inter, -apple-system, sans-serif" font-size="18" font-weight="600">${componentName}</text>
-  <text x="${width/2}" y="${height/2 + 15}" text-anchor="middle" fill="${colors.textSecondary}" font-family="Inter, -apple-system, sans-serif" font-size="14">Professional Component</text>
-  <rect x="${width/2 - 40}" y="${height/2 + 30}" width="80" height="32" fill="${colors.accent}" rx="6"/>
-  <text x="${width/2}" y="${height/2 + 50}" text-anchor="middle" fill="#FFFFFF" font-family="Inter, -apple-system, sans-serif" font-size="12" font-weight="500">Action</text>
+    const { h3, small } = typography.ramp
+    const shadow = shadows.md
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width + 40}" height="${height + 40}" viewBox="-20 -20 ${width + 40} ${height + 40}">
+  <defs>
+    <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
+      <feDropShadow dx="${shadow.x}" dy="${shadow.y}" stdDeviation="${shadow.blur / 2}" flood-color="${shadow.color}"/>
+    </filter>
+  </defs>
+  <rect width="${width}" height="${height}" fill="${colors.background}" rx="${radii.lg}" stroke="${colors.border}" stroke-width="1" filter="url(#shadow)"/>
+  <text x="${width/2}" y="${height/2 - 10}" text-anchor="middle" fill="${colors.text}" font-family="${typography.headingFontFamily}, -apple-system, sans-serif" font-size="${h3.fontSize}" font-weight="${h3.fontWeight}">${componentName}</text>
+  <text x="${width/2}" y="${height/2 + 15}" text-anchor="middle" fill="${colors.textMuted}" font-family="${typography.fontFamily}, -apple-system, sans-serif" font-size="${small.fontSize}">Professional Component</text>
+  <rect x="${width/2 - 40}" y="${height/2 + 30}" width="80" height="32" fill="${colors.accent}" rx="${radii.md}"/>
+  <text x="${width/2}" y="${height/2 + 50}" text-anchor="middle" fill="${colors.onAccent}" font-family="${typography.fontFamily}, -apple-system, sans-serif" font-size="12" font-weight="500">Action</text>
 </svg>`
   }
 
-  /**
-   * Get theme colors for components
-   */
-  private getThemeColors(theme: string) {
-    const themes = {
-      modern: { background: '#FFFFFF', border: '#E5E7EB', text: '#1F2937', textSecondary: '#6B7280', accent: '#3B82F6' },
-      classic: { background: '#FFFFFF', border: '#D1D5DB', text: '#374151', textSecondary: '#6B7280', accent: '#059669' },
-      minimal: { background: '#FAFAFA', border: '#E5E5E5', text: '#171717', textSecondary: '#737373', accent: '#000000' },
-      bold: { background: '#FFFFFF', border: '#EF4444', text: '#DC2626', textSecondary: '#991B1B', accent: '#EF4444' }
-    }
-    return themes[theme as keyof typeof themes] || themes.modern
-  }
-
   /**
    * Extract component name from description
    */
@@ -4,9 +4,54 @@
  * Ensures safe, permission-checked operations for professional results
  */
 
-import { framer } from 'framer-plugin'
+import { framer, AnyNode, CanvasNode, CodeFile, FrameNode } from 'framer-plugin'
 import { has, getPermissionTitle } from './permissions'
 
+/**
+ * Receives the nodes a helper below creates or changes, so a multi-step build
+ * can be rolled back (see canvasTransaction.ts). Only calls that are passed
+ * the build's recorder are recorded.
+ */
+export interface CanvasChangeRecorder {
+  created(nodeId: string): void
+  updated(nodeId: string, previous: Record<string, unknown>): void
+}
+
+/**
+ * Report a node created outside these helpers (e.g. direct framer.createFrameNode calls)
+ */
+export function recordCreatedNode<T extends { id: string } | null | undefined>(
+  node: T,
+  recorder?: CanvasChangeRecorder
+): T {
+  if (node) recorder?.created(node.id)
+  return node
+}
+
+// addSVG and addImage don't return the new node. They insert at the top level
+// of the page, so the new node is the canvas root child that wasn't there
+// before. Framer also selects what it inserts, which covers an insert that
+// landed somewhere else.
+async function insertAndFindNode(
+  insert: () => Promise<void>,
+  recorder?: CanvasChangeRecorder
+): Promise<CanvasNode | null> {
+  const root = await framer.getCanvasRoot()
+  const getTopLevel = async () => (await root.getChildren()) as CanvasNode[]
+
+  const topLevelBefore = new Set((await getTopLevel()).map(node => node.id))
+  const selectedBefore = new Set((await framer.getSelection()).map(node => node.id))
+  await insert()
+
+  let inserted = (await getTopLevel()).filter(node => !topLevelBefore.has(node.id))
+  if (inserted.length === 0) {
+    inserted = (await framer.getSelection()).filter(node => !selectedBefore.has(node.id))
+  }
+  inserted.forEach(node => recordCreatedNode(node, recorder))
+
+  return inserted[0] || null
+}
+
 /**
  * Professional canvas mutation wrapper following official plugin patterns
  */
@@ -37,12 +82,16 @@ export async function mutateCanvas<T>(
 /**
  * Professional SVG operations following official plugin patterns
  */
-export async function addSVGToCanvas(svgContent: string, name = 'Generated SVG'): Promise<any | null> {
+export async function addSVGToCanvas(
+  svgContent: string,
+  name = 'Generated SVG',
+  recorder?: CanvasChangeRecorder
+): Promise<any | null> {
   return mutateCanvas(['addSVG'], async () => {
-    return await framer.addSVG({
+    return await insertAndFindNode(() => framer.addSVG({
       svg: svgContent,
       name: name
-    })
+    }), recorder)
   }, 'Add SVG')
 }
 
@@ -52,38 +101,63 @@ export async function addSVGToCanvas(svgContent: string, name = 'Generated SVG')
 export async function addImageToCanvas(
   imageData: Uint8Array, 
   mimeType = 'image/png',
-  name = 'Generated Image'
+  name = 'Generated Image',
+  recorder?: CanvasChangeRecorder
 ): Promise<any | null> {
   return mutateCanvas(['addImage'], async () => {
-    return await framer.addImage({
+    return await insertAndFindNode(() => framer.addImage({
       image: {
         type: 'bytes',
         bytes: imageData,
         mimeType: mimeType
       },
       name: name
-    })
+    }), recorder)
   }, 'Add Image')
 }
 
 /**
  * Professional component operations following official plugin patterns
  */
-export async function addComponentToCanvas(componentUrl: string): Promise<any | null> {
+export async function addComponentToCanvas(componentUrl: string, recorder?: CanvasChangeRecorder): Promise<any | null> {
   return mutateCanvas(['addComponentInstance'], async () => {
-    return await framer.addComponentInstance({
+    return recordCreatedNode(await framer.addComponentInstance({
       url: componentUrl
-    })
+    }), recorder)
   }, 'Add Component')
 }
 
+/**
+ * Insert a component's layers detached from the component, so they can be edited freely
+ */
+export async function addDetachedComponentLayersToCanvas(
+  componentUrl: string,
+  recorder?: CanvasChangeRecorder
+): Promise<FrameNode | null> {
+  return mutateCanvas(['addDetachedComponentLayers'], async () => {
+    return recordCreatedNode(await framer.addDetachedComponentLayers({
+      url: componentUrl
+    }), recorder)
+  }, 'Add Detached Layers')
+}
+
+/**
+ * Add a code file (e.g. a generated code component) to the project
+ */
+export async function createCodeFile(name: string, code: string): Promise<CodeFile | null> {
+  return mutateCanvas(['createCodeFile'], async () => {
+    return await framer.createCodeFile(name, code)
+  }, 'Create Code File')
+}
+
 /**
  * Professional frame creation following official plugin patterns
  */
 export async function createFrameNode(
   width = 375, 
   height = 812, 
-  name = 'Frame'
+  name = 'Frame',
+  recorder?: CanvasChangeRecorder
 ): Promise<any | null> {
   return mutateCanvas(['createFrameNode', 'Node.setAttributes'], async () => {
     // Create frame with initial attributes
@@ -94,7 +168,7 @@ export async function createFrameNode(
       backgroundColor: '#FFFFFF'
     })
     
-    return frame
+    return recordCreatedNode(frame, recorder)
   }, 'Create Frame')
 }
 
@@ -103,12 +177,18 @@ export async function createFrameNode(
  */
 export async function updateNodeAttributes(
   nodeId: string, 
-  attributes: Record<string, any>
+  attributes: Record<string, any>,
+  recorder?: CanvasChangeRecorder
 ): Promise<boolean> {
   const result = await mutateCanvas(['Node.setAttributes'], async () => {
     const node = await framer.getNode(nodeId)
     if (node && 'setAttributes' in node) {
+      // Keep the values being replaced so the change can be undone
+      const previous = Object.fromEntries(
+        Object.keys(attributes).map(key => [key, (node as unknown as Record<string, unknown>)[key] ?? null])
+      )
       await (node as any).setAttributes(attributes)
+      recorder?.updated(nodeId, previous)
       return true
     }
     return false
@@ -117,6 +197,27 @@ export async function updateNodeAttributes(
   return result ?? false
 }
 
+/**
+ * Duplicate a node next to the original; returns the copy
+ */
+export async function duplicateNode(nodeId: string, recorder?: CanvasChangeRecorder): Promise<AnyNode | null> {
+  return mutateCanvas(['cloneNode'], async () => {
+    return recordCreatedNode(await framer.cloneNode(nodeId), recorder)
+  }, 'Duplicate Node')
+}
+
+/**
+ * Remove nodes (and their children) from the canvas
+ */
+export async function removeNodes(nodeIds: string[]): Promise<boolean> {
+  const result = await mutateCanvas(['removeNodes'], async () => {
+    await framer.removeNodes(nodeIds)
+    return true
+  }, 'Remove Nodes')
+
+  return result ?? false
+}
+
 /**
  * Get permission status for UI feedback
  */
@@ -126,7 +227,11 @@ export function getCanvasPermissionStatus() {
     canAddImages: has('addImage'),
     canCreateFrames: has('createFrameNode'),
     canAddComponents: has('addComponentInstance'),
+    canDetachComponents: has('addDetachedComponentLayers'),
+    canCreateCodeFiles: has('createCodeFile'),
     canUpdateNodes: has('Node.setAttributes'),
+    canDuplicateNodes: has('cloneNode'),
+    canRemoveNodes: has('removeNodes'),
     title: (hasPermission: boolean) => getPermissionTitle(hasPermission)
   }
 }
@@ -14,7 +14,10 @@ const FRAMER_API_PERMISSIONS = [
   'createFrameNode',
   'addComponentInstance',
   'addDetachedComponentLayers',
+  'createCodeFile',
   'Node.setAttributes',
+  'cloneNode',
+  'removeNodes',
   'Node.getRect',
   'Node.getChildren',
   'CanvasNode.setAttributes',
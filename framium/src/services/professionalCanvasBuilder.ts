@@ -1,12 +1,13 @@
 /**
  * Framium - Professional Canvas Builder
  * Industry-leading canvas construction based on official Framer design system patterns
- * Creates sophisticated layouts with auto-layout, responsive breakpoints, and component architecture
+ * Creates one frame per responsive breakpoint and lays every section out for each of them
  */
 
-import { framer } from 'framer-plugin'
-import { mutateCanvas, addSVGToCanvas, createFrameNode } from './mutateCanvas'
+import { framer, FrameNode } from 'framer-plugin'
+import { mutateCanvas, addSVGToCanvas, recordCreatedNode, CanvasChangeRecorder } from './mutateCanvas'
 import { has } from './permissions'
+import { getLineHeight, getThemeTokens, DesignTokens, TypeStyle } from './designTokens'
 
 export interface ComponentSpecs {
   name: string
@@ -19,27 +20,97 @@ export interface ComponentSpecs {
   direction?: 'horizontal' | 'vertical'
 }
 
+// How the layout adapts at a breakpoint
+export interface BreakpointRules {
+  // Feature grid columns
+  columns: number
+  // Multiplier for font sizes
+  fontScale: number
+  // Multiplier for section padding and gaps
+  paddingScale: number
+}
+
+export interface Breakpoint extends BreakpointRules {
+  name: string
+  width: number
+}
+
+export const DEFAULT_BREAKPOINTS: Breakpoint[] = [
+  { name: 'Desktop', width: 1200, columns: 3, fontScale: 1, paddingScale: 1 },
+  { name: 'Tablet', width: 768, columns: 2, fontScale: 0.85, paddingScale: 0.75 },
+  { name: 'Phone', width: 375, columns: 1, fontScale: 0.7, paddingScale: 0.5 }
+]
+
 export interface LayoutSpecs {
   width?: number
   height?: number
-  breakpoints?: {
-    mobile: number
-    tablet: number
-    desktop: number
-  }
+  // Frames to build side by side, widest first; defaults to DEFAULT_BREAKPOINTS
+  breakpoints?: Breakpoint[]
   autoLayout?: boolean
+  // Without it only a single frame of `width` is built
   responsive?: boolean
 }
 
+type FrameAttributes = Parameters<typeof framer.createFrameNode>[0]
+
+/**
+ * A frame whose children are stacked top to bottom. Framer has no stack
+ * attributes in this API version, so children are positioned explicitly and
+ * the frame grows to fit them.
+ */
+interface LayoutBox {
+  node: FrameNode
+  parent: LayoutBox | null
+  // Space available to children
+  innerWidth: number
+  padding: number
+  gap: number
+  height: number
+  // Top offset of the next child
+  cursor: number
+}
+
+interface BreakpointFrame {
+  breakpoint: Breakpoint
+  box: LayoutBox
+}
+
+// Horizontal space between breakpoint frames on the canvas
+const BREAKPOINT_SPACING = 100
+
+export function resolveBreakpoints(specs: LayoutSpecs = {}): Breakpoint[] {
+  if (specs.responsive === false) {
+    return [{ ...DEFAULT_BREAKPOINTS[0], width: specs.width || DEFAULT_BREAKPOINTS[0].width }]
+  }
+  const breakpoints = specs.breakpoints?.length ? specs.breakpoints : DEFAULT_BREAKPOINTS
+  return [...breakpoints].sort((a, b) => b.width - a.width)
+}
+
 /**
  * Professional Canvas Builder following official Framer design system patterns
  */
 export class ProfessionalCanvasBuilder {
-  private rootFrame: any = null
-  private currentSection: any = null
-  
+  private frames: BreakpointFrame[] = []
+  private currentSection: FrameNode | null = null
+  private tokens: DesignTokens = getThemeTokens('modern')
+  private recorder: CanvasChangeRecorder | undefined
+
+  /**
+   * Colors, type and spacing used by the sections built after this call
+   */
+  setDesignTokens(tokens: DesignTokens): void {
+    this.tokens = tokens
+  }
+
+  /**
+   * Build that records the nodes created after this call; undefined stops recording
+   */
+  setChangeRecorder(recorder: CanvasChangeRecorder | undefined): void {
+    this.recorder = recorder
+  }
+
   /**
-   * Initialize canvas with professional setup
+   * Initialize canvas with one empty frame per breakpoint
    */
   async initialize(specs: LayoutSpecs = {}): Promise<boolean> {
     try {
@@ -48,34 +119,38 @@ export class ProfessionalCanvasBuilder {
         return false
       }
 
-      // Create main container with auto-layout (following design-system plugin pattern)
-      this.rootFrame = await createFrameNode(
-        specs.width || 1200,
-        specs.height || 800,
-        'Website Container'
-      )
-
-      if (!this.rootFrame) {
-        throw new Error('Failed to create root frame')
-      }
-
-      // Apply professional auto-layout settings
-      await this.applyAutoLayout(this.rootFrame, {
-        direction: 'vertical',
-        gap: 0,
-        padding: 0
-      })
-
-      // Setup responsive breakpoints if requested
-      if (specs.responsive) {
-        await this.setupResponsiveBreakpoints(specs.breakpoints)
+      this.frames = []
+      this.currentSection = null
+
+      let left = 0
+      for (const breakpoint of resolveBreakpoints(specs)) {
+        const height = specs.height || 800
+        const frame = await this.createFrame({
+          name: `${breakpoint.name} · ${breakpoint.width}px`,
+          position: 'absolute',
+          left: `${left}px`,
+          top: '0px',
+          width: `${breakpoint.width}px`,
+          height: `${height}px`,
+          backgroundColor: this.tokens.colors.background
+        })
+
+        if (!frame) {
+          throw new Error(`Failed to create ${breakpoint.name} frame`)
+        }
+
+        this.frames.push({
+          breakpoint,
+          box: { node: frame, parent: null, innerWidth: breakpoint.width, padding: 0, gap: 0, height, cursor: 0 }
+        })
+        left += breakpoint.width + BREAKPOINT_SPACING
       }
 
-      console.log('Professional canvas initialized successfully')
+      console.log('Professional canvas initialized with breakpoints:', this.frames.map(({ breakpoint }) => breakpoint.name))
       framer.notify('✅ Professional canvas ready for content')
-      
+
       return true
-      
+
     } catch (error) {
       console.error('Canvas initialization failed:', error)
       framer.notify(`❌ Canvas setup failed: ${(error as Error).message}`)
@@ -84,41 +159,13 @@ export class ProfessionalCanvasBuilder {
   }
 
   /**
-   * Create professional section following design-system plugin patterns
+   * Create a section in every breakpoint frame. Returns the widest one.
    */
-  async addSection(specs: ComponentSpecs): Promise<any | null> {
-    if (!this.rootFrame) {
-      console.error('Canvas not initialized. Call initialize() first.')
-      return null
-    }
-
-    return mutateCanvas(['createFrameNode', 'Node.setAttributes'], async () => {
-      // Create section frame
-      const section = await framer.createFrameNode({
-        name: specs.name,
-        width: `${specs.width || 1200}px`,
-        height: `${specs.height || 400}px`, // Use specific height instead of auto
-        backgroundColor: specs.backgroundColor || '#FFFFFF',
-        borderRadius: `${specs.borderRadius || 0}px`
-      })
-
-      if (!section) return null
-
-      // Apply professional auto-layout
-      await this.applyAutoLayout(section, {
-        direction: specs.direction || 'vertical',
-        gap: specs.gap || 24,
-        padding: specs.padding || 48
-      })
-
-      // Add to root container
-      await this.appendToParent(section, this.rootFrame)
-      
-      this.currentSection = section
-      console.log(`Professional section "${specs.name}" created`)
-      
-      return section
-    }, `Create ${specs.name} Section`)
+  async addSection(specs: ComponentSpecs): Promise<FrameNode | null> {
+    return this.buildForEachBreakpoint(async target => {
+      const section = await this.addSectionBox(target, specs)
+      return section?.node || null
+    })
   }
 
   /**
@@ -128,242 +175,298 @@ export class ProfessionalCanvasBuilder {
     title: string,
     subtitle: string,
     backgroundImage?: string
-  ): Promise<any | null> {
-    const heroSection = await this.addSection({
-      name: 'Hero Section',
-      height: 600,
-      backgroundColor: '#000000',
-      padding: 80,
-      gap: 32
-    })
+  ): Promise<FrameNode | null> {
+    const { colors, spacing, typography } = this.tokens
+
+    return this.buildForEachBreakpoint(async target => {
+      const heroSection = await this.addSectionBox(target, {
+        name: 'Hero Section',
+        height: 600,
+        backgroundColor: colors.heroBackground,
+        padding: spacing['3xl'],
+        gap: spacing.xl
+      })
 
-    if (!heroSection) return null
+      if (!heroSection) return null
 
-    // Add background image if provided
-    if (backgroundImage) {
-      await this.addBackgroundImage(heroSection, backgroundImage)
-    }
+      // Add background image if provided
+      if (backgroundImage) {
+        await this.addBackgroundImage(heroSection.node, backgroundImage)
+      }
 
-    // Add title text
-    await this.addTextElement(heroSection, title, {
-      fontSize: 48,
-      fontWeight: 'bold',
-      color: '#FFFFFF',
-      textAlign: 'center'
-    })
+      const fontScale = target.breakpoint.fontScale
+      const titleElement = await this.addTextElement(heroSection, title, {
+        type: typography.ramp.display,
+        fontFamily: typography.headingFontFamily,
+        fontScale,
+        color: colors.heroText,
+        textAlign: 'center'
+      })
 
-    // Add subtitle text  
-    await this.addTextElement(heroSection, subtitle, {
-      fontSize: 18,
-      color: '#CCCCCC',
-      textAlign: 'center'
-    })
+      const subtitleElement = await this.addTextElement(heroSection, subtitle, {
+        type: typography.ramp.body,
+        fontFamily: typography.fontFamily,
+        fontScale,
+        color: colors.heroTextMuted,
+        textAlign: 'center'
+      })
 
-    return heroSection
+      return titleElement && subtitleElement ? heroSection.node : null
+    })
   }
 
   /**
-   * Add professional feature section with grid layout
+   * Add professional feature section with a grid of cards. Each breakpoint
+   * gets its own column count.
    */
   async addFeatureSection(
     features: Array<{title: string, description: string, icon?: string}>
-  ): Promise<any | null> {
-    const featureSection = await this.addSection({
-      name: 'Features Section',
-      padding: 80,
-      gap: 48
-    })
+  ): Promise<FrameNode | null> {
+    let iconsAdded = false
+
+    return this.buildForEachBreakpoint(async target => {
+      const featureSection = await this.addSectionBox(target, {
+        name: 'Features Section',
+        padding: this.tokens.spacing['3xl'],
+        gap: this.tokens.spacing['2xl']
+      })
+
+      if (!featureSection) return null
+
+      const grid = await this.addFeatureGrid(featureSection, features, target.breakpoint)
+      if (!grid) return null
+
+      // addSVG can't target a parent, so icons are inserted once rather than per breakpoint
+      if (!iconsAdded) {
+        iconsAdded = true
+        for (const feature of features) {
+          if (feature.icon) await addSVGToCanvas(feature.icon, 'Feature Icon', this.recorder)
+        }
+      }
 
-    if (!featureSection) return null
+      return featureSection.node
+    })
+  }
 
-    // Create feature grid container
-    const featureGrid = await this.createGrid(featureSection, 3)
-    
-    if (!featureGrid) return null
+  /**
+   * Run a build step against every breakpoint frame. Returns the widest
+   * breakpoint's node, or null if any breakpoint failed.
+   */
+  private async buildForEachBreakpoint(
+    build: (target: BreakpointFrame) => Promise<FrameNode | null>
+  ): Promise<FrameNode | null> {
+    if (this.frames.length === 0) {
+      console.error('Canvas not initialized. Call initialize() first.')
+      return null
+    }
 
-    // Add feature cards
-    for (const feature of features) {
-      await this.addFeatureCard(featureGrid, feature)
+    const nodes: Array<FrameNode | null> = []
+    for (const target of this.frames) {
+      nodes.push(await build(target))
     }
 
-    return featureSection
+    if (nodes.some(node => !node)) return null
+
+    this.currentSection = nodes[0]
+    return nodes[0]
+  }
+
+  /**
+   * Create a section frame at the bottom of a breakpoint frame, with padding
+   * and gaps scaled for the breakpoint
+   */
+  private async addSectionBox(target: BreakpointFrame, specs: ComponentSpecs): Promise<LayoutBox | null> {
+    const { paddingScale } = target.breakpoint
+    const { spacing, colors, radii } = this.tokens
+    const padding = Math.round((specs.padding ?? spacing['2xl']) * paddingScale)
+    const gap = Math.round((specs.gap ?? spacing.lg) * paddingScale)
+    const height = specs.height || 400
+
+    const section = await this.appendFrame(target.box, {
+      name: specs.name,
+      height: `${height}px`,
+      backgroundColor: specs.backgroundColor || colors.background,
+      borderRadius: `${specs.borderRadius ?? radii.none}px`
+    }, height)
+
+    if (!section) return null
+
+    console.log(`Professional section "${specs.name}" created for ${target.breakpoint.name}`)
+
+    return {
+      node: section,
+      parent: target.box,
+      innerWidth: target.box.innerWidth - padding * 2,
+      padding,
+      gap,
+      height,
+      cursor: padding
+    }
   }
 
   /**
    * Professional text element creation
    */
   private async addTextElement(
-    parent: any,
+    parent: LayoutBox,
     text: string,
     styles: {
-      fontSize?: number
-      fontWeight?: string
-      color?: string
+      type: TypeStyle
+      fontFamily: string
+      fontScale: number
+      color: string
       textAlign?: string
     }
-  ): Promise<any | null> {
-    return mutateCanvas(['createFrameNode'], async () => {
-      // Create text container
-      const textFrame = await framer.createFrameNode({
-        name: 'Text Element',
-        width: '100%',
-        height: `${styles.fontSize ? styles.fontSize + 20 : 40}px`,
-        backgroundColor: 'transparent'
-      })
+  ): Promise<FrameNode | null> {
+    const height = getLineHeight(styles.type, styles.fontScale)
+    const textFrame = await this.appendFrame(parent, {
+      name: 'Text Element',
+      height: `${height}px`,
+      backgroundColor: 'transparent'
+    }, height)
 
-      if (!textFrame) return null
+    if (!textFrame) return null
 
-      // Apply text styles (this would use Framer's text API)
-      await this.applyTextStyles(textFrame, text, styles)
-      
-      // Add to parent
-      await this.appendToParent(textFrame, parent)
-      
-      return textFrame
-    }, 'Add Text Element')
-  }
+    // Apply text styles (this would use Framer's text API)
+    await this.applyTextStyles(textFrame, text, styles)
 
-  /**
-   * Professional grid creation following design-system patterns
-   */
-  private async createGrid(
-    parent: any,
-    columns: number
-  ): Promise<any | null> {
-    return mutateCanvas(['createFrameNode'], async () => {
-      const grid = await framer.createFrameNode({
-        name: 'Feature Grid',
-        width: '100%',
-        height: '400px',
-        backgroundColor: 'transparent'
-      })
-
-      if (!grid) return null
-
-      // Apply grid layout
-      await this.applyGridLayout(grid, columns, 24)
-      
-      // Add to parent
-      await this.appendToParent(grid, parent)
-      
-      return grid
-    }, 'Create Grid')
+    return textFrame
   }
 
   /**
-   * Professional feature card creation
+   * Lay feature cards out in rows of the breakpoint's column count
    */
-  private async addFeatureCard(
-    parent: any,
-    feature: {title: string, description: string, icon?: string}
-  ): Promise<any | null> {
-    return mutateCanvas(['createFrameNode'], async () => {
-      const card = await framer.createFrameNode({
+  private async addFeatureGrid(
+    parent: LayoutBox,
+    features: Array<{title: string, description: string}>,
+    breakpoint: Breakpoint
+  ): Promise<FrameNode | null> {
+    const { colors, spacing, radii, typography } = this.tokens
+    const columns = Math.max(1, Math.min(breakpoint.columns, features.length))
+    const gap = Math.round(spacing.lg * breakpoint.paddingScale)
+    const cardWidth = Math.floor((parent.innerWidth - gap * (columns - 1)) / columns)
+    const cardPadding = Math.round(spacing.xl * breakpoint.paddingScale)
+    const cardGap = Math.round(spacing.md * breakpoint.paddingScale)
+    const titleHeight = getLineHeight(typography.ramp.h3, breakpoint.fontScale)
+    const descriptionHeight = getLineHeight(typography.ramp.body, breakpoint.fontScale)
+    const cardHeight = Math.max(200 * breakpoint.paddingScale, cardPadding * 2 + titleHeight + cardGap + descriptionHeight)
+    const rows = Math.ceil(features.length / columns)
+    const gridHeight = rows * cardHeight + (rows - 1) * gap
+
+    const grid = await this.appendFrame(parent, {
+      name: 'Feature Grid',
+      height: `${gridHeight}px`,
+      backgroundColor: 'transparent'
+    }, gridHeight)
+
+    if (!grid) return null
+
+    for (const [index, feature] of features.entries()) {
+      const card = await this.createFrame({
         name: `Feature: ${feature.title}`,
-        width: '100%',
-        height: '200px',
-        backgroundColor: '#F8F9FA',
-        borderRadius: '12px'
-      })
+        position: 'absolute',
+        left: `${(index % columns) * (cardWidth + gap)}px`,
+        top: `${Math.floor(index / columns) * (cardHeight + gap)}px`,
+        width: `${cardWidth}px`,
+        height: `${cardHeight}px`,
+        backgroundColor: colors.surface,
+        borderRadius: `${radii.lg}px`
+      }, grid.id)
 
       if (!card) return null
 
-      // Apply card auto-layout
-      await this.applyAutoLayout(card, {
-        direction: 'vertical',
-        gap: 16,
-        padding: 32
-      })
-
-      // Add icon if provided
-      if (feature.icon) {
-        await addSVGToCanvas(feature.icon, 'Feature Icon')
+      const cardBox: LayoutBox = {
+        node: card,
+        parent: null,
+        innerWidth: cardWidth - cardPadding * 2,
+        padding: cardPadding,
+        gap: cardGap,
+        height: cardHeight,
+        cursor: cardPadding
       }
 
-      // Add title and description
-      await this.addTextElement(card, feature.title, {
-        fontSize: 20,
-        fontWeight: 'bold',
-        color: '#000000'
+      await this.addTextElement(cardBox, feature.title, {
+        type: typography.ramp.h3,
+        fontFamily: typography.headingFontFamily,
+        fontScale: breakpoint.fontScale,
+        color: colors.text
       })
 
-      await this.addTextElement(card, feature.description, {
-        fontSize: 16,
-        color: '#666666'
+      await this.addTextElement(cardBox, feature.description, {
+        type: typography.ramp.body,
+        fontFamily: typography.fontFamily,
+        fontScale: breakpoint.fontScale,
+        color: colors.textMuted
       })
+    }
 
-      // Add to parent
-      await this.appendToParent(card, parent)
-      
-      return card
-    }, 'Add Feature Card')
+    return grid
   }
 
   /**
-   * Apply professional auto-layout (following official plugin patterns)
+   * Add a full-width child below the box's last child, growing the box (and
+   * its ancestors) when the child doesn't fit
    */
-  private async applyAutoLayout(
-    node: any,
-    config: {
-      direction: 'horizontal' | 'vertical'
-      gap: number
-      padding: number
-    }
-  ): Promise<void> {
-    if (!node || !('setAttributes' in node)) return
+  private async appendFrame(box: LayoutBox, attributes: FrameAttributes, height: number): Promise<FrameNode | null> {
+    const frame = await this.createFrame({
+      ...attributes,
+      position: 'absolute',
+      left: `${box.padding}px`,
+      top: `${box.cursor}px`,
+      width: `${box.innerWidth}px`
+    }, box.node.id)
 
-    try {
-      await (node as any).setAttributes({
-        layoutMode: 'auto',
-        layoutDirection: config.direction,
-        layoutGap: `${config.gap}px`,
-        paddingTop: `${config.padding}px`,
-        paddingRight: `${config.padding}px`,
-        paddingBottom: `${config.padding}px`,
-        paddingLeft: `${config.padding}px`
-      })
-    } catch (error) {
-      console.warn('Auto-layout application failed:', error)
-    }
+    if (!frame) return null
+
+    box.cursor += height + box.gap
+    await this.growToFit(box)
+
+    return frame
   }
 
-  /**
-   * Apply professional grid layout
-   */
-  private async applyGridLayout(
-    node: any,
-    columns: number,
-    gap: number
-  ): Promise<void> {
-    if (!node || !('setAttributes' in node)) return
+  private async growToFit(box: LayoutBox): Promise<void> {
+    const needed = box.cursor - box.gap + box.padding
+    if (needed <= box.height) return
 
+    const growth = needed - box.height
+    box.height = needed
     try {
-      await (node as any).setAttributes({
-        layoutMode: 'grid',
-        layoutColumns: columns,
-        layoutGap: `${gap}px`
-      })
+      await box.node.setAttributes({ height: `${needed}px` })
     } catch (error) {
-      console.warn('Grid layout application failed:', error)
+      console.warn('Resizing frame failed:', error)
+    }
+
+    // The box is always its parent's last child, so later siblings start lower
+    if (box.parent) {
+      box.parent.cursor += growth
+      await this.growToFit(box.parent)
     }
   }
 
+  private async createFrame(attributes: FrameAttributes, parentId?: string): Promise<FrameNode | null> {
+    return mutateCanvas(['createFrameNode', 'Node.setAttributes'], async () => {
+      return recordCreatedNode(await framer.createFrameNode(attributes, parentId), this.recorder)
+    }, `Create ${attributes.name || 'Frame'}`)
+  }
+
   /**
    * Apply professional text styles
    */
   private async applyTextStyles(
     node: any,
     text: string,
-    styles: any
+    styles: { type: TypeStyle; fontFamily: string; fontScale: number; color: string; textAlign?: string }
   ): Promise<void> {
     if (!node || !('setAttributes' in node)) return
 
     try {
       await (node as any).setAttributes({
         text: text,
-        fontSize: `${styles.fontSize || 16}px`,
-        fontWeight: styles.fontWeight || 'normal',
-        color: styles.color || '#000000',
+        fontFamily: styles.fontFamily,
+        fontSize: `${Math.round(styles.type.fontSize * styles.fontScale)}px`,
+        fontWeight: styles.type.fontWeight,
+        lineHeight: styles.type.lineHeight,
+        color: styles.color,
         textAlign: styles.textAlign || 'left'
       })
     } catch (error) {
@@ -371,19 +474,6 @@ export class ProfessionalCanvasBuilder {
     }
   }
 
-  /**
-   * Professional parent-child relationship management
-   */
-  private async appendToParent(child: any, parent: any): Promise<void> {
-    try {
-      // This would use Framer's proper parent-child API
-      // Implementation depends on specific Framer API methods
-      console.log('Adding child to parent:', child, parent)
-    } catch (error) {
-      console.warn('Parent-child relationship failed:', error)
-    }
-  }
-
   /**
    * Add professional background image
    */
@@ -402,22 +492,35 @@ export class ProfessionalCanvasBuilder {
   }
 
   /**
-   * Setup responsive breakpoints (following official plugin patterns)
+   * Whether the breakpoint frames still exist (a rolled back or undone build removes them)
    */
-  private async setupResponsiveBreakpoints(
-    breakpoints = {
-      mobile: 375,
-      tablet: 768, 
-      desktop: 1200
-    }
-  ): Promise<void> {
-    try {
-      console.log('Setting up responsive breakpoints:', breakpoints)
-      // This would use Framer's breakpoint API
-      // Implementation depends on specific Framer responsive features
-    } catch (error) {
-      console.warn('Responsive breakpoint setup failed:', error)
+  async hasRootFrame(): Promise<boolean> {
+    if (this.frames.length === 0) return false
+
+    for (const { box } of this.frames) {
+      const node = await framer.getNode(box.node.id).catch(() => null)
+      if (!node) {
+        this.frames = []
+        this.currentSection = null
+        return false
+      }
     }
+    return true
+  }
+
+  /**
+   * Whether the current frames were built for this breakpoint set
+   */
+  matchesLayout(specs: LayoutSpecs = {}): boolean {
+    const breakpoints = resolveBreakpoints(specs)
+    return breakpoints.length === this.frames.length && breakpoints.every((breakpoint, index) => {
+      const current = this.frames[index].breakpoint
+      return current.name === breakpoint.name &&
+        current.width === breakpoint.width &&
+        current.columns === breakpoint.columns &&
+        current.fontScale === breakpoint.fontScale &&
+        current.paddingScale === breakpoint.paddingScale
+    })
   }
 
   /**
@@ -425,7 +528,8 @@ export class ProfessionalCanvasBuilder {
    */
   getCanvasState() {
     return {
-      rootFrame: this.rootFrame,
+      rootFrame: this.frames[0]?.box.node || null,
+      breakpoints: this.frames.map(({ breakpoint, box }) => ({ ...breakpoint, frameId: box.node.id })),
       currentSection: this.currentSection,
       hasPermissions: has('createFrameNode', 'Node.setAttributes', 'addSVG')
     }
@@ -0,0 +1,269 @@
+/**
+ * Framium - Rule Conditions
+ * Typed condition language deciding when a custom rule applies to a request
+ * Conditions are stored as JSON on the rule, validated with zod and evaluated locally
+ */
+
+import { z } from 'zod'
+
+export type RuleRequestType = 'chat' | 'canvas' | 'website' | 'section' | 'component'
+
+export interface RuleSelectionItem {
+  // Frame, Text, SVG, Component or Layer (see canvasContext.getNodeType)
+  type: string
+  name: string
+}
+
+// Everything a condition can look at
+export interface RuleContext {
+  mode: 'ask' | 'agent'
+  requestType: RuleRequestType
+  model?: string
+  provider?: string
+  selection: RuleSelectionItem[]
+  prompt?: string
+  // Extensions of the files the request produces, e.g. .tsx; unset when unknown
+  fileTypes?: string[]
+}
+
+export type RuleCondition =
+  | { type: 'all'; conditions: RuleCondition[] }
+  | { type: 'any'; conditions: RuleCondition[] }
+  | { type: 'not'; condition: RuleCondition }
+  | { type: 'mode'; value: 'ask' | 'agent' }
+  | { type: 'model'; pattern: string }
+  | { type: 'provider'; value: string }
+  | { type: 'selection'; value: string }
+  | { type: 'nodeName'; pattern: string }
+  | { type: 'requestType'; value: RuleRequestType }
+  | { type: 'keywords'; value: string[] }
+  | { type: 'regex'; pattern: string; flags?: string }
+
+// Comma-separated lists from the original rule editor, plus an optional condition
+export interface RuleConditions {
+  fileTypes?: string[]
+  contexts?: string[]
+  match?: RuleCondition
+}
+
+export interface ConditionResult {
+  matched: boolean
+  // One line per condition checked, indented by nesting depth
+  trace: string[]
+}
+
+const SELECTION_TYPES = ['Frame', 'Text', 'SVG', 'Component', 'Layer', 'none'] as const
+const REQUEST_TYPES = ['chat', 'canvas', 'website', 'section', 'component'] as const
+
+export const ruleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() => z.union([
+  z.object({ type: z.literal('all'), conditions: z.array(ruleConditionSchema).min(1) }),
+  z.object({ type: z.literal('any'), conditions: z.array(ruleConditionSchema).min(1) }),
+  z.object({ type: z.literal('not'), condition: ruleConditionSchema }),
+  z.object({ type: z.literal('mode'), value: z.enum(['ask', 'agent']) }),
+  // Glob on the model ID, e.g. "claude-*"
+  z.object({ type: z.literal('model'), pattern: z.string().min(1) }),
+  z.object({ type: z.literal('provider'), value: z.string().min(1) }),
+  // "none" matches an empty selection
+  z.object({ type: z.literal('selection'), value: z.enum(SELECTION_TYPES) }),
+  // Glob on the names of selected layers, e.g. "Button/*"
+  z.object({ type: z.literal('nodeName'), pattern: z.string().min(1) }),
+  z.object({ type: z.literal('requestType'), value: z.enum(REQUEST_TYPES) }),
+  // Matches if the prompt contains any of the words
+  z.object({ type: z.literal('keywords'), value: z.array(z.string().min(1)).min(1) }),
+  z.object({
+    type: z.literal('regex'),
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are supported').optional()
+  }).refine(({ pattern, flags }) => isValidRegex(pattern, flags), 'Invalid regular expression')
+]))
+
+/**
+ * Parse a condition typed into the rule editor. Empty input means no condition.
+ */
+export function parseRuleCondition(json: string): { condition?: RuleCondition; error?: string } {
+  if (!json.trim()) return {}
+
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    return { error: `Invalid JSON: ${(error as Error).message}` }
+  }
+
+  const parsed = ruleConditionSchema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { error: `${issue.path.join('.') || 'condition'}: ${issue.message}` }
+  }
+
+  return { condition: parsed.data }
+}
+
+/**
+ * Evaluate all of a rule's conditions against a request. Every condition that
+ * is set has to match; a rule without conditions always matches.
+ */
+export function evaluateRuleConditions(conditions: RuleConditions | undefined, context: RuleContext): ConditionResult {
+  const trace: string[] = []
+  let matched = true
+
+  const contexts = conditions?.contexts?.map(normalize) || []
+  if (contexts.length > 0) {
+    const tags = getContextTags(context)
+    const contextMatched = contexts.some(tag => tags.includes(tag))
+    trace.push(`${mark(contextMatched)} contexts include one of ${tags.join(', ')}`)
+    matched = matched && contextMatched
+  }
+
+  const fileTypes = conditions?.fileTypes?.map(normalizeFileType) || []
+  if (fileTypes.length > 0 && !context.fileTypes) {
+    // Requests that don't say what they produce are judged by the other conditions
+    trace.push('✓ file types skipped, unknown for this request')
+  } else if (fileTypes.length > 0 && context.fileTypes) {
+    const requestFileTypes = context.fileTypes.map(normalizeFileType)
+    const fileTypeMatched = fileTypes.some(fileType => requestFileTypes.includes(fileType))
+    trace.push(`${mark(fileTypeMatched)} file types include one of ${requestFileTypes.join(', ') || '(none)'}`)
+    matched = matched && fileTypeMatched
+  }
+
+  if (conditions?.match) {
+    // Stored conditions are validated again in case they were edited elsewhere
+    const parsed = ruleConditionSchema.safeParse(conditions.match)
+    if (parsed.success) {
+      const result = evaluateCondition(parsed.data, context)
+      trace.push(...result.trace)
+      matched = matched && result.matched
+    } else {
+      trace.push(`✗ condition is invalid: ${parsed.error.issues[0].message}`)
+      matched = false
+    }
+  }
+
+  if (trace.length === 0) trace.push('✓ no conditions, always applies')
+  return { matched, trace }
+}
+
+export function evaluateCondition(condition: RuleCondition, context: RuleContext, depth = 0): ConditionResult {
+  const indent = '  '.repeat(depth)
+
+  switch (condition.type) {
+    case 'all':
+    case 'any': {
+      const results = condition.conditions.map(child => evaluateCondition(child, context, depth + 1))
+      const matched = condition.type === 'all'
+        ? results.every(result => result.matched)
+        : results.some(result => result.matched)
+      return {
+        matched,
+        trace: [`${indent}${mark(matched)} ${condition.type} of:`, ...results.flatMap(result => result.trace)]
+      }
+    }
+    case 'not': {
+      const result = evaluateCondition(condition.condition, context, depth + 1)
+      return { matched: !result.matched, trace: [`${indent}${mark(!result.matched)} not:`, ...result.trace] }
+    }
+    default: {
+      const matched = matchesLeaf(condition, context)
+      return { matched, trace: [`${indent}${mark(matched)} ${describeCondition(condition)}`] }
+    }
+  }
+}
+
+/**
+ * One-line summary for rule lists and test results
+ */
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case 'all':
+    case 'any':
+      return `${condition.type}(${condition.conditions.map(describeCondition).join(', ')})`
+    case 'not':
+      return `not ${describeCondition(condition.condition)}`
+    case 'mode':
+      return `mode is ${condition.value}`
+    case 'model':
+      return `model matches ${condition.pattern}`
+    case 'provider':
+      return `provider is ${condition.value}`
+    case 'selection':
+      return condition.value === 'none' ? 'nothing selected' : `a ${condition.value} is selected`
+    case 'nodeName':
+      return `a selected layer is named ${condition.pattern}`
+    case 'requestType':
+      return `request is a ${condition.value}`
+    case 'keywords':
+      return `prompt mentions ${condition.value.join(' or ')}`
+    case 'regex':
+      return `prompt matches /${condition.pattern}/${condition.flags || ''}`
+  }
+}
+
+function matchesLeaf(condition: RuleCondition, context: RuleContext): boolean {
+  const prompt = context.prompt || ''
+
+  switch (condition.type) {
+    case 'mode':
+      return context.mode === condition.value
+    case 'model':
+      return Boolean(context.model) && globToRegex(condition.pattern).test(context.model!)
+    case 'provider':
+      return normalize(context.provider || '') === normalize(condition.value)
+    case 'selection':
+      return condition.value === 'none'
+        ? context.selection.length === 0
+        : context.selection.some(item => item.type === condition.value)
+    case 'nodeName': {
+      const pattern = globToRegex(condition.pattern)
+      return context.selection.some(item => pattern.test(item.name))
+    }
+    case 'requestType':
+      return context.requestType === condition.value
+    case 'keywords': {
+      const text = prompt.toLowerCase()
+      return condition.value.some(keyword => text.includes(keyword.toLowerCase()))
+    }
+    case 'regex':
+      return isValidRegex(condition.pattern, condition.flags) && new RegExp(condition.pattern, condition.flags).test(prompt)
+    default:
+      return false
+  }
+}
+
+// Words the legacy contexts condition can use: the mode, the request type and
+// the kinds of layers selected
+export function getContextTags(context: RuleContext): string[] {
+  const tags = [context.mode, context.requestType, ...context.selection.map(item => normalize(item.type))]
+  if (context.selection.length > 0) tags.push('selection')
+  return Array.from(new Set(tags))
+}
+
+// * matches any run of characters, ? a single one; case-insensitive
+function globToRegex(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+function isValidRegex(pattern: string, flags?: string): boolean {
+  try {
+    new RegExp(pattern, flags)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function mark(matched: boolean): string {
+  return matched ? '✓' : '✗'
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+function normalizeFileType(fileType: string): string {
+  const normalized = normalize(fileType)
+  return normalized.startsWith('.') ? normalized : `.${normalized}`
+}
@@ -0,0 +1,149 @@
+/**
+ * Framium - Rules Resolver
+ * Picks the user's rules that apply to a request and merges them into the system prompt
+ * Every rule that makes it into a prompt is recorded with RulesService.logRuleExecution
+ */
+
+import { RulesService, Rule } from './rulesService'
+import { evaluateRuleConditions, getContextTags, RuleContext, RuleRequestType } from './ruleConditions'
+
+export interface ResolvedRules {
+  context: RuleContext
+  // Rules merged into the prompt, highest priority first
+  applied: Rule[]
+  // Rules that matched but did not fit in the token budget
+  skipped: Rule[]
+  prompt: string
+  tokens: number
+}
+
+export interface RuleApplicationResult {
+  input: string
+  output: string
+  executionTimeMs: number
+  success: boolean
+  error?: string
+}
+
+// Rule text shouldn't crowd out the conversation
+const DEFAULT_TOKEN_BUDGET = 1000
+
+// Enough of the response to see what the rules changed
+const MAX_LOGGED_OUTPUT = 2000
+
+/**
+ * Find the rules for a request and merge them by priority (higher first)
+ * into a prompt section no larger than the token budget
+ */
+export async function resolveRules(
+  context: RuleContext,
+  tokenBudget = DEFAULT_TOKEN_BUDGET
+): Promise<ResolvedRules> {
+  const matching = await getMatchingRules(context)
+  const sorted = [...matching].sort((a, b) => b.priority - a.priority)
+
+  const applied: Rule[] = []
+  const skipped: Rule[] = []
+  let tokens = 0
+
+  for (const rule of sorted) {
+    const ruleTokens = estimateTokens(formatRule(rule))
+    if (tokens + ruleTokens > tokenBudget) {
+      skipped.push(rule)
+      continue
+    }
+    applied.push(rule)
+    tokens += ruleTokens
+  }
+
+  if (skipped.length > 0) {
+    console.warn(`Rule budget of ${tokenBudget} tokens reached, skipped:`, skipped.map(rule => rule.name))
+  }
+
+  return {
+    context,
+    applied,
+    skipped,
+    prompt: applied.map(formatRule).join('\n'),
+    tokens
+  }
+}
+
+/**
+ * Append the resolved rules to a system prompt
+ */
+export function withRules(systemPrompt: string, rules: ResolvedRules): string {
+  if (!rules.prompt) return systemPrompt
+  return `${systemPrompt}
+
+User rules (always follow these; earlier rules take precedence):
+${rules.prompt}`
+}
+
+/**
+ * Record that each applied rule shaped this request. Logging failures are
+ * swallowed by RulesService, so this never breaks the request.
+ */
+export async function logRuleApplications(rules: ResolvedRules, result: RuleApplicationResult): Promise<void> {
+  const output = result.output.slice(0, MAX_LOGGED_OUTPUT)
+
+  await Promise.all(rules.applied.map(rule => RulesService.logRuleExecution(
+    rule.id,
+    { ...rules.context, appliedWith: rules.applied.map(applied => applied.id) },
+    result.input,
+    output,
+    estimateTokens(formatRule(rule)),
+    result.executionTimeMs,
+    result.success,
+    result.error
+  )))
+}
+
+/**
+ * Whether an enabled rule's conditions match the context
+ */
+export function ruleMatchesContext(rule: Rule, context: RuleContext): boolean {
+  return rule.enabled && evaluateRuleConditions(rule.conditions, context).matched
+}
+
+/**
+ * Best guess at what a chat message asks for, for requestType conditions
+ */
+export function inferRequestType(prompt: string, mode: RuleContext['mode']): RuleRequestType {
+  const text = prompt.toLowerCase()
+  if (/\b(website|landing page|site|homepage)\b/.test(text)) return 'website'
+  if (/\b(section|hero|footer|header|pricing|testimonials)\b/.test(text)) return 'section'
+  if (/\b(component|button|card|navbar|modal|form)\b/.test(text)) return 'component'
+  return mode === 'agent' ? 'canvas' : 'chat'
+}
+
+/**
+ * Files a request produces, for fileTypes conditions. Only component requests
+ * are known to produce code (Framer code components); for anything else the
+ * file types are unknown and rules are judged by their other conditions.
+ */
+export function inferFileTypes(requestType: RuleRequestType): string[] | undefined {
+  return requestType === 'component' ? ['.tsx'] : undefined
+}
+
+async function getMatchingRules(context: RuleContext): Promise<Rule[]> {
+  const contextData = { ...context, tags: getContextTags(context) }
+  const active = await RulesService.getActiveRulesForContext(contextData)
+
+  // The RPC only knows the legacy conditions, so typed conditions are always
+  // checked here; without the RPC every condition is
+  if (active) {
+    return active.filter(rule => !rule.conditions?.match || ruleMatchesContext(rule, context))
+  }
+
+  const rules = await RulesService.getRules()
+  return rules.filter(rule => ruleMatchesContext(rule, context))
+}
+
+function formatRule(rule: Rule): string {
+  return `- ${rule.name}: ${rule.prompt.trim()}`
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
@@ -1,4 +1,8 @@
 import { db, auth } from '../lib/supabase'
+import type { Database, Json } from '../types/supabase'
+import type { RuleConditions } from './ruleConditions'
+import { migrateWorkflowSteps, WorkflowStep, WorkflowStepKind } from './workflowSteps'
+import { sanitizeWorkflowForPublishing, WorkflowAttribution } from './workflowMarketplace'
 
 export interface Rule {
   id: string
@@ -8,10 +12,7 @@ export interface Rule {
   category: 'general' | 'coding' | 'ui-design' | 'workflow'
   enabled: boolean
   priority: number
-  conditions?: {
-    fileTypes?: string[]
-    contexts?: string[]
-  }
+  conditions?: RuleConditions
   created_at?: string
   updated_at?: string
 }
@@ -20,15 +21,52 @@ export interface WorkflowTemplate {
   id: string
   name: string
   description: string
-  steps: string[]
+  steps: WorkflowStep[]
   category: 'component' | 'animation' | 'layout' | 'integration'
   enabled: boolean
+  // Public workflows are gallery listings, copies published from a private workflow
   is_public?: boolean
   usage_count?: number
+  // The gallery listing this workflow was forked from
+  forked_from?: WorkflowAttribution
   created_at?: string
   updated_at?: string
 }
 
+export interface PublishResult {
+  listing: WorkflowTemplate
+  // Private data left out of the listing
+  removed: string[]
+}
+
+export type WorkflowExecutionStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+
+export interface WorkflowStepResult {
+  step: number
+  // Missing on runs saved before steps were typed, which were all prompts
+  kind?: WorkflowStepKind
+  instruction: string
+  output: string
+  // Variable the step saved its result to, with the value read back on resume
+  variable?: string
+  value?: unknown
+  tokens: number
+  completed_at: string
+}
+
+export interface WorkflowExecution {
+  id: string
+  workflow_id: string
+  status: WorkflowExecutionStatus
+  // Index of the next step to run
+  current_step: number
+  step_results: WorkflowStepResult[]
+  total_tokens_used: number
+  started_at?: string
+  completed_at?: string
+  error_message?: string
+}
+
 export interface FineTuningProject {
   id: string
   name: string
@@ -90,7 +128,7 @@ export class RulesService {
         category,
         enabled: true,
         priority,
-        conditions: conditions || null
+        conditions: (conditions || null) as Json
       })
 
       if (error) throw new Error(error.message)
@@ -110,7 +148,7 @@ export class RulesService {
         category: updates.category,
         enabled: updates.enabled,
         priority: updates.priority,
-        conditions: updates.conditions || null
+        conditions: (updates.conditions || null) as Json
       })
 
       if (error) throw new Error(error.message)
@@ -143,6 +181,27 @@ export class RulesService {
     }
   }
 
+  /**
+   * Enabled rules whose conditions match the context, as decided by the
+   * get_active_rules_for_context RPC. Returns null when the RPC is unavailable
+   * so callers can evaluate conditions themselves.
+   */
+  static async getActiveRulesForContext(context: Record<string, unknown>): Promise<Rule[] | null> {
+    try {
+      const { user } = await auth.getUser()
+      if (!user) return []
+
+      const { data, error } = await db.customRules.getActiveForContext(user.id, context as Json)
+      if (error) throw new Error(error.message)
+
+      // The RPC only returns enabled rules, so it leaves the column out
+      return (data || []).map(rule => this.transformRuleFromDB({ ...rule, enabled: true }))
+    } catch (error) {
+      console.warn('Active rules lookup failed:', error)
+      return null
+    }
+  }
+
   // ==================== WORKFLOWS MANAGEMENT ====================
 
   static async getWorkflows(): Promise<WorkflowTemplate[]> {
@@ -170,7 +229,7 @@ export class RulesService {
   static async createWorkflow(
     name: string,
     description: string,
-    steps: string[],
+    steps: WorkflowStep[],
     category: WorkflowTemplate['category']
   ): Promise<WorkflowTemplate | null> {
     try {
@@ -181,7 +240,7 @@ export class RulesService {
         user_id: user.id,
         name,
         description,
-        steps: steps,
+        steps: steps as unknown as Json,
         category,
         enabled: true,
         is_public: false,
@@ -201,7 +260,7 @@ export class RulesService {
       const { data, error } = await db.workflowTemplates.update(workflowId, {
         name: updates.name,
         description: updates.description,
-        steps: updates.steps,
+        steps: updates.steps as unknown as Json | undefined,
         category: updates.category,
         enabled: updates.enabled,
         is_public: updates.is_public
@@ -237,6 +296,160 @@ export class RulesService {
     }
   }
 
+  // ==================== WORKFLOW MARKETPLACE ====================
+
+  static async getPublicWorkflows(): Promise<WorkflowTemplate[]> {
+    try {
+      const { data, error } = await db.workflowTemplates.getPublicWorkflows()
+      if (error) throw new Error(error.message)
+
+      return (data || []).map(this.transformWorkflowFromDB)
+    } catch (error) {
+      console.error('Failed to get public workflows:', error)
+      return []
+    }
+  }
+
+  /**
+   * Publish a copy of the workflow without private data, replacing the
+   * author's earlier listing of the same name
+   */
+  static async publishWorkflow(workflow: WorkflowTemplate): Promise<PublishResult | null> {
+    try {
+      const { user } = await auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+
+      const sanitized = sanitizeWorkflowForPublishing(workflow)
+      const { data: ownWorkflows, error: listError } = await db.workflowTemplates.getUserWorkflows(user.id)
+      if (listError) throw new Error(listError.message)
+
+      const existing = (ownWorkflows || []).find(row => row.is_public && row.name === sanitized.name)
+      const listing = {
+        name: sanitized.name,
+        description: sanitized.description,
+        steps: sanitized.steps as unknown as Json,
+        category: workflow.category,
+        enabled: true,
+        is_public: true,
+        // A listing of a fork keeps crediting the original
+        forked_from: (workflow.forked_from ?? null) as unknown as Json
+      }
+
+      const { data, error } = existing
+        ? await db.workflowTemplates.update(existing.id, { ...listing, updated_at: new Date().toISOString() })
+        : await db.workflowTemplates.create({ ...listing, user_id: user.id, usage_count: 0 })
+
+      if (error) throw new Error(error.message)
+      return data ? { listing: this.transformWorkflowFromDB(data), removed: sanitized.removed } : null
+    } catch (error) {
+      console.error('Failed to publish workflow:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Copy a gallery listing into the user's workflows, crediting the listing.
+   * Forking counts as a use of the listing.
+   */
+  static async forkWorkflow(listing: WorkflowTemplate): Promise<WorkflowTemplate | null> {
+    try {
+      const { user } = await auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+
+      const { data, error } = await db.workflowTemplates.create({
+        user_id: user.id,
+        name: listing.name,
+        description: listing.description,
+        steps: listing.steps as unknown as Json,
+        category: listing.category,
+        enabled: true,
+        is_public: false,
+        usage_count: 0,
+        forked_from: { workflowId: listing.id, name: listing.name }
+      })
+
+      if (error) throw new Error(error.message)
+      await this.incrementWorkflowUsage(listing.id)
+      return data ? this.transformWorkflowFromDB(data) : null
+    } catch (error) {
+      console.error('Failed to fork workflow:', error)
+      throw error
+    }
+  }
+
+  // ==================== WORKFLOW EXECUTIONS ====================
+
+  static async createWorkflowExecution(workflowId: string): Promise<WorkflowExecution | null> {
+    try {
+      const { user } = await auth.getUser()
+      if (!user) throw new Error('User not authenticated')
+
+      const { data, error } = await db.workflowExecutions.create({
+        user_id: user.id,
+        workflow_id: workflowId,
+        status: 'running',
+        current_step: 0,
+        step_results: [],
+        total_tokens_used: 0,
+        started_at: new Date().toISOString()
+      })
+
+      if (error) throw new Error(error.message)
+      return data ? this.transformExecutionFromDB(data) : null
+    } catch (error) {
+      console.error('Failed to create workflow execution:', error)
+      throw error
+    }
+  }
+
+  static async updateWorkflowExecution(
+    executionId: string,
+    updates: Partial<Omit<WorkflowExecution, 'id' | 'workflow_id'>>
+  ): Promise<WorkflowExecution | null> {
+    try {
+      const { data, error } = await db.workflowExecutions.update(executionId, {
+        status: updates.status,
+        current_step: updates.current_step,
+        step_results: updates.step_results as Json | undefined,
+        total_tokens_used: updates.total_tokens_used,
+        completed_at: updates.completed_at,
+        error_message: updates.error_message
+      })
+
+      if (error) throw new Error(error.message)
+      return data ? this.transformExecutionFromDB(data) : null
+    } catch (error) {
+      console.error('Failed to update workflow execution:', error)
+      throw error
+    }
+  }
+
+  static async getWorkflowExecutions(limit: number = 20): Promise<WorkflowExecution[]> {
+    try {
+      const { user } = await auth.getUser()
+      if (!user) return []
+
+      const { data, error } = await db.workflowExecutions.getUserExecutions(user.id, limit)
+      if (error) throw new Error(error.message)
+
+      return (data || []).map(this.transformExecutionFromDB)
+    } catch (error) {
+      console.error('Failed to get workflow executions:', error)
+      return []
+    }
+  }
+
+  static async incrementWorkflowUsage(workflowId: string): Promise<boolean> {
+    try {
+      const { data, error } = await db.workflowTemplates.incrementUsage(workflowId)
+      if (error) throw new Error(error.message)
+      return Boolean(data)
+    } catch (error) {
+      console.error('Failed to increment workflow usage:', error)
+      return false
+    }
+  }
+
   // ==================== FINE-TUNING MANAGEMENT ====================
 
   static async getFineTuningProjects(): Promise<FineTuningProject[]> {
@@ -383,16 +596,31 @@ export class RulesService {
       id: dbWorkflow.id,
       name: dbWorkflow.name,
       description: dbWorkflow.description || '',
-      steps: Array.isArray(dbWorkflow.steps) ? dbWorkflow.steps : JSON.parse(dbWorkflow.steps || '[]'),
+      steps: migrateWorkflowSteps(dbWorkflow.steps),
       category: dbWorkflow.category || 'component',
       enabled: dbWorkflow.enabled ?? true,
       is_public: dbWorkflow.is_public ?? false,
       usage_count: dbWorkflow.usage_count || 0,
+      forked_from: dbWorkflow.forked_from || undefined,
       created_at: dbWorkflow.created_at,
       updated_at: dbWorkflow.updated_at
     }
   }
 
+  private static transformExecutionFromDB(dbExecution: Database['public']['Tables']['workflow_executions']['Row']): WorkflowExecution {
+    return {
+      id: dbExecution.id,
+      workflow_id: dbExecution.workflow_id,
+      status: (dbExecution.status || 'running') as WorkflowExecutionStatus,
+      current_step: dbExecution.current_step || 0,
+      step_results: Array.isArray(dbExecution.step_results) ? dbExecution.step_results as unknown as WorkflowStepResult[] : [],
+      total_tokens_used: dbExecution.total_tokens_used || 0,
+      started_at: dbExecution.started_at ?? undefined,
+      completed_at: dbExecution.completed_at ?? undefined,
+      error_message: dbExecution.error_message ?? undefined
+    }
+  }
+
   private static transformFineTuningFromDB(dbProject: any): FineTuningProject {
     return {
       id: dbProject.id,
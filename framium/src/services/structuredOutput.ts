@@ -0,0 +1,45 @@
+/**
+ * Framium - Structured Output
+ * Reads JSON objects out of raw model text and reports where they fail a schema
+ * Used by generateStructuredData to repair output and to tell the model what to fix
+ */
+
+import { z } from 'zod'
+
+export interface StructuredDataIssue {
+  path: string
+  message: string
+}
+
+/**
+ * Strip markdown fences and surrounding prose, leaving the JSON. Returns null
+ * if the text contains no object or array.
+ */
+export function extractJsonText(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (fenced) return fenced[1].trim()
+
+  const start = text.search(/[{[]/)
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'))
+  return start >= 0 && end > start ? text.slice(start, end + 1) : null
+}
+
+/**
+ * List the schema paths that a raw model response fails to satisfy
+ */
+export function validateStructuredText<T>(text: string, schema: z.ZodSchema<T>): StructuredDataIssue[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(extractJsonText(text) ?? text)
+  } catch (parseError) {
+    return [{ path: '(root)', message: `Invalid JSON (${(parseError as Error).message})` }]
+  }
+
+  const result = schema.safeParse(parsed)
+  if (result.success) return []
+
+  return result.error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message
+  }))
+}
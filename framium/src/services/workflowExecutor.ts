@@ -0,0 +1,442 @@
+/**
+ * Framium - Workflow Executor
+ * Runs a workflow template's typed steps in order, following branches and pausing for approvals
+ * Progress is saved to workflow_executions after every step so runs can be paused and resumed
+ */
+
+import { framer } from 'framer-plugin'
+import { generateAIResponse, generateStructuredData } from './aiService'
+import { RulesService, WorkflowExecution, WorkflowStepResult, WorkflowTemplate } from './rulesService'
+import { nodeAttributesSchema } from './canvasTools'
+import {
+  CanvasActionType,
+  END_OF_WORKFLOW,
+  PREVIOUS_OUTPUT_VARIABLE,
+  WorkflowStep,
+  buildExtractSchema,
+  describeStep,
+  evaluateBranch,
+  formatValue,
+  renderTemplate
+} from './workflowSteps'
+import {
+  addComponentToCanvas,
+  addSVGToCanvas,
+  createCodeFile,
+  createFrameNode,
+  duplicateNode,
+  removeNodes,
+  updateNodeAttributes
+} from './mutateCanvas'
+
+export interface WorkflowRun {
+  execution: WorkflowExecution
+  workflow: WorkflowTemplate
+  modelId: string
+  // A step's model call is in flight
+  stepRunning: boolean
+}
+
+interface RunState extends WorkflowRun {
+  controller: AbortController | null
+  // Bumped by pause and cancel so a step that finishes afterwards is discarded
+  generation: number
+  // Approval step the user just approved by resuming
+  approvedStep: number | null
+}
+
+interface StepOutcome {
+  output: string
+  // Saved to the step's variable instead of the output text, e.g. extracted objects
+  value?: unknown
+  tokens: number
+  // Index of the step to run next, set by branches
+  next?: number
+}
+
+// Earlier results are trimmed so long workflows stay within the context window
+const MAX_PREVIOUS_OUTPUT_CHARS = 4000
+
+// Branches can loop; this stops a loop that never exits
+const MAX_STEP_RUNS = 100
+
+const runs = new Map<string, RunState>()
+const listeners = new Set<(runs: WorkflowRun[]) => void>()
+
+function notifyListeners(): void {
+  const snapshot = getWorkflowRuns()
+  listeners.forEach(listener => listener(snapshot))
+}
+
+/**
+ * Create an execution record and start running the workflow's steps in the
+ * background. Progress is reported through subscribeToWorkflowRuns.
+ */
+export async function startWorkflow(workflow: WorkflowTemplate, modelId: string): Promise<WorkflowRun> {
+  if (workflow.steps.length === 0) {
+    throw new Error('This workflow has no steps')
+  }
+
+  const execution = await RulesService.createWorkflowExecution(workflow.id)
+  if (!execution) {
+    throw new Error('Could not create workflow execution')
+  }
+
+  const run: RunState = {
+    execution,
+    workflow,
+    modelId,
+    stepRunning: false,
+    controller: null,
+    generation: 0,
+    approvedStep: null
+  }
+  runs.set(execution.id, run)
+  notifyListeners()
+
+  void runSteps(run)
+  return toWorkflowRun(run)
+}
+
+/**
+ * Stop after aborting the step in flight; resuming runs that step again
+ */
+export async function pauseWorkflow(executionId: string): Promise<void> {
+  const run = runs.get(executionId)
+  if (!run || run.execution.status !== 'running') return
+
+  interrupt(run)
+  await saveProgress(run, { status: 'paused' })
+}
+
+/**
+ * Continue a paused run. Resuming at an approval step approves it.
+ */
+export async function resumeWorkflow(executionId: string): Promise<void> {
+  const run = runs.get(executionId)
+  if (!run || run.execution.status !== 'paused') return
+
+  if (isAwaitingApproval(run)) run.approvedStep = run.execution.current_step
+  await saveProgress(run, { status: 'running', error_message: undefined })
+  void runSteps(run)
+}
+
+export async function cancelWorkflow(executionId: string): Promise<void> {
+  const run = runs.get(executionId)
+  if (!run || (run.execution.status !== 'running' && run.execution.status !== 'paused')) return
+
+  interrupt(run)
+  await saveProgress(run, { status: 'cancelled', completed_at: new Date().toISOString() })
+}
+
+/**
+ * Load recent executions so their progress shows and interrupted runs can be
+ * resumed. A run still marked running belonged to a closed plugin session.
+ */
+export async function restoreWorkflowRuns(workflows: WorkflowTemplate[], modelId: string): Promise<void> {
+  const executions = await RulesService.getWorkflowExecutions()
+
+  for (const execution of executions) {
+    const workflow = workflows.find(workflow => workflow.id === execution.workflow_id)
+    if (!workflow || runs.has(execution.id)) continue
+
+    const interrupted = execution.status === 'running'
+    runs.set(execution.id, {
+      execution: interrupted ? { ...execution, status: 'paused' } : execution,
+      workflow,
+      modelId,
+      stepRunning: false,
+      controller: null,
+      generation: 0,
+      approvedStep: null
+    })
+  }
+
+  notifyListeners()
+}
+
+/**
+ * Runs started or restored in this session, newest first
+ */
+export function getWorkflowRuns(): WorkflowRun[] {
+  return Array.from(runs.values())
+    .map(toWorkflowRun)
+    .sort((a, b) => (b.execution.started_at || '').localeCompare(a.execution.started_at || ''))
+}
+
+export function isAwaitingApproval(run: WorkflowRun): boolean {
+  return run.execution.status === 'paused' &&
+    run.workflow.steps[run.execution.current_step]?.kind === 'userApproval'
+}
+
+/**
+ * The approval step's message with the run's variables filled in
+ */
+export function getApprovalMessage(run: WorkflowRun): string {
+  const step = run.workflow.steps[run.execution.current_step]
+  return step?.kind === 'userApproval' ? renderTemplate(step.message, collectVariables(run.execution.step_results)) : ''
+}
+
+export function subscribeToWorkflowRuns(listener: (runs: WorkflowRun[]) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+async function runSteps(run: RunState): Promise<void> {
+  const generation = run.generation
+  const { workflow } = run
+
+  while (
+    generation === run.generation &&
+    run.execution.status === 'running' &&
+    run.execution.current_step < workflow.steps.length
+  ) {
+    const index = run.execution.current_step
+    const step = workflow.steps[index]
+
+    if (run.execution.step_results.length >= MAX_STEP_RUNS) {
+      await failRun(run, index, `Stopped after ${MAX_STEP_RUNS} steps, check the branches for a loop`)
+      return
+    }
+
+    if (step.kind === 'userApproval' && run.approvedStep !== index) {
+      await saveProgress(run, { status: 'paused' })
+      framer.notify(`⏸️ Workflow "${workflow.name}" is waiting for your approval`)
+      return
+    }
+    run.approvedStep = null
+
+    run.controller = new AbortController()
+    run.stepRunning = true
+    notifyListeners()
+
+    let outcome: StepOutcome
+    try {
+      outcome = await executeStep(run, step, index, run.controller.signal)
+    } catch (error) {
+      if (generation !== run.generation) return
+      run.controller = null
+      run.stepRunning = false
+      await failRun(run, index, (error as Error).message)
+      return
+    }
+
+    // Paused or cancelled while the step ran
+    if (generation !== run.generation) return
+
+    run.controller = null
+    run.stepRunning = false
+
+    const variable = 'output' in step ? step.output : undefined
+    const result: WorkflowStepResult = {
+      step: index,
+      kind: step.kind,
+      instruction: describeStep(step, workflow.steps),
+      output: outcome.output,
+      variable,
+      value: outcome.value,
+      tokens: outcome.tokens,
+      completed_at: new Date().toISOString()
+    }
+
+    await saveProgress(run, {
+      current_step: outcome.next ?? index + 1,
+      step_results: [...run.execution.step_results, result],
+      total_tokens_used: run.execution.total_tokens_used + outcome.tokens
+    })
+
+    // Paused, and possibly resumed by a new loop, while the progress saved
+    if (generation !== run.generation) return
+  }
+
+  if (generation !== run.generation || run.execution.status !== 'running') return
+
+  await saveProgress(run, { status: 'completed', completed_at: new Date().toISOString() })
+  await RulesService.incrementWorkflowUsage(workflow.id)
+  // Runs of a fork also count toward the gallery listing it came from
+  if (workflow.forked_from) await RulesService.incrementWorkflowUsage(workflow.forked_from.workflowId)
+  framer.notify(`✅ Workflow "${workflow.name}" completed`)
+}
+
+async function executeStep(run: RunState, step: WorkflowStep, index: number, abortSignal: AbortSignal): Promise<StepOutcome> {
+  const variables = collectVariables(run.execution.step_results)
+
+  switch (step.kind) {
+    case 'prompt': {
+      const response = await generateAIResponse(
+        [{ role: 'user', content: buildStepPrompt(run, index, renderTemplate(step.prompt, variables)) }],
+        run.modelId,
+        { temperature: 0.7, systemPrompt: buildStepSystemPrompt(run.workflow, index), abortSignal }
+      )
+      if (!response.success) throw new Error(response.error)
+      return { output: response.text || '', tokens: response.usage?.totalTokens || 0 }
+    }
+    case 'structuredExtract': {
+      const response = await generateStructuredData(
+        buildStepPrompt(run, index, renderTemplate(step.prompt, variables)),
+        buildExtractSchema(step.fields),
+        run.modelId,
+        { temperature: 0.3, systemPrompt: buildStepSystemPrompt(run.workflow, index), abortSignal }
+      )
+      if (!response.success || !response.object) throw new Error(response.error || 'Extraction failed')
+      return { output: formatValue(response.object), value: response.object, tokens: response.usage?.totalTokens || 0 }
+    }
+    case 'canvasAction': {
+      const params = Object.fromEntries(
+        Object.entries(step.params).map(([name, value]) => [name, renderTemplate(value, variables)])
+      )
+      return { output: await runCanvasAction(step.action, params), tokens: 0 }
+    }
+    case 'userApproval':
+      return { output: 'Approved', tokens: 0 }
+    case 'branch': {
+      const matched = evaluateBranch(step, variables)
+      const target = matched ? step.then : step.else
+      const next = !target ? index + 1
+        : target === END_OF_WORKFLOW ? run.workflow.steps.length
+        : run.workflow.steps.findIndex(candidate => candidate.id === target)
+      if (next < 0) throw new Error('The branch target no longer exists')
+
+      const destination = next >= run.workflow.steps.length ? 'the end' : `step ${next + 1}`
+      return { output: `${matched ? 'Condition met' : 'Condition not met'}, going to ${destination}`, tokens: 0, next }
+    }
+  }
+}
+
+/**
+ * Run a canvas action through the mutateCanvas helpers. Returns the new or
+ * changed layer's ID; the helpers return null when they fail.
+ */
+async function runCanvasAction(action: CanvasActionType, params: Record<string, string>): Promise<string> {
+  let nodeId: string | null | undefined
+
+  switch (action) {
+    case 'createFrame': {
+      const frame = await createFrameNode(Number(params.width) || 1200, Number(params.height) || 800, params.name || 'Frame')
+      nodeId = frame?.id
+      break
+    }
+    case 'addSVG': {
+      const svg = params.svg.match(/<svg[\s\S]*<\/svg>/i)?.[0]
+      if (!svg) throw new Error('No SVG markup to add')
+      nodeId = (await addSVGToCanvas(svg, params.name || 'Workflow SVG'))?.id
+      break
+    }
+    case 'addComponent':
+      nodeId = (await addComponentToCanvas(params.url.trim()))?.id
+      break
+    case 'createCodeFile': {
+      const code = params.code.match(/```(?:\w+)?\s*([\s\S]*?)```/)?.[1] ?? params.code
+      nodeId = (await createCodeFile(params.name.trim(), code.trim()))?.id
+      break
+    }
+    case 'updateNode': {
+      let data: unknown
+      try {
+        data = JSON.parse(params.attributes)
+      } catch {
+        throw new Error('Attributes must be a JSON object')
+      }
+      const attributes = nodeAttributesSchema.safeParse(data)
+      if (!attributes.success) {
+        const issue = attributes.error.issues[0]
+        throw new Error(`${issue.path.join('.') || 'attributes'}: ${issue.message}`)
+      }
+      nodeId = await updateNodeAttributes(params.nodeId.trim(), attributes.data) ? params.nodeId.trim() : null
+      break
+    }
+    case 'duplicateNode':
+      nodeId = (await duplicateNode(params.nodeId.trim()))?.id
+      break
+    case 'removeNodes': {
+      const nodeIds = params.nodeIds.split(',').map(id => id.trim()).filter(Boolean)
+      nodeId = await removeNodes(nodeIds) ? nodeIds.join(', ') : null
+      break
+    }
+  }
+
+  if (!nodeId) throw new Error(`The canvas action didn't complete`)
+  return nodeId
+}
+
+// Variables set so far; later results overwrite earlier ones, so loops see
+// their latest values
+function collectVariables(results: WorkflowStepResult[]): Record<string, unknown> {
+  const variables: Record<string, unknown> = {}
+  for (const result of results) {
+    const value = result.value ?? result.output
+    if (result.variable) variables[result.variable] = value
+    variables[PREVIOUS_OUTPUT_VARIABLE] = value
+  }
+  return variables
+}
+
+async function failRun(run: RunState, index: number, message: string): Promise<void> {
+  await saveProgress(run, {
+    status: 'failed',
+    error_message: `Step ${index + 1} failed: ${message}`,
+    completed_at: new Date().toISOString()
+  })
+  framer.notify(`❌ Workflow "${run.workflow.name}" failed at step ${index + 1}`)
+}
+
+function interrupt(run: RunState): void {
+  run.generation++
+  run.controller?.abort()
+  run.controller = null
+  run.stepRunning = false
+}
+
+/**
+ * Apply the changes locally right away, then persist them. A failed write is
+ * logged but doesn't stop the run; the next step's write catches up.
+ */
+async function saveProgress(run: RunState, updates: Partial<Omit<WorkflowExecution, 'id' | 'workflow_id'>>): Promise<void> {
+  run.execution = { ...run.execution, ...updates }
+  notifyListeners()
+
+  try {
+    await RulesService.updateWorkflowExecution(run.execution.id, {
+      status: run.execution.status,
+      current_step: run.execution.current_step,
+      step_results: run.execution.step_results,
+      total_tokens_used: run.execution.total_tokens_used,
+      completed_at: run.execution.completed_at,
+      error_message: run.execution.error_message
+    })
+  } catch (error) {
+    console.warn('Saving workflow progress failed:', error)
+  }
+}
+
+function buildStepSystemPrompt(workflow: WorkflowTemplate, step: number): string {
+  return `You are Framium, running an automated workflow for a Framer designer and developer.
+
+Workflow: ${workflow.name}${workflow.description ? `\n${workflow.description}` : ''}
+
+You are on step ${step + 1} of ${workflow.steps.length}. Complete only this step, building on the results of the earlier steps. Return the step's result directly (code, copy, specs or a plan, whatever the step asks for) without repeating earlier results.`
+}
+
+// Model steps see what the earlier model steps produced, as the original
+// string workflows relied on
+function buildStepPrompt(run: RunState, index: number, instruction: string): string {
+  const previous = run.execution.step_results
+    .filter(result => !result.kind || result.kind === 'prompt' || result.kind === 'structuredExtract')
+    .map(result => {
+      const output = result.output.length > MAX_PREVIOUS_OUTPUT_CHARS
+        ? `${result.output.slice(0, MAX_PREVIOUS_OUTPUT_CHARS)}\n[truncated]`
+        : result.output
+      return `Step ${result.step + 1}: ${result.instruction}\nResult:\n${output}`
+    })
+    .join('\n\n')
+
+  return previous
+    ? `Results of the previous steps:\n\n${previous}\n\nNow do step ${index + 1}: ${instruction}`
+    : `Step ${index + 1}: ${instruction}`
+}
+
+function toWorkflowRun({ execution, workflow, modelId, stepRunning }: RunState): WorkflowRun {
+  return { execution, workflow, modelId, stepRunning }
+}
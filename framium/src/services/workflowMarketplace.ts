@@ -0,0 +1,137 @@
+/**
+ * Framium - Workflow Marketplace
+ * Prepares workflows for the public gallery
+ * Publishing makes a separate public copy with private data removed, so the original is untouched
+ */
+
+import type { WorkflowTemplate } from './rulesService'
+import { WorkflowStep, getTemplateReferences } from './workflowSteps'
+
+export type MarketplaceSort = 'usage' | 'newest' | 'name'
+
+export interface MarketplaceFilters {
+  search: string
+  category: WorkflowTemplate['category'] | 'all'
+  sort: MarketplaceSort
+}
+
+export interface WorkflowAttribution {
+  workflowId: string
+  name: string
+}
+
+export interface SanitizedWorkflow {
+  name: string
+  description: string
+  steps: WorkflowStep[]
+  // What was taken out, e.g. "Step 2: layer ID"
+  removed: string[]
+}
+
+const REMOVED = '[removed]'
+
+const SECRET_PATTERNS: { label: string; pattern: RegExp }[] = [
+  { label: 'API key', pattern: /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}\b/g },
+  { label: 'API key', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+  { label: 'access token', pattern: /\b(?:ghp|gho|github_pat|xox[abpr])[-_][A-Za-z0-9_-]{16,}\b/g },
+  { label: 'access token', pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+\b/g },
+  { label: 'access token', pattern: /\bBearer\s+[\w.~+/-]{16,}=*/g },
+  { label: 'URL credentials', pattern: /([?&](?:token|key|api_key|apikey|secret|signature|sig|auth|password)=)[^&\s"']+/gi },
+  { label: 'email address', pattern: /\b[\w.%+-]+@[\w.-]+\.[A-Za-z]{2,}\b/g }
+]
+
+// Layer IDs and component URLs only mean something in the author's project
+const PROJECT_PARAMS = ['nodeId', 'nodeIds', 'url']
+
+/**
+ * Copy a workflow with secrets, email addresses and project-specific layer IDs
+ * and component URLs removed. Params that come from variables are kept.
+ */
+export function sanitizeWorkflowForPublishing(workflow: WorkflowTemplate): SanitizedWorkflow {
+  const removed: string[] = []
+
+  const clean = (text: string, where: string): string => SECRET_PATTERNS.reduce((result, { label, pattern }) =>
+    result.replace(pattern, (match, prefix?: string) => {
+      removed.push(`${where}: ${label}`)
+      return typeof prefix === 'string' && match.startsWith(prefix) ? `${prefix}${REMOVED}` : REMOVED
+    }), text)
+
+  const steps = workflow.steps.map((step, index): WorkflowStep => {
+    const where = `Step ${index + 1}`
+
+    switch (step.kind) {
+      case 'prompt':
+        return { ...step, prompt: clean(step.prompt, where) }
+      case 'structuredExtract':
+        return {
+          ...step,
+          prompt: clean(step.prompt, where),
+          fields: step.fields.map(field => ({
+            ...field,
+            description: field.description ? clean(field.description, where) : undefined
+          }))
+        }
+      case 'userApproval':
+        return { ...step, message: clean(step.message, where) }
+      case 'branch':
+        return { ...step, value: step.value ? clean(step.value, where) : undefined }
+      case 'canvasAction': {
+        const params = Object.fromEntries(Object.entries(step.params).map(([name, value]) => {
+          if (PROJECT_PARAMS.includes(name) && value.trim() && getTemplateReferences(value).length === 0) {
+            removed.push(`${where}: ${name === 'url' ? 'component URL' : 'layer ID'}`)
+            return [name, '']
+          }
+          return [name, clean(value, where)]
+        }))
+        return { ...step, params }
+      }
+    }
+  })
+
+  return {
+    name: clean(workflow.name, 'Name'),
+    description: clean(workflow.description, 'Description'),
+    steps,
+    removed: Array.from(new Set(removed))
+  }
+}
+
+/**
+ * Search, filter and sort gallery workflows. Search covers names,
+ * descriptions and step text.
+ */
+export function filterMarketplaceWorkflows(workflows: WorkflowTemplate[], filters: MarketplaceFilters): WorkflowTemplate[] {
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean)
+
+  return workflows
+    .filter(workflow => filters.category === 'all' || workflow.category === filters.category)
+    .filter(workflow => {
+      if (terms.length === 0) return true
+      const text = [workflow.name, workflow.description, ...workflow.steps.map(getSearchText)].join(' ').toLowerCase()
+      return terms.every(term => text.includes(term))
+    })
+    .sort((a, b) => {
+      switch (filters.sort) {
+        case 'usage':
+          return (b.usage_count || 0) - (a.usage_count || 0) || a.name.localeCompare(b.name)
+        case 'newest':
+          return (b.created_at || '').localeCompare(a.created_at || '')
+        case 'name':
+          return a.name.localeCompare(b.name)
+      }
+    })
+}
+
+function getSearchText(step: WorkflowStep): string {
+  switch (step.kind) {
+    case 'prompt':
+    case 'structuredExtract':
+      return step.prompt
+    case 'userApproval':
+      return step.message
+    case 'canvasAction':
+      return step.action
+    case 'branch':
+      return step.variable
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Framium - Workflow Steps
+ * Typed steps stored in workflow_templates.steps, validated with zod
+ * Steps pass named variables to each other through {{variable}} templates
+ */
+
+import { z } from 'zod'
+
+export type WorkflowStepKind = 'prompt' | 'canvasAction' | 'structuredExtract' | 'userApproval' | 'branch'
+
+// Each action runs one of the mutateCanvas helpers
+export type CanvasActionType =
+  | 'createFrame'
+  | 'addSVG'
+  | 'addComponent'
+  | 'createCodeFile'
+  | 'updateNode'
+  | 'duplicateNode'
+  | 'removeNodes'
+
+export type ExtractFieldType = 'string' | 'number' | 'boolean' | 'list'
+
+export interface ExtractField {
+  name: string
+  type: ExtractFieldType
+  description?: string
+}
+
+export type BranchOperator = 'equals' | 'contains' | 'matches' | 'isEmpty' | 'isNotEmpty'
+
+interface WorkflowStepBase {
+  // Stable across reordering so branches can point at it
+  id: string
+}
+
+export interface PromptStep extends WorkflowStepBase {
+  kind: 'prompt'
+  prompt: string
+  // Variable the response is saved to
+  output?: string
+}
+
+export interface CanvasActionStep extends WorkflowStepBase {
+  kind: 'canvasAction'
+  action: CanvasActionType
+  params: Record<string, string>
+  // Variable the new node's ID is saved to
+  output?: string
+}
+
+export interface StructuredExtractStep extends WorkflowStepBase {
+  kind: 'structuredExtract'
+  prompt: string
+  fields: ExtractField[]
+  // Variable the extracted object is saved to; fields are read as {{output.field}}
+  output?: string
+}
+
+export interface UserApprovalStep extends WorkflowStepBase {
+  kind: 'userApproval'
+  message: string
+}
+
+export interface BranchStep extends WorkflowStepBase {
+  kind: 'branch'
+  variable: string
+  operator: BranchOperator
+  value?: string
+  // Step IDs or END_OF_WORKFLOW; without an else target the next step runs
+  then: string
+  else?: string
+}
+
+export type WorkflowStep = PromptStep | CanvasActionStep | StructuredExtractStep | UserApprovalStep | BranchStep
+
+export interface WorkflowStepIssue {
+  stepId: string
+  index: number
+  message: string
+}
+
+export interface CanvasActionParam {
+  name: string
+  label: string
+  placeholder?: string
+  multiline?: boolean
+  optional?: boolean
+}
+
+export const END_OF_WORKFLOW = 'end'
+
+// Always holds the output of the step that ran last
+export const PREVIOUS_OUTPUT_VARIABLE = 'previous'
+
+export const STEP_KINDS: Record<WorkflowStepKind, { label: string; description: string }> = {
+  prompt: { label: 'Prompt', description: 'Ask the model and save its answer' },
+  canvasAction: { label: 'Canvas action', description: 'Change the Framer canvas' },
+  structuredExtract: { label: 'Extract data', description: 'Ask the model for named fields' },
+  userApproval: { label: 'Approval', description: 'Pause until you approve' },
+  branch: { label: 'Branch', description: 'Jump to another step based on a variable' }
+}
+
+export const CANVAS_ACTIONS: Record<CanvasActionType, { label: string; params: CanvasActionParam[] }> = {
+  createFrame: {
+    label: 'Create frame',
+    params: [
+      { name: 'name', label: 'Name', placeholder: 'Hero' },
+      { name: 'width', label: 'Width', placeholder: '1200', optional: true },
+      { name: 'height', label: 'Height', placeholder: '800', optional: true }
+    ]
+  },
+  addSVG: {
+    label: 'Add SVG',
+    params: [
+      { name: 'svg', label: 'SVG markup', placeholder: '{{heroSvg}}', multiline: true },
+      { name: 'name', label: 'Name', placeholder: 'Hero Section', optional: true }
+    ]
+  },
+  addComponent: {
+    label: 'Insert component',
+    params: [{ name: 'url', label: 'Component URL', placeholder: 'https://framer.com/m/...' }]
+  },
+  createCodeFile: {
+    label: 'Create code file',
+    params: [
+      { name: 'name', label: 'File name', placeholder: 'Hero.tsx' },
+      { name: 'code', label: 'Code', placeholder: '{{componentCode}}', multiline: true }
+    ]
+  },
+  updateNode: {
+    label: 'Update layer',
+    params: [
+      { name: 'nodeId', label: 'Layer ID', placeholder: '{{frame}}' },
+      { name: 'attributes', label: 'Attributes (JSON)', placeholder: '{ "backgroundColor": "{{colors.background}}" }', multiline: true }
+    ]
+  },
+  duplicateNode: {
+    label: 'Duplicate layer',
+    params: [{ name: 'nodeId', label: 'Layer ID', placeholder: '{{frame}}' }]
+  },
+  removeNodes: {
+    label: 'Remove layers',
+    params: [{ name: 'nodeIds', label: 'Layer IDs (comma-separated)', placeholder: '{{frame}}' }]
+  }
+}
+
+const CANVAS_ACTION_TYPES = Object.keys(CANVAS_ACTIONS) as [CanvasActionType, ...CanvasActionType[]]
+
+const VARIABLE_NAME = /^[A-Za-z_]\w*$/
+const TEMPLATE_REFERENCE = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g
+
+const variableNameSchema = z.string().regex(VARIABLE_NAME, 'Use letters, numbers and underscores, starting with a letter')
+const stepIdSchema = z.string().min(1)
+
+export const workflowStepSchema: z.ZodType<WorkflowStep> = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('prompt'),
+    id: stepIdSchema,
+    prompt: z.string().trim().min(1, 'Prompt is required'),
+    output: variableNameSchema.optional()
+  }),
+  z.object({
+    kind: z.literal('canvasAction'),
+    id: stepIdSchema,
+    action: z.enum(CANVAS_ACTION_TYPES),
+    params: z.record(z.string()),
+    output: variableNameSchema.optional()
+  }),
+  z.object({
+    kind: z.literal('structuredExtract'),
+    id: stepIdSchema,
+    prompt: z.string().trim().min(1, 'Prompt is required'),
+    fields: z.array(z.object({
+      name: variableNameSchema,
+      type: z.enum(['string', 'number', 'boolean', 'list']),
+      description: z.string().optional()
+    })).min(1, 'Add at least one field'),
+    output: variableNameSchema.optional()
+  }),
+  z.object({
+    kind: z.literal('userApproval'),
+    id: stepIdSchema,
+    message: z.string().trim().min(1, 'Message is required')
+  }),
+  z.object({
+    kind: z.literal('branch'),
+    id: stepIdSchema,
+    variable: z.string().regex(/^[A-Za-z_][\w.]*$/, 'Variable is required'),
+    operator: z.enum(['equals', 'contains', 'matches', 'isEmpty', 'isNotEmpty']),
+    value: z.string().optional(),
+    then: z.string().min(1, 'Choose a step to jump to'),
+    else: z.string().optional()
+  })
+])
+
+export function createStepId(): string {
+  return `step-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
+
+export function createStep(kind: WorkflowStepKind): WorkflowStep {
+  const id = createStepId()
+
+  switch (kind) {
+    case 'prompt':
+      return { kind, id, prompt: '' }
+    case 'canvasAction':
+      return { kind, id, action: 'createFrame', params: {} }
+    case 'structuredExtract':
+      return { kind, id, prompt: '', fields: [{ name: '', type: 'string' }] }
+    case 'userApproval':
+      return { kind, id, message: '' }
+    case 'branch':
+      return { kind, id, variable: '', operator: 'isNotEmpty', then: END_OF_WORKFLOW }
+  }
+}
+
+/**
+ * Read steps saved by any version of the editor. Plain strings from the
+ * original editor become prompt steps; entries that can't be read are dropped.
+ */
+export function migrateWorkflowSteps(raw: unknown): WorkflowStep[] {
+  const data = typeof raw === 'string' ? safeJsonParse(raw) : raw
+  if (!Array.isArray(data)) return []
+
+  return data.flatMap((entry, index): WorkflowStep[] => {
+    if (typeof entry === 'string') {
+      return entry.trim() ? [{ kind: 'prompt', id: `step-${index + 1}`, prompt: entry }] : []
+    }
+
+    const parsed = workflowStepSchema.safeParse(entry)
+    if (!parsed.success) {
+      console.warn(`Dropping unreadable workflow step ${index + 1}:`, parsed.error.issues[0]?.message)
+      return []
+    }
+    return [parsed.data]
+  })
+}
+
+/**
+ * Check steps before saving: each step must be complete, templates may only use
+ * variables set by earlier steps, and branches must point at real steps
+ */
+export function validateWorkflowSteps(steps: WorkflowStep[]): WorkflowStepIssue[] {
+  const issues: WorkflowStepIssue[] = []
+  const stepIds = new Set(steps.map(step => step.id))
+  const defined = new Set<string>()
+
+  steps.forEach((step, index) => {
+    const report = (message: string) => issues.push({ stepId: step.id, index, message })
+
+    const parsed = workflowStepSchema.safeParse(step)
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => report(issue.message))
+    }
+
+    if (step.kind === 'canvasAction') {
+      CANVAS_ACTIONS[step.action].params
+        .filter(param => !param.optional && !step.params[param.name]?.trim())
+        .forEach(param => report(`${param.label} is required`))
+    }
+
+    const available = index > 0 ? new Set([...defined, PREVIOUS_OUTPUT_VARIABLE]) : defined
+    getStepTemplates(step)
+      .flatMap(getTemplateReferences)
+      .concat(step.kind === 'branch' && step.variable ? [step.variable.split('.')[0]] : [])
+      .filter(name => !available.has(name))
+      .forEach(name => report(`{{${name}}} isn't set by an earlier step`))
+
+    if (step.kind === 'branch') {
+      [step.then, step.else].forEach(target => {
+        if (!target || target === END_OF_WORKFLOW) return
+        if (target === step.id) report("A branch can't jump to itself")
+        else if (!stepIds.has(target)) report('Branch target no longer exists')
+      })
+    }
+
+    if ('output' in step && step.output) defined.add(step.output)
+  })
+
+  return issues
+}
+
+/**
+ * Replace {{variable}} and {{variable.field}} with their values. Objects are
+ * inserted as JSON; unknown variables become empty strings.
+ */
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  return template.replace(TEMPLATE_REFERENCE, (_, path: string) => formatValue(getVariable(variables, path)))
+}
+
+export function getVariable(variables: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    variables
+  )
+}
+
+export function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'string') return value
+  if (Array.isArray(value) && value.every(item => typeof item !== 'object')) return value.join(', ')
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)
+}
+
+export function evaluateBranch(step: BranchStep, variables: Record<string, unknown>): boolean {
+  const value = formatValue(getVariable(variables, step.variable))
+  const expected = step.value || ''
+
+  switch (step.operator) {
+    case 'equals':
+      return value.trim().toLowerCase() === expected.trim().toLowerCase()
+    case 'contains':
+      return value.toLowerCase().includes(expected.toLowerCase())
+    case 'matches':
+      try {
+        return new RegExp(expected, 'i').test(value)
+      } catch {
+        return false
+      }
+    case 'isEmpty':
+      return !value.trim()
+    case 'isNotEmpty':
+      return Boolean(value.trim())
+  }
+}
+
+/**
+ * zod schema for a structured extract step's fields
+ */
+export function buildExtractSchema(fields: ExtractField[]): z.ZodObject<Record<string, z.ZodTypeAny>> {
+  const shape = Object.fromEntries(fields.map(field => {
+    const schema = field.type === 'number' ? z.number()
+      : field.type === 'boolean' ? z.boolean()
+      : field.type === 'list' ? z.array(z.string())
+      : z.string()
+    return [field.name, field.description ? schema.describe(field.description) : schema]
+  }))
+  return z.object(shape)
+}
+
+/**
+ * One-line summary for step lists and run results
+ */
+export function describeStep(step: WorkflowStep, steps: WorkflowStep[] = []): string {
+  const saveAs = 'output' in step && step.output ? ` → {{${step.output}}}` : ''
+
+  switch (step.kind) {
+    case 'prompt':
+      return `${step.prompt}${saveAs}`
+    case 'canvasAction': {
+      const params = Object.entries(step.params).filter(([, value]) => value && value.length <= 40)
+      const summary = params.map(([name, value]) => `${name}: ${value}`).join(', ')
+      return `${CANVAS_ACTIONS[step.action].label}${summary ? ` (${summary})` : ''}${saveAs}`
+    }
+    case 'structuredExtract':
+      return `Extract ${step.fields.map(field => field.name).join(', ')}: ${step.prompt}${saveAs}`
+    case 'userApproval':
+      return `Approval: ${step.message}`
+    case 'branch': {
+      const describeTarget = (target?: string) => {
+        if (!target) return 'continue'
+        if (target === END_OF_WORKFLOW) return 'end'
+        const index = steps.findIndex(candidate => candidate.id === target)
+        return index >= 0 ? `step ${index + 1}` : 'missing step'
+      }
+      const value = step.operator === 'isEmpty' || step.operator === 'isNotEmpty' ? '' : ` "${step.value || ''}"`
+      return `If {{${step.variable}}} ${step.operator}${value}, go to ${describeTarget(step.then)}, else ${describeTarget(step.else)}`
+    }
+  }
+}
+
+export function getTemplateReferences(template: string): string[] {
+  return Array.from(template.matchAll(TEMPLATE_REFERENCE), match => match[1].split('.')[0])
+}
+
+function getStepTemplates(step: WorkflowStep): string[] {
+  switch (step.kind) {
+    case 'prompt':
+    case 'structuredExtract':
+      return [step.prompt]
+    case 'canvasAction':
+      return Object.values(step.params)
+    case 'userApproval':
+      return [step.message]
+    case 'branch':
+      return [step.value || '']
+  }
+}
+
+function safeJsonParse(json: string): unknown {
+  try {
+    return JSON.parse(json)
+  } catch {
+    return null
+  }
+}
@@ -137,6 +137,7 @@ export type Database = {
           usage_count: number | null
           created_at: string | null
           updated_at: string | null
+          forked_from: Json | null
         }
         Insert: {
           id?: string
@@ -150,6 +151,7 @@ export type Database = {
           usage_count?: number | null
           created_at?: string | null
           updated_at?: string | null
+          forked_from?: Json | null
         }
         Update: {
           id?: string
@@ -163,6 +165,7 @@ export type Database = {
           usage_count?: number | null
           created_at?: string | null
           updated_at?: string | null
+          forked_from?: Json | null
         }
         Relationships: [
           {
@@ -451,28 +454,37 @@ export type Database = {
       }
       token_usage: {
         Row: {
+          cached_tokens: number
+          completion_tokens: number
           cost_usd: number | null
           created_at: string | null
           id: string
           model: string
+          prompt_tokens: number
           request_type: string | null
           tokens_used: number
           user_id: string
         }
         Insert: {
+          cached_tokens?: number
+          completion_tokens?: number
           cost_usd?: number | null
           created_at?: string | null
           id?: string
           model: string
+          prompt_tokens?: number
           request_type?: string | null
           tokens_used?: number
           user_id: string
         }
         Update: {
+          cached_tokens?: number
+          completion_tokens?: number
           cost_usd?: number | null
           created_at?: string | null
           id?: string
           model?: string
+          prompt_tokens?: number
           request_type?: string | null
           tokens_used?: number
           user_id?: string
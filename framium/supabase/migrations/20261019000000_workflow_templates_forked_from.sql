@@ -0,0 +1,4 @@
+-- Records the marketplace listing a workflow was forked from, as
+-- { "workflowId": ..., "name": ... }, so runs can credit the original's usage
+ALTER TABLE workflow_templates
+  ADD COLUMN IF NOT EXISTS forked_from JSONB;
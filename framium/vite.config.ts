@@ -9,4 +9,8 @@ export default defineConfig({
     build: {
         target: "ES2022",
     },
+    server: {
+        // The model catalog is shared with the API in ../lib
+        fs: { allow: [".", "../lib"] },
+    },
 })
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import { NextApiResponse } from 'next'
+import {
+  MemoryRateLimitStore,
+  RateLimitPolicy,
+  RateLimitStore,
+  SlidingWindowPolicy,
+  TokenBucketPolicy,
+  checkRateLimit,
+  setRateLimitHeaders,
+  withRateLimit
+} from '../rateLimit'
+import type { AuthenticatedRequest } from '../auth'
+
+// Captures what the middleware writes so headers and status can be asserted
+function createResponse() {
+  const response = {
+    headers: {} as Record<string, string>,
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader(name: string, value: string) {
+      response.headers[name] = value
+      return response
+    },
+    status(code: number) {
+      response.statusCode = code
+      return response
+    },
+    json(body: unknown) {
+      response.body = body
+      return response
+    }
+  }
+  return response
+}
+
+const asResponse = (response: ReturnType<typeof createResponse>) => response as unknown as NextApiResponse
+
+describe('sliding window', () => {
+  const policy: SlidingWindowPolicy = { algorithm: 'sliding-window', limit: 3, windowMs: 1000 }
+  let time: number
+  let store: MemoryRateLimitStore
+
+  const hit = () => checkRateLimit(store, 'user-1', policy, time)
+
+  beforeEach(() => {
+    time = 0
+    store = new MemoryRateLimitStore(() => time)
+  })
+
+  it('counts down to the limit', async () => {
+    expect(await hit()).toMatchObject({ allowed: true, limit: 3, remaining: 2, resetMs: 1000 })
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 1 })
+
+    time = 250
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 0, resetMs: 750, retryAfterMs: 0 })
+  })
+
+  it('blocks requests over the limit until the window rolls over', async () => {
+    await hit()
+    await hit()
+    await hit()
+
+    time = 400
+    expect(await hit()).toEqual({ allowed: false, limit: 3, remaining: 0, resetMs: 600, retryAfterMs: 600 })
+  })
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    await hit()
+    await hit()
+    await hit()
+
+    // Half of the previous window's 3 hits still count
+    time = 1500
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 0 })
+
+    const blocked = await hit()
+    expect(blocked.allowed).toBe(false)
+    expect(blocked.retryAfterMs).toBe(167)
+
+    time += blocked.retryAfterMs
+    expect(await hit()).toMatchObject({ allowed: true })
+  })
+
+  it('starts over once the previous window has aged out', async () => {
+    await hit()
+    await hit()
+    await hit()
+
+    time = 2000
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 2 })
+  })
+
+  it('keeps separate counts per key', async () => {
+    await hit()
+    await hit()
+    await hit()
+
+    expect(await checkRateLimit(store, 'user-2', policy, time)).toMatchObject({ allowed: true, remaining: 2 })
+  })
+})
+
+describe('token bucket', () => {
+  const policy: TokenBucketPolicy = { algorithm: 'token-bucket', capacity: 2, refillPerSecond: 1 }
+  let time: number
+  let store: MemoryRateLimitStore
+
+  const hit = () => checkRateLimit(store, 'user-1', policy, time)
+
+  beforeEach(() => {
+    time = 0
+    store = new MemoryRateLimitStore(() => time)
+  })
+
+  it('allows a burst up to capacity', async () => {
+    expect(await hit()).toMatchObject({ allowed: true, limit: 2, remaining: 1, resetMs: 1000 })
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 0, resetMs: 2000 })
+  })
+
+  it('blocks an empty bucket until a token refills', async () => {
+    await hit()
+    await hit()
+
+    expect(await hit()).toEqual({ allowed: false, limit: 2, remaining: 0, resetMs: 2000, retryAfterMs: 1000 })
+
+    time = 500
+    expect(await hit()).toMatchObject({ allowed: false, retryAfterMs: 500 })
+
+    time = 1000
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 0 })
+  })
+
+  it('refills over time without going past capacity', async () => {
+    await hit()
+    await hit()
+
+    time = 10000
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 1 })
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 0 })
+    expect(await hit()).toMatchObject({ allowed: false })
+  })
+
+  it('forgets a key once the bucket would be full again', async () => {
+    await hit()
+    await hit()
+
+    time = 2000
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 1 })
+  })
+})
+
+describe('setRateLimitHeaders', () => {
+  it('describes a sliding window policy', () => {
+    const response = createResponse()
+    const policy: RateLimitPolicy = { algorithm: 'sliding-window', limit: 20, windowMs: 60000 }
+
+    setRateLimitHeaders(asResponse(response), policy, { allowed: true, limit: 20, remaining: 7, resetMs: 12345, retryAfterMs: 0 })
+
+    expect(response.headers).toEqual({
+      'RateLimit-Policy': '20;w=60',
+      'RateLimit-Limit': '20',
+      'RateLimit-Remaining': '7',
+      'RateLimit-Reset': '13'
+    })
+  })
+
+  it('describes a token bucket by the time it takes to refill', () => {
+    const response = createResponse()
+    const policy: RateLimitPolicy = { algorithm: 'token-bucket', capacity: 120, refillPerSecond: 3 }
+
+    setRateLimitHeaders(asResponse(response), policy, { allowed: true, limit: 120, remaining: 119, resetMs: 334, retryAfterMs: 0 })
+
+    expect(response.headers['RateLimit-Policy']).toBe('120;w=40')
+    expect(response.headers['RateLimit-Reset']).toBe('1')
+  })
+
+  it('adds Retry-After, at least one second, when blocked', () => {
+    const response = createResponse()
+    const policy: RateLimitPolicy = { algorithm: 'token-bucket', capacity: 2, refillPerSecond: 10 }
+
+    setRateLimitHeaders(asResponse(response), policy, { allowed: false, limit: 2, remaining: 0, resetMs: 200, retryAfterMs: 100 })
+
+    expect(response.headers['RateLimit-Remaining']).toBe('0')
+    expect(response.headers['Retry-After']).toBe('1')
+  })
+})
+
+describe('withRateLimit', () => {
+  const request = (plan: string) => ({ user: { id: 'user-1', plan } }) as unknown as AuthenticatedRequest
+  const policy: RateLimitPolicy = { algorithm: 'sliding-window', limit: 1, windowMs: 60000 }
+
+  it('answers 429 with the rate limit headers once the limit is reached', async () => {
+    let calls = 0
+    const handler = withRateLimit(() => {
+      calls++
+    }, { store: new MemoryRateLimitStore(), planPolicies: { BASIC: policy } })
+
+    await handler(request('BASIC'), asResponse(createResponse()))
+    const response = createResponse()
+    await handler(request('BASIC'), asResponse(response))
+
+    expect(calls).toBe(1)
+    expect(response.statusCode).toBe(429)
+    expect(response.headers['RateLimit-Remaining']).toBe('0')
+    expect(Number(response.headers['Retry-After'])).toBeGreaterThanOrEqual(1)
+  })
+
+  it('lets requests through when the store is unavailable', async () => {
+    const brokenStore: RateLimitStore = {
+      update: () => Promise.reject(new Error('connection refused'))
+    }
+    let calls = 0
+    const handler = withRateLimit(() => {
+      calls++
+    }, { store: brokenStore })
+
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    try {
+      await handler(request('BASIC'), asResponse(createResponse()))
+    } finally {
+      consoleSpy.mockRestore()
+    }
+
+    expect(calls).toBe(1)
+  })
+})
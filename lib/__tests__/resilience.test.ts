@@ -0,0 +1,295 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DeadlineExceededError,
+  ProviderError,
+  ResilienceConfig,
+  ResilienceRuntime,
+  isRetryableError,
+  withRetry
+} from '../resilience'
+import { ConversationMessage, ModelResponse, ProviderCall, callGemini, createModelRouter } from '../models'
+
+// Fake clock: sleeping advances time instantly and records the delays
+function createRuntime(): ResilienceRuntime & { sleeps: number[]; advance: (ms: number) => void } {
+  let time = 0
+  const sleeps: number[] = []
+
+  return {
+    sleeps,
+    now: () => time,
+    sleep: async (ms) => {
+      sleeps.push(ms)
+      time += ms
+    },
+    random: () => 0.5,
+    advance: (ms) => {
+      time += ms
+    }
+  }
+}
+
+const config: ResilienceConfig = {
+  retry: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 },
+  circuitBreaker: { failureThreshold: 3, cooldownMs: 5000 },
+  deadlineMs: 10000
+}
+
+function respond(model: string): ModelResponse {
+  return { text: `reply from ${model}`, tokenUsage: 2, promptTokens: 1, completionTokens: 1, cachedTokens: 0, model, cost: 0 }
+}
+
+// Provider call that fails with the given statuses in order, then succeeds
+function stubProvider(failures: (number | undefined)[] = []): ProviderCall & { calls: string[] } {
+  const calls: string[] = []
+  const call = async (model: string, _messages: ConversationMessage[]) => {
+    calls.push(model)
+    if (calls.length <= failures.length) {
+      throw new ProviderError('Stub API Error: failed', failures[calls.length - 1])
+    }
+    return respond(model)
+  }
+  return Object.assign(call, { calls })
+}
+
+function failingProvider(status: number): ProviderCall & { calls: string[] } {
+  return stubProvider(Array(100).fill(status))
+}
+
+async function trip(breaker: CircuitBreaker, call: ProviderCall): Promise<void> {
+  for (let i = 0; i < config.circuitBreaker.failureThreshold; i++) {
+    await expect(breaker.execute(() => call('gpt', []))).rejects.toThrow()
+  }
+  expect(breaker.getState()).toBe('open')
+}
+
+const request = { model: 'openai/gpt-3.5-turbo', prompt: 'Hello', userPlan: 'BASIC' }
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    expect(isRetryableError(new ProviderError('x', 429))).toBe(true)
+    expect(isRetryableError(new ProviderError('x', 503))).toBe(true)
+    expect(isRetryableError(new Error('socket hang up'))).toBe(true)
+  })
+
+  it('does not retry client errors, open circuits or spent deadlines', () => {
+    expect(isRetryableError(new ProviderError('x', 400))).toBe(false)
+    expect(isRetryableError(new CircuitOpenError('openai', 0))).toBe(false)
+    expect(isRetryableError(new DeadlineExceededError('openai'))).toBe(false)
+  })
+})
+
+describe('withRetry', () => {
+  it('retries retryable errors with exponential backoff', async () => {
+    const runtime = createRuntime()
+    const call = stubProvider([503, 429])
+
+    const response = await withRetry(() => call('gpt', []), config.retry, runtime)
+
+    expect(response.text).toBe('reply from gpt')
+    expect(call.calls).toHaveLength(3)
+    expect(runtime.sleeps).toEqual([50, 100])
+  })
+
+  it('gives up after maxAttempts', async () => {
+    const runtime = createRuntime()
+    const call = failingProvider(500)
+
+    await expect(withRetry(() => call('gpt', []), config.retry, runtime)).rejects.toThrow('Stub API Error')
+    expect(call.calls).toHaveLength(3)
+  })
+
+  it('does not retry client errors', async () => {
+    const runtime = createRuntime()
+    const call = failingProvider(400)
+
+    await expect(withRetry(() => call('gpt', []), config.retry, runtime)).rejects.toThrow('Stub API Error')
+    expect(call.calls).toHaveLength(1)
+    expect(runtime.sleeps).toEqual([])
+  })
+
+  it('stops instead of backing off past the deadline', async () => {
+    const runtime = createRuntime()
+    const call = failingProvider(503)
+
+    await expect(withRetry(() => call('gpt', []), config.retry, runtime, 60)).rejects.toThrow('Stub API Error')
+    expect(call.calls).toHaveLength(2)
+    expect(runtime.sleeps).toEqual([50])
+  })
+})
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and rejects without calling', async () => {
+    const runtime = createRuntime()
+    const breaker = new CircuitBreaker('openai', config.circuitBreaker, runtime.now)
+    const call = failingProvider(503)
+
+    await expect(breaker.execute(() => call('gpt', []))).rejects.toThrow('Stub API Error')
+    await expect(breaker.execute(() => call('gpt', []))).rejects.toThrow('Stub API Error')
+    expect(breaker.getState()).toBe('closed')
+    await expect(breaker.execute(() => call('gpt', []))).rejects.toThrow('Stub API Error')
+    expect(breaker.getState()).toBe('open')
+
+    await expect(breaker.execute(() => call('gpt', []))).rejects.toBeInstanceOf(CircuitOpenError)
+    expect(call.calls).toHaveLength(3)
+  })
+
+  it('ignores client errors', async () => {
+    const breaker = new CircuitBreaker('openai', config.circuitBreaker, createRuntime().now)
+    const call = failingProvider(400)
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(() => call('gpt', []))).rejects.toThrow()
+    }
+    expect(breaker.getState()).toBe('closed')
+  })
+
+  it('lets a trial request through after the cooldown and closes on success', async () => {
+    const runtime = createRuntime()
+    const breaker = new CircuitBreaker('openai', config.circuitBreaker, runtime.now)
+    const call = stubProvider([503, 503, 503])
+
+    await trip(breaker, call)
+
+    runtime.advance(config.circuitBreaker.cooldownMs)
+    expect(breaker.getState()).toBe('half-open')
+
+    await breaker.execute(() => call('gpt', []))
+    expect(breaker.getState()).toBe('closed')
+  })
+
+  it('re-opens when the trial request fails', async () => {
+    const runtime = createRuntime()
+    const breaker = new CircuitBreaker('openai', config.circuitBreaker, runtime.now)
+    const call = failingProvider(503)
+
+    await trip(breaker, call)
+    runtime.advance(config.circuitBreaker.cooldownMs)
+
+    await expect(breaker.execute(() => call('gpt', []))).rejects.toThrow('Stub API Error')
+    expect(breaker.getState()).toBe('open')
+  })
+})
+
+describe('createModelRouter', () => {
+  it('retries the requested provider before failing over', async () => {
+    const openai = stubProvider([503])
+    const anthropic = stubProvider()
+    const route = createModelRouter({ clients: { openai, anthropic }, config, runtime: createRuntime() })
+
+    const response = await route({ ...request, fallback: true })
+
+    expect(response.model).toBe('gpt-3.5-turbo')
+    expect(response.fallbackFrom).toBeUndefined()
+    expect(openai.calls).toHaveLength(2)
+    expect(anthropic.calls).toHaveLength(0)
+  })
+
+  it('fails over to equivalents in catalog order', async () => {
+    const openai = failingProvider(503)
+    const anthropic = failingProvider(503)
+    const google = stubProvider()
+    const route = createModelRouter({ clients: { openai, anthropic, google }, config, runtime: createRuntime() })
+
+    const response = await route({ ...request, fallback: true })
+
+    expect(response.model).toBe('gemini-1.5-flash')
+    expect(response.fallbackFrom).toBe('openai/gpt-3.5-turbo')
+    expect(openai.calls).toHaveLength(3)
+    expect(anthropic.calls).toEqual(['claude-3-haiku-20240307', 'claude-3-haiku-20240307', 'claude-3-haiku-20240307'])
+    expect(google.calls).toHaveLength(1)
+  })
+
+  it('does not fail over without the fallback flag or on client errors', async () => {
+    const anthropic = stubProvider()
+    const route = createModelRouter({
+      clients: { openai: failingProvider(503), anthropic },
+      config,
+      runtime: createRuntime()
+    })
+    await expect(route(request)).rejects.toThrow('Stub API Error')
+
+    const badRequest = createModelRouter({
+      clients: { openai: failingProvider(400), anthropic },
+      config,
+      runtime: createRuntime()
+    })
+    await expect(badRequest({ ...request, fallback: true })).rejects.toThrow('Stub API Error')
+
+    expect(anthropic.calls).toHaveLength(0)
+  })
+
+  it('skips providers whose circuit is open', async () => {
+    const runtime = createRuntime()
+    const openai = failingProvider(503)
+    const anthropic = failingProvider(503)
+    const google = stubProvider()
+    const route = createModelRouter({ clients: { openai, anthropic, google }, config, runtime })
+
+    await route({ ...request, fallback: true })
+    const anthropicCalls = anthropic.calls.length
+
+    const response = await route({ ...request, fallback: true })
+
+    expect(response.model).toBe('gemini-1.5-flash')
+    expect(anthropic.calls).toHaveLength(anthropicCalls)
+  })
+
+  it('does not start a fallback once the deadline has passed', async () => {
+    const runtime = createRuntime()
+    const openai = stubProviderWithLatency(runtime, 4000, 503)
+    const anthropic = stubProvider()
+    const route = createModelRouter({ clients: { openai, anthropic }, config, runtime })
+
+    await expect(route({ ...request, fallback: true })).rejects.toThrow('Stub API Error')
+
+    expect(openai.calls).toHaveLength(3)
+    expect(anthropic.calls).toHaveLength(0)
+  })
+
+  it('stops waiting on a hung provider at the deadline', async () => {
+    const hung: ProviderCall = () => new Promise<ModelResponse>(() => {})
+    const anthropic = stubProvider()
+    const route = createModelRouter({
+      clients: { openai: hung, anthropic },
+      config: { ...config, deadlineMs: 20 }
+    })
+
+    await expect(route({ ...request, fallback: true })).rejects.toBeInstanceOf(DeadlineExceededError)
+    expect(anthropic.calls).toHaveLength(0)
+  })
+})
+
+describe('callGemini', () => {
+  it('reports HTTP failures once, with the status', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 503, statusText: 'Service Unavailable' }))
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    try {
+      const error = await callGemini('gemini-1.5-flash', [{ role: 'user', content: 'Hello' }]).catch(e => e)
+
+      expect(error).toBeInstanceOf(ProviderError)
+      expect(error.message).toBe('Gemini API Error: 503 Service Unavailable')
+      expect(error.status).toBe(503)
+    } finally {
+      fetchSpy.mockRestore()
+      consoleSpy.mockRestore()
+    }
+  })
+})
+
+// Each call takes `latency` on the fake clock before failing
+function stubProviderWithLatency(
+  runtime: ReturnType<typeof createRuntime>,
+  latency: number,
+  status: number
+): ProviderCall & { calls: string[] } {
+  const calls: string[] = []
+  const call = async (model: string) => {
+    calls.push(model)
+    runtime.advance(latency)
+    throw new ProviderError('Stub API Error: failed', status)
+  }
+  return Object.assign(call, { calls })
+}
@@ -0,0 +1,7 @@
+// lib/__tests__/setup.ts - Test environment for the backend specs
+// The provider SDK clients are created at import time and refuse to start
+// without a key. Specs stub every provider call, so placeholders are enough.
+
+process.env.OPENAI_API_KEY ||= 'test-openai-key'
+process.env.ANTHROPIC_API_KEY ||= 'test-anthropic-key'
+process.env.GEMINI_API_KEY ||= 'test-gemini-key'
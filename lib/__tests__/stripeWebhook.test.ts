@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals'
+import { NextApiRequest, NextApiResponse } from 'next'
+import Stripe from 'stripe'
+import handler from '../../api/stripe/webhook'
+import { updateSubscriptionPeriod, updateSubscriptionStatus } from '../db'
+
+const constructEvent = jest.fn<(...args: unknown[]) => Stripe.Event>()
+const retrieveSubscription = jest.fn<(id: string) => Promise<Stripe.Subscription>>()
+
+jest.mock('stripe', () => jest.fn().mockImplementation(() => ({
+  webhooks: { constructEvent: (...args: unknown[]) => constructEvent(...args) },
+  subscriptions: { retrieve: (id: string) => retrieveSubscription(id) }
+})))
+
+jest.mock('micro', () => ({
+  buffer: async () => Buffer.from('{}')
+}))
+
+jest.mock('../db', () => ({
+  getUserByEmail: jest.fn(),
+  updateUserPlan: jest.fn(),
+  updateUserStripeCustomer: jest.fn(),
+  createSubscription: jest.fn(),
+  updateSubscriptionStatus: jest.fn(),
+  updateSubscriptionPeriod: jest.fn()
+}))
+
+// Second billing period of a monthly subscription, after its first renewal
+const renewedPeriod = {
+  current_period_start: Date.UTC(2026, 1, 15) / 1000,
+  current_period_end: Date.UTC(2026, 2, 15) / 1000
+}
+
+function createSubscription(): Stripe.Subscription {
+  return {
+    id: 'sub_123',
+    status: 'active',
+    metadata: { plan: 'MAX' },
+    items: { data: [] },
+    ...renewedPeriod
+  } as unknown as Stripe.Subscription
+}
+
+function createEvent(type: string, object: unknown): Stripe.Event {
+  return { type, data: { object } } as unknown as Stripe.Event
+}
+
+async function deliver(event: Stripe.Event) {
+  constructEvent.mockReturnValue(event)
+
+  const response = {
+    statusCode: 200,
+    status(code: number) {
+      response.statusCode = code
+      return response
+    },
+    json: () => response,
+    send: () => response
+  }
+  const request = { method: 'POST', headers: { 'stripe-signature': 'signature' } } as unknown as NextApiRequest
+
+  const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {})
+  try {
+    await handler(request, response as unknown as NextApiResponse)
+  } finally {
+    consoleSpy.mockRestore()
+  }
+  return response
+}
+
+describe('stripe webhook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('moves the billing period forward when a subscription renews', async () => {
+    const response = await deliver(createEvent('customer.subscription.updated', createSubscription()))
+
+    expect(response.statusCode).toBe(200)
+    expect(updateSubscriptionStatus).toHaveBeenCalledWith('sub_123', 'active', 'MAX')
+    expect(updateSubscriptionPeriod).toHaveBeenCalledWith(
+      'sub_123',
+      new Date('2026-02-15T00:00:00Z'),
+      new Date('2026-03-15T00:00:00Z')
+    )
+  })
+
+  it('records the new period when a renewal invoice is paid', async () => {
+    retrieveSubscription.mockResolvedValue(createSubscription())
+
+    await deliver(createEvent('invoice.payment_succeeded', { id: 'in_123', subscription: 'sub_123' }))
+
+    expect(retrieveSubscription).toHaveBeenCalledWith('sub_123')
+    expect(updateSubscriptionPeriod).toHaveBeenCalledWith(
+      'sub_123',
+      new Date('2026-02-15T00:00:00Z'),
+      new Date('2026-03-15T00:00:00Z')
+    )
+  })
+})
@@ -2,17 +2,16 @@
 
 import { NextApiRequest, NextApiResponse } from 'next'
 import jwt from 'jsonwebtoken'
-import { getUserById } from './db'
+import { getUserById, User } from './db'
+import { supabase } from './supabase'
 
 export interface AuthenticatedRequest extends NextApiRequest {
-  user: {
-    id: string
-    email: string
-    plan: string
-  }
+  user: User
 }
 
-export async function authenticateUser(req: NextApiRequest): Promise<{ user: any } | { error: string }> {
+export type AuthenticatedHandler = (req: AuthenticatedRequest, res: NextApiResponse) => unknown
+
+export async function authenticateUser(req: NextApiRequest): Promise<{ user: User } | { error: string }> {
   try {
     // Check for Authorization header
     const authHeader = req.headers.authorization
@@ -20,19 +19,15 @@ export async function authenticateUser(req: NextApiRequest): Promise<{ user: any
       return { error: 'Missing or invalid authorization header' }
     }
 
-    // Extract and verify JWT token
+    // Accept our own JWTs first, then Supabase access tokens from the plugin
     const token = authHeader.split(' ')[1]
-    const secret = process.env.JWT_SECRET || 'fallback-secret-for-dev'
-    
-    let decoded: any
-    try {
-      decoded = jwt.verify(token, secret)
-    } catch (jwtError) {
+    const userId = verifyAppToken(token) || await verifySupabaseToken(token)
+    if (!userId) {
       return { error: 'Invalid or expired token' }
     }
 
     // Get user from database
-    const user = await getUserById(decoded.userId)
+    const user = await getUserById(userId)
     if (!user) {
       return { error: 'User not found' }
     }
@@ -44,7 +39,30 @@ export async function authenticateUser(req: NextApiRequest): Promise<{ user: any
   }
 }
 
-export function requireAuth(handler: Function) {
+// Returns the user ID from a token issued by generateToken, or null.
+// Without JWT_SECRET no app token is trusted; Supabase tokens still work.
+function verifyAppToken(token: string): string | null {
+  const secret = process.env.JWT_SECRET
+  if (!secret) return null
+
+  try {
+    const decoded = jwt.verify(token, secret) as { userId?: string }
+    return decoded.userId || null
+  } catch (jwtError) {
+    return null
+  }
+}
+
+// Returns the user ID from a Supabase access token, or null
+async function verifySupabaseToken(token: string): Promise<string | null> {
+  const { data: { user }, error } = await supabase.auth.getUser(token)
+  if (error || !user) {
+    return null
+  }
+  return user.id
+}
+
+export function requireAuth(handler: AuthenticatedHandler) {
   return async (req: NextApiRequest, res: NextApiResponse) => {
     const auth = await authenticateUser(req)
     
@@ -52,48 +70,29 @@ export function requireAuth(handler: Function) {
       return res.status(401).json({ error: auth.error })
     }
 
+    // The token decides who the caller is; a conflicting userId in the body
+    // is an attempt to act as someone else
+    const bodyUserId = req.body?.userId
+    if (bodyUserId !== undefined && bodyUserId !== auth.user.id) {
+      return res.status(403).json({ error: 'userId does not match the authenticated user' })
+    }
+
     // Add user to request object
     ;(req as AuthenticatedRequest).user = auth.user
 
-    return handler(req, res)
+    return handler(req as AuthenticatedRequest, res)
   }
 }
 
 export function generateToken(userId: string): string {
-  const secret = process.env.JWT_SECRET || 'fallback-secret-for-dev'
+  const secret = process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured')
+  }
+
   return jwt.sign(
     { userId },
     secret,
     { expiresIn: '30d' }
   )
 }
-
-// Rate limiting middleware
-export function rateLimit(windowMs: number = 60000, max: number = 100) {
-  const requests = new Map()
-
-  return (req: NextApiRequest, res: NextApiResponse, next: Function) => {
-    const ip = req.headers['x-forwarded-for'] || req.connection.remoteAddress
-    const now = Date.now()
-    const windowStart = now - windowMs
-
-    if (!requests.has(ip)) {
-      requests.set(ip, [])
-    }
-
-    const userRequests = requests.get(ip)
-    const recentRequests = userRequests.filter((time: number) => time > windowStart)
-    
-    if (recentRequests.length >= max) {
-      return res.status(429).json({ 
-        error: 'Too many requests',
-        retryAfter: Math.ceil(windowMs / 1000)
-      })
-    }
-
-    recentRequests.push(now)
-    requests.set(ip, recentRequests)
-    
-    return next()
-  }
-}
@@ -1,7 +1,8 @@
 // lib/db.ts - Database helper functions for Framium
 // Vercel Postgres integration
 
-import { sql } from '@vercel/postgres'
+import { sql, db } from '@vercel/postgres'
+import type { TokenBreakdown } from './models'
 
 // Note: Install dependencies with: npm install @vercel/postgres
 
@@ -32,11 +33,37 @@ export interface TokenUsage {
   user_id: string
   model: string
   tokens_used: number
+  prompt_tokens: number
+  completion_tokens: number
+  cached_tokens: number
   cost_usd: number
   request_type: string
   created_at: Date
 }
 
+export interface TokenReservation {
+  id: string
+  user_id: string
+  tokens: number
+  status: 'active' | 'committed' | 'released' | 'expired'
+  created_at: Date
+  expires_at: Date
+}
+
+// Period that plan quotas are measured over
+export interface UsageWindow {
+  start: Date
+  end: Date
+}
+
+export interface QuotaStatus {
+  limit: number
+  used: number
+  reserved: number
+  remaining: number
+  resetsAt: Date
+}
+
 export interface AITask {
   id: string
   user_id: string
@@ -144,26 +171,63 @@ export async function updateUserPreferences(userId: string, preferences: Partial
 export async function logTokenUsage(
   userId: string, 
   model: string, 
-  tokensUsed: number, 
+  usage: TokenBreakdown, 
   costUsd: number, 
   requestType: string = 'chat'
 ): Promise<void> {
+  const tokensUsed = usage.promptTokens + usage.completionTokens
+
   await sql`
-    INSERT INTO token_usage (user_id, model, tokens_used, cost_usd, request_type)
-    VALUES (${userId}, ${model}, ${tokensUsed}, ${costUsd}, ${requestType})
+    INSERT INTO token_usage (
+      user_id, model, tokens_used, prompt_tokens, completion_tokens, cached_tokens, cost_usd, request_type
+    )
+    VALUES (
+      ${userId}, ${model}, ${tokensUsed}, ${usage.promptTokens}, ${usage.completionTokens},
+      ${usage.cachedTokens}, ${costUsd}, ${requestType}
+    )
   `
 }
 
-export async function getMonthlyTokenUsage(userId: string): Promise<{ total_tokens: number; total_cost: number }> {
+// Paid users are measured over their active subscription period; everyone
+// else over the current calendar month
+export async function getUsageWindow(userId: string): Promise<UsageWindow> {
+  const { rows } = await sql`
+    SELECT current_period_start as start, current_period_end as end
+    FROM subscriptions
+    WHERE user_id = ${userId}
+    AND status = 'active'
+    AND current_period_start <= NOW()
+    AND current_period_end > NOW()
+    ORDER BY created_at DESC
+    LIMIT 1
+  `
+
+  if (rows[0]) {
+    return { start: new Date(rows[0].start), end: new Date(rows[0].end) }
+  }
+
+  const now = new Date()
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  }
+}
+
+export async function getPeriodTokenUsage(
+  userId: string,
+  window?: UsageWindow
+): Promise<{ total_tokens: number; total_cost: number }> {
+  const { start } = window || await getUsageWindow(userId)
+
   const { rows } = await sql`
     SELECT 
       COALESCE(SUM(tokens_used), 0) as total_tokens,
       COALESCE(SUM(cost_usd), 0) as total_cost
     FROM token_usage 
     WHERE user_id = ${userId} 
-    AND created_at >= date_trunc('month', NOW())
+    AND created_at >= ${start.toISOString()}
   `
-  return rows[0]
+  return { total_tokens: Number(rows[0].total_tokens), total_cost: Number(rows[0].total_cost) }
 }
 
 export async function getUserPlan(userId: string): Promise<string> {
@@ -173,21 +237,145 @@ export async function getUserPlan(userId: string): Promise<string> {
   return rows[0]?.plan || 'BASIC'
 }
 
+// Monthly token limits per plan
+export const PLAN_TOKEN_LIMITS = {
+  BASIC: 50000,
+  MAX: 250000,
+  BEAST: 1000000
+}
+
 export async function canUserMakeRequest(userId: string, tokensNeeded: number): Promise<boolean> {
   const user = await getUserById(userId)
   if (!user) return false
   
-  const usage = await getMonthlyTokenUsage(userId)
+  const usage = await getPeriodTokenUsage(userId)
+  const reserved = await getReservedTokens(userId)
   
-  // Define token limits per plan
-  const limits = {
-    BASIC: 50000,
-    MAX: 250000,
-    BEAST: 1000000
+  const limit = PLAN_TOKEN_LIMITS[user.plan]
+  return (usage.total_tokens + reserved + tokensNeeded) <= limit
+}
+
+// =============================================
+// TOKEN RESERVATIONS
+// =============================================
+
+// Reservations hold a request's worst-case tokens (see estimateTokenUsage)
+// against the quota while a model call is in flight, so parallel requests
+// can't all pass the limit check at once. Active reservations past
+// `expires_at` stop counting, which covers invocations that died before
+// releasing.
+
+const DEFAULT_RESERVATION_TTL_SECONDS = 120
+
+export async function getReservedTokens(userId: string): Promise<number> {
+  const { rows } = await sql`
+    SELECT COALESCE(SUM(tokens), 0) as reserved
+    FROM token_reservations
+    WHERE user_id = ${userId}
+    AND status = 'active'
+    AND expires_at > NOW()
+  `
+  return Number(rows[0]?.reserved || 0)
+}
+
+// Atomically checks the quota and reserves `tokens`. `reservation` is null
+// when the request would exceed the user's plan limit for the current window.
+export async function reserveTokens(
+  userId: string,
+  tokens: number,
+  ttlSeconds: number = DEFAULT_RESERVATION_TTL_SECONDS
+): Promise<{ reservation: TokenReservation | null; quota: QuotaStatus }> {
+  const window = await getUsageWindow(userId)
+  const client = await db.connect()
+
+  try {
+    await client.sql`BEGIN`
+
+    // Locking the user row serializes reservations for the same user
+    const { rows: users } = await client.sql`
+      SELECT plan FROM users WHERE id = ${userId} FOR UPDATE
+    `
+    if (!users[0]) {
+      throw new Error('User not found')
+    }
+
+    await client.sql`
+      UPDATE token_reservations
+      SET status = 'expired'
+      WHERE user_id = ${userId} AND status = 'active' AND expires_at <= NOW()
+    `
+
+    const { rows: totals } = await client.sql`
+      SELECT
+        (SELECT COALESCE(SUM(tokens_used), 0) FROM token_usage
+          WHERE user_id = ${userId} AND created_at >= ${window.start.toISOString()}) as used,
+        (SELECT COALESCE(SUM(tokens), 0) FROM token_reservations
+          WHERE user_id = ${userId} AND status = 'active') as reserved
+    `
+
+    const limit = PLAN_TOKEN_LIMITS[users[0].plan as User['plan']] ?? PLAN_TOKEN_LIMITS.BASIC
+    const used = Number(totals[0].used)
+    const reserved = Number(totals[0].reserved)
+    const quota: QuotaStatus = {
+      limit,
+      used,
+      reserved,
+      remaining: Math.max(limit - used - reserved, 0),
+      resetsAt: window.end
+    }
+
+    if (tokens > quota.remaining) {
+      await client.sql`ROLLBACK`
+      return { reservation: null, quota }
+    }
+
+    const { rows } = await client.sql`
+      INSERT INTO token_reservations (user_id, tokens, expires_at)
+      VALUES (${userId}, ${tokens}, NOW() + make_interval(secs => ${ttlSeconds}))
+      RETURNING *
+    `
+
+    await client.sql`COMMIT`
+    return {
+      reservation: rows[0] as TokenReservation,
+      quota: { ...quota, reserved: reserved + tokens, remaining: quota.remaining - tokens }
+    }
+  } catch (error) {
+    await client.sql`ROLLBACK`.catch(() => undefined)
+    throw error
+  } finally {
+    client.release()
   }
-  
-  const limit = limits[user.plan]
-  return (usage.total_tokens + tokensNeeded) <= limit
+}
+
+// Records actual usage for a finished request and retires its reservation,
+// shrinking it to the tokens actually used so the rest of the hold goes back
+// to the quota. Usage is written first so the tokens are never uncounted in between.
+export async function reconcileReservation(
+  reservation: TokenReservation,
+  model: string,
+  usage: TokenBreakdown,
+  costUsd: number,
+  requestType: string = 'chat'
+): Promise<void> {
+  await logTokenUsage(reservation.user_id, model, usage, costUsd, requestType)
+
+  const tokensUsed = usage.promptTokens + usage.completionTokens
+
+  await sql`
+    UPDATE token_reservations
+    SET status = 'committed', tokens = LEAST(tokens, ${tokensUsed})
+    WHERE id = ${reservation.id} AND status = 'active'
+  `
+}
+
+// Frees a reservation whose request failed before producing usage
+export async function releaseReservation(reservation: TokenReservation): Promise<void> {
+  await sql`
+    UPDATE token_reservations
+    SET status = 'released'
+    WHERE id = ${reservation.id} AND status = 'active'
+  `
 }
 
 // =============================================
@@ -339,6 +527,22 @@ export async function updateSubscriptionStatus(
   }
 }
 
+// Stripe moves the period forward on every renewal, and usage windows are
+// read from these columns, so keep them in step with each subscription update
+export async function updateSubscriptionPeriod(
+  stripeSubscriptionId: string,
+  currentPeriodStart: Date,
+  currentPeriodEnd: Date
+): Promise<void> {
+  await sql`
+    UPDATE subscriptions 
+    SET current_period_start = ${currentPeriodStart.toISOString()},
+        current_period_end = ${currentPeriodEnd.toISOString()},
+        updated_at = NOW()
+    WHERE stripe_subscription_id = ${stripeSubscriptionId}
+  `
+}
+
 export async function getUserSubscription(userId: string): Promise<any> {
   const { rows } = await sql`
     SELECT * FROM subscriptions 
@@ -0,0 +1,427 @@
+// lib/modelCatalog.ts - Single source of truth for AI model metadata
+// Shared by the backend router and the Framer plugin's model pickers.
+// Keep this file free of runtime dependencies so both builds can import it.
+
+export type ModelProvider =
+  | 'openai'
+  | 'anthropic'
+  | 'google'
+  | 'xai'
+  | 'meta-llama'
+  | 'cohere'
+  | 'mistral'
+  | 'perplexity'
+
+export type PlanTier = 'BASIC' | 'MAX' | 'BEAST' | 'ULTIMATE'
+
+export type ModelCapability =
+  | 'text-generation'
+  | 'coding'
+  | 'reasoning'
+  | 'ui-design'
+  | 'function-calling'
+  | 'vision'
+  | 'long-context'
+  | 'fast-responses'
+  | 'analysis'
+  | 'retrieval'
+  | 'real-time-data'
+  | 'multilingual'
+  | 'open-source'
+
+export interface ModelDefinition {
+  // Gateway-style id ("provider/model"), used by the plugin and as the canonical key
+  id: string
+  // Model name sent to the provider's own API by the backend
+  apiModel: string
+  // Legacy ids still accepted from stored preferences and older clients
+  aliases?: string[]
+  provider: ModelProvider
+  displayName: string
+  description: string
+  contextWindow: number
+  maxOutputTokens: number
+  // USD per 1,000 tokens
+  pricing: {
+    input: number
+    output: number
+    // Prompt tokens read from the provider's cache; billed at `input` when unset
+    cachedInput?: number
+  }
+  capabilities: ModelCapability[]
+  minPlan: PlanTier
+  // Comparable models from other providers, in order of preference, used
+  // for failover when this model's provider is unavailable
+  equivalents?: string[]
+}
+
+export const PLAN_ORDER: PlanTier[] = ['BASIC', 'MAX', 'BEAST', 'ULTIMATE']
+
+export const MODEL_CATALOG: ModelDefinition[] = [
+  // =============================================
+  // OPENAI
+  // =============================================
+  {
+    id: 'openai/gpt-3.5-turbo',
+    apiModel: 'gpt-3.5-turbo',
+    provider: 'openai',
+    displayName: 'GPT-3.5 Turbo',
+    description: 'Fast and cost-effective for basic tasks',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.0005, output: 0.0015 },
+    capabilities: ['text-generation', 'coding', 'fast-responses'],
+    minPlan: 'BASIC',
+    equivalents: ['anthropic/claude-3-haiku', 'google/gemini-1.5-flash']
+  },
+  {
+    id: 'openai/gpt-4.1',
+    apiModel: 'gpt-4.1',
+    provider: 'openai',
+    displayName: 'GPT-4.1',
+    description: 'Strong coding model with a very long context window',
+    contextWindow: 1047576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.002, output: 0.008, cachedInput: 0.0005 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'function-calling', 'long-context'],
+    minPlan: 'BASIC',
+    equivalents: ['anthropic/claude-3-7-sonnet', 'google/gemini-1.5-pro']
+  },
+  {
+    id: 'openai/gpt-4o-mini',
+    apiModel: 'gpt-4o-mini',
+    provider: 'openai',
+    displayName: 'GPT-4o Mini',
+    description: 'Balanced performance and cost-efficiency',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.00015, output: 0.0006, cachedInput: 0.000075 },
+    capabilities: ['text-generation', 'coding', 'reasoning', 'ui-design', 'function-calling'],
+    minPlan: 'MAX',
+    equivalents: ['anthropic/claude-3-5-haiku', 'google/gemini-1.5-flash']
+  },
+  {
+    id: 'openai/gpt-4o',
+    apiModel: 'gpt-4o',
+    provider: 'openai',
+    displayName: 'GPT-4o',
+    description: 'Most capable OpenAI model for complex reasoning',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.0025, output: 0.01, cachedInput: 0.00125 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'vision', 'function-calling'],
+    minPlan: 'MAX',
+    equivalents: ['anthropic/claude-3-5-sonnet', 'google/gemini-1.5-pro']
+  },
+  {
+    id: 'openai/gpt-4-turbo',
+    apiModel: 'gpt-4-turbo',
+    provider: 'openai',
+    displayName: 'GPT-4 Turbo',
+    description: 'High-performance model with enhanced speed',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.01, output: 0.03 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'long-context', 'function-calling'],
+    minPlan: 'MAX',
+    equivalents: ['anthropic/claude-3-5-sonnet', 'google/gemini-1.5-pro']
+  },
+  {
+    id: 'openai/gpt-4',
+    apiModel: 'gpt-4',
+    provider: 'openai',
+    displayName: 'GPT-4',
+    description: 'Original GPT-4 with careful, thorough answers',
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.03, output: 0.06 },
+    capabilities: ['coding', 'reasoning', 'function-calling'],
+    minPlan: 'BEAST',
+    equivalents: ['anthropic/claude-3-opus', 'google/gemini-2.5-pro']
+  },
+
+  // =============================================
+  // ANTHROPIC
+  // =============================================
+  {
+    id: 'anthropic/claude-3-haiku',
+    apiModel: 'claude-3-haiku-20240307',
+    provider: 'anthropic',
+    displayName: 'Claude 3 Haiku',
+    description: 'Quick responses for simple coding tasks',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.00025, output: 0.00125, cachedInput: 0.00003 },
+    capabilities: ['text-generation', 'coding', 'fast-responses'],
+    minPlan: 'BASIC',
+    equivalents: ['openai/gpt-3.5-turbo', 'google/gemini-1.5-flash']
+  },
+  {
+    id: 'anthropic/claude-3-7-sonnet',
+    apiModel: 'claude-3-7-sonnet-20250219',
+    aliases: ['claude-3.7-sonnet'],
+    provider: 'anthropic',
+    displayName: 'Claude 3.7 Sonnet',
+    description: 'Everyday design and coding partner',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.003, output: 0.015, cachedInput: 0.0003 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'analysis', 'function-calling'],
+    minPlan: 'BASIC',
+    equivalents: ['openai/gpt-4.1', 'google/gemini-1.5-pro']
+  },
+  {
+    id: 'anthropic/claude-3-5-haiku',
+    apiModel: 'claude-3-5-haiku-20241022',
+    provider: 'anthropic',
+    displayName: 'Claude 3.5 Haiku',
+    description: 'Enhanced speed with improved accuracy',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.0008, output: 0.004, cachedInput: 0.00008 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'fast-responses'],
+    minPlan: 'MAX',
+    equivalents: ['openai/gpt-4o-mini', 'google/gemini-1.5-flash']
+  },
+  {
+    id: 'anthropic/claude-3-5-sonnet',
+    apiModel: 'claude-3-5-sonnet-20241022',
+    aliases: ['claude-3.5-sonnet'],
+    provider: 'anthropic',
+    displayName: 'Claude 3.5 Sonnet',
+    description: 'Best balance of intelligence and speed',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.003, output: 0.015, cachedInput: 0.0003 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'analysis', 'function-calling'],
+    minPlan: 'MAX',
+    equivalents: ['openai/gpt-4o', 'google/gemini-1.5-pro']
+  },
+  {
+    id: 'anthropic/claude-3-sonnet',
+    apiModel: 'claude-3-sonnet-20240229',
+    aliases: ['claude-3-sonnet-20240229'],
+    provider: 'anthropic',
+    displayName: 'Claude 3 Sonnet',
+    description: 'Reliable mid-size Claude model',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.003, output: 0.015 },
+    capabilities: ['coding', 'reasoning', 'analysis'],
+    minPlan: 'MAX',
+    equivalents: ['openai/gpt-4-turbo', 'google/gemini-1.5-pro']
+  },
+  {
+    id: 'anthropic/claude-sonnet-4',
+    apiModel: 'claude-sonnet-4-20250514',
+    aliases: ['claude-4-sonnet'],
+    provider: 'anthropic',
+    displayName: 'Claude Sonnet 4',
+    description: 'Expert coding with strong agentic behaviour',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.003, output: 0.015, cachedInput: 0.0003 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'analysis', 'function-calling'],
+    minPlan: 'MAX',
+    equivalents: ['openai/gpt-4.1', 'google/gemini-2.5-pro']
+  },
+  {
+    id: 'anthropic/claude-3-opus',
+    apiModel: 'claude-3-opus-20240229',
+    aliases: ['claude-3-opus-20240229'],
+    provider: 'anthropic',
+    displayName: 'Claude 3 Opus',
+    description: 'Most powerful Claude 3 model for complex tasks',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.015, output: 0.075, cachedInput: 0.0015 },
+    capabilities: ['coding', 'reasoning', 'analysis'],
+    minPlan: 'BEAST',
+    equivalents: ['openai/gpt-4', 'google/gemini-2.5-pro']
+  },
+  {
+    id: 'anthropic/claude-opus-4.1',
+    apiModel: 'claude-opus-4-1-20250805',
+    aliases: ['claude-4.1-opus'],
+    provider: 'anthropic',
+    displayName: 'Claude Opus 4.1',
+    description: 'Top-tier reasoning for large, multi-step builds',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.015, output: 0.075, cachedInput: 0.0015 },
+    capabilities: ['coding', 'reasoning', 'ui-design', 'analysis', 'function-calling'],
+    minPlan: 'BEAST',
+    equivalents: ['google/gemini-2.5-pro', 'openai/gpt-4']
+  },
+
+  // =============================================
+  // GOOGLE
+  // =============================================
+  {
+    id: 'google/gemini-1.5-flash',
+    apiModel: 'gemini-1.5-flash',
+    provider: 'google',
+    displayName: 'Gemini 1.5 Flash',
+    description: 'Lightning-fast with multimodal capabilities',
+    contextWindow: 1000000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.000075, output: 0.0003, cachedInput: 0.00001875 },
+    capabilities: ['coding', 'vision', 'fast-responses', 'long-context'],
+    minPlan: 'BASIC',
+    equivalents: ['openai/gpt-4o-mini', 'anthropic/claude-3-haiku']
+  },
+  {
+    id: 'google/gemini-pro',
+    apiModel: 'gemini-pro',
+    aliases: ['gemini-pro'],
+    provider: 'google',
+    displayName: 'Gemini Pro',
+    description: 'General-purpose Gemini model',
+    contextWindow: 32760,
+    maxOutputTokens: 2048,
+    pricing: { input: 0.0005, output: 0.0015 },
+    capabilities: ['text-generation', 'coding', 'reasoning'],
+    minPlan: 'MAX',
+    equivalents: ['openai/gpt-3.5-turbo', 'anthropic/claude-3-haiku']
+  },
+  {
+    id: 'google/gemini-1.5-pro',
+    apiModel: 'gemini-1.5-pro',
+    provider: 'google',
+    displayName: 'Gemini 1.5 Pro',
+    description: 'Advanced reasoning with extended context',
+    contextWindow: 2000000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.00125, output: 0.005, cachedInput: 0.0003125 },
+    capabilities: ['coding', 'reasoning', 'vision', 'long-context'],
+    minPlan: 'MAX',
+    equivalents: ['openai/gpt-4o', 'anthropic/claude-3-5-sonnet']
+  },
+  {
+    id: 'google/gemini-2.5-pro',
+    apiModel: 'gemini-2.5-pro',
+    provider: 'google',
+    displayName: 'Gemini 2.5 Pro',
+    description: 'Google\'s strongest reasoning model',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.00125, output: 0.01, cachedInput: 0.00031 },
+    capabilities: ['coding', 'reasoning', 'vision', 'long-context', 'function-calling'],
+    minPlan: 'BEAST',
+    equivalents: ['anthropic/claude-sonnet-4', 'openai/gpt-4.1']
+  },
+
+  // =============================================
+  // GATEWAY-ONLY PROVIDERS
+  // =============================================
+  {
+    id: 'cohere/command-r',
+    apiModel: 'command-r',
+    provider: 'cohere',
+    displayName: 'Command R',
+    description: 'Specialized for retrieval and summarization',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.00015, output: 0.0006 },
+    capabilities: ['retrieval', 'text-generation'],
+    minPlan: 'MAX'
+  },
+  {
+    id: 'cohere/command-r-plus',
+    apiModel: 'command-r-plus',
+    provider: 'cohere',
+    displayName: 'Command R+',
+    description: 'Advanced RAG and enterprise applications',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.0025, output: 0.01 },
+    capabilities: ['retrieval', 'reasoning'],
+    minPlan: 'BEAST'
+  },
+  {
+    id: 'xai/grok-beta',
+    apiModel: 'grok-beta',
+    provider: 'xai',
+    displayName: 'Grok Beta',
+    description: 'Real-time knowledge with conversational AI',
+    contextWindow: 131072,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.005, output: 0.015 },
+    capabilities: ['real-time-data', 'coding', 'reasoning'],
+    minPlan: 'BEAST'
+  },
+  {
+    id: 'meta-llama/llama-3.1-70b',
+    apiModel: 'llama-3.1-70b',
+    provider: 'meta-llama',
+    displayName: 'Llama 3.1 70B',
+    description: 'Open-source powerhouse for development',
+    contextWindow: 131072,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.00072, output: 0.00072 },
+    capabilities: ['open-source', 'coding', 'reasoning'],
+    minPlan: 'BEAST'
+  },
+  {
+    id: 'meta-llama/llama-3.1-405b',
+    apiModel: 'llama-3.1-405b',
+    provider: 'meta-llama',
+    displayName: 'Llama 3.1 405B',
+    description: 'Largest open model for enterprise tasks',
+    contextWindow: 131072,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.003, output: 0.003 },
+    capabilities: ['open-source', 'coding', 'reasoning'],
+    minPlan: 'ULTIMATE'
+  },
+  {
+    id: 'mistral/mistral-large',
+    apiModel: 'mistral-large',
+    provider: 'mistral',
+    displayName: 'Mistral Large',
+    description: 'European AI excellence for coding',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.002, output: 0.006 },
+    capabilities: ['coding', 'reasoning', 'multilingual'],
+    minPlan: 'ULTIMATE'
+  },
+  {
+    id: 'perplexity/llama-3.1-sonar-large',
+    apiModel: 'llama-3.1-sonar-large',
+    provider: 'perplexity',
+    displayName: 'Sonar Large',
+    description: 'Search-augmented generation specialist',
+    contextWindow: 127072,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.001, output: 0.001 },
+    capabilities: ['real-time-data', 'retrieval', 'analysis'],
+    minPlan: 'ULTIMATE'
+  }
+]
+
+// =============================================
+// LOOKUPS
+// =============================================
+
+// Resolves a catalog id, provider model name or legacy alias
+export function findModel(model: string): ModelDefinition | undefined {
+  return MODEL_CATALOG.find(definition =>
+    definition.id === model ||
+    definition.apiModel === model ||
+    definition.aliases?.includes(model)
+  )
+}
+
+export function normalizePlan(plan: string | null | undefined): PlanTier {
+  const normalized = (plan || '').toUpperCase() as PlanTier
+  return PLAN_ORDER.includes(normalized) ? normalized : 'BASIC'
+}
+
+export function planIncludes(plan: string | null | undefined, requiredPlan: PlanTier): boolean {
+  return PLAN_ORDER.indexOf(normalizePlan(plan)) >= PLAN_ORDER.indexOf(requiredPlan)
+}
+
+export function getModelsForPlan(plan: string | null | undefined): ModelDefinition[] {
+  return MODEL_CATALOG.filter(definition => planIncludes(plan, definition.minPlan))
+}
@@ -3,22 +3,65 @@
 
 import OpenAI from 'openai'
 import Anthropic from '@anthropic-ai/sdk'
+import { findModel, planIncludes, ModelDefinition, ModelProvider } from './modelCatalog'
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DEFAULT_RESILIENCE_CONFIG,
+  ProviderError,
+  ResilienceConfig,
+  ResilienceRuntime,
+  defaultRuntime,
+  getErrorStatus,
+  isRetryableError,
+  withRetry,
+  withTimeout
+} from './resilience'
+
+// Token counts as reported by the provider. `cachedTokens` is the part of
+// `promptTokens` served from the provider's prompt cache.
+export interface TokenBreakdown {
+  promptTokens: number
+  completionTokens: number
+  cachedTokens: number
+}
 
-export interface ModelResponse {
+export interface ModelResponse extends TokenBreakdown {
   text: string
+  // Total of prompt and completion tokens
   tokenUsage: number
   model: string
   cost: number
+  // Requested model, set when the response came from a failover model instead
+  fallbackFrom?: string
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant'
+  content: string
 }
 
 export interface ModelRequest {
   model: string
-  prompt: string
+  // Single-turn shorthand; ignored when `messages` is provided
+  prompt?: string
+  // Ordered conversation history, oldest first, ending with the user's turn
+  messages?: ConversationMessage[]
   context?: any
   mode?: 'ask' | 'agent'
   maxTokens?: number
+  // Allow failing over to an equivalent model from another provider
+  fallback?: boolean
+  // Plan used to filter failover candidates
+  userPlan?: string
 }
 
+// Events yielded by the streaming provider calls. Deltas arrive as the model
+// generates text; a single `done` event closes the stream with final usage.
+export type ModelStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ModelResponse }
+
 // =============================================
 // OPENAI INTEGRATION
 // =============================================
@@ -27,15 +70,16 @@ const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY!,
 })
 
-export async function callOpenAI(model: string, prompt: string, context?: any): Promise<ModelResponse> {
+export async function callOpenAI(model: string, messages: ConversationMessage[], context?: any): Promise<ModelResponse> {
   try {
-    const systemPrompt = getSystemPrompt('openai', context?.mode || 'ask')
+    const systemPrompt = buildSystemPrompt('openai', context)
+    const conversation = fitToContextWindow(model, systemPrompt, messages)
     
     const completion = await openai.chat.completions.create({
       model: model,
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
+        ...conversation
       ],
       max_tokens: getMaxTokensForModel(model),
       temperature: 0.7,
@@ -44,16 +88,57 @@ export async function callOpenAI(model: string, prompt: string, context?: any):
     const usage = completion.usage
     const responseText = completion.choices[0]?.message?.content || ''
     
-    return {
-      text: responseText,
-      tokenUsage: usage?.total_tokens || 0,
+    return buildModelResponse(model, responseText, {
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      cachedTokens: usage?.prompt_tokens_details?.cached_tokens || 0
+    })
+  } catch (error) {
+    console.error('OpenAI API Error:', error)
+    throw new ProviderError(`OpenAI API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, getErrorStatus(error))
+  }
+}
+
+export async function* streamOpenAI(model: string, messages: ConversationMessage[], context?: any): AsyncGenerator<ModelStreamEvent> {
+  let responseText = ''
+  const usage: TokenBreakdown = { promptTokens: 0, completionTokens: 0, cachedTokens: 0 }
+
+  try {
+    const systemPrompt = buildSystemPrompt('openai', context)
+    const conversation = fitToContextWindow(model, systemPrompt, messages)
+
+    const stream = await openai.chat.completions.create({
       model: model,
-      cost: calculateCost(model, usage?.total_tokens || 0)
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...conversation
+      ],
+      max_tokens: getMaxTokensForModel(model),
+      temperature: 0.7,
+      stream: true,
+      stream_options: { include_usage: true },
+    })
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) {
+        responseText += delta
+        yield { type: 'delta', text: delta }
+      }
+
+      // Usage arrives on the final chunk, which has no choices
+      if (chunk.usage) {
+        usage.promptTokens = chunk.usage.prompt_tokens
+        usage.completionTokens = chunk.usage.completion_tokens
+        usage.cachedTokens = chunk.usage.prompt_tokens_details?.cached_tokens || 0
+      }
     }
   } catch (error) {
     console.error('OpenAI API Error:', error)
-    throw new Error(`OpenAI API Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw new ProviderError(`OpenAI API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, getErrorStatus(error))
   }
+
+  yield { type: 'done', response: buildModelResponse(model, responseText, usage) }
 }
 
 // =============================================
@@ -64,43 +149,72 @@ const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
 })
 
-export async function callClaude(model: string, prompt: string, context?: any): Promise<ModelResponse> {
+export async function callClaude(model: string, messages: ConversationMessage[], context?: any): Promise<ModelResponse> {
   try {
-    const systemPrompt = getSystemPrompt('anthropic', context?.mode || 'ask')
+    const systemPrompt = buildSystemPrompt('anthropic', context)
+    const conversation = fitToContextWindow(model, systemPrompt, messages)
     
     const message = await anthropic.messages.create({
       model: model,
       max_tokens: getMaxTokensForModel(model),
       system: systemPrompt,
-      messages: [
-        { role: 'user', content: prompt }
-      ],
+      messages: toClaudeMessages(conversation),
       temperature: 0.7,
     })
 
     const responseText = message.content[0]?.type === 'text' ? message.content[0].text : ''
-    const tokenUsage = message.usage.input_tokens + message.usage.output_tokens
     
-    return {
-      text: responseText,
-      tokenUsage: tokenUsage,
+    return buildModelResponse(model, responseText, fromClaudeUsage(message.usage))
+  } catch (error) {
+    console.error('Claude API Error:', error)
+    throw new ProviderError(`Claude API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, getErrorStatus(error))
+  }
+}
+
+export async function* streamClaude(model: string, messages: ConversationMessage[], context?: any): AsyncGenerator<ModelStreamEvent> {
+  let responseText = ''
+  let usage: TokenBreakdown = { promptTokens: 0, completionTokens: 0, cachedTokens: 0 }
+
+  try {
+    const systemPrompt = buildSystemPrompt('anthropic', context)
+    const conversation = fitToContextWindow(model, systemPrompt, messages)
+
+    const stream = await anthropic.messages.create({
       model: model,
-      cost: calculateCost(model, tokenUsage)
+      max_tokens: getMaxTokensForModel(model),
+      system: systemPrompt,
+      messages: toClaudeMessages(conversation),
+      temperature: 0.7,
+      stream: true,
+    })
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        usage = fromClaudeUsage(event.message.usage)
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        responseText += event.delta.text
+        yield { type: 'delta', text: event.delta.text }
+      } else if (event.type === 'message_delta') {
+        // Cumulative count, so the last event wins
+        usage.completionTokens = event.usage.output_tokens
+      }
     }
   } catch (error) {
     console.error('Claude API Error:', error)
-    throw new Error(`Claude API Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw new ProviderError(`Claude API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, getErrorStatus(error))
   }
+
+  yield { type: 'done', response: buildModelResponse(model, responseText, usage) }
 }
 
 // =============================================
 // GOOGLE GEMINI INTEGRATION
 // =============================================
 
-export async function callGemini(model: string, prompt: string, context?: any): Promise<ModelResponse> {
+export async function callGemini(model: string, messages: ConversationMessage[], context?: any): Promise<ModelResponse> {
   try {
-    const systemPrompt = getSystemPrompt('google', context?.mode || 'ask')
-    const fullPrompt = `${systemPrompt}\n\nUser: ${prompt}`
+    const systemPrompt = buildSystemPrompt('google', context)
+    const conversation = fitToContextWindow(model, systemPrompt, messages)
     
     const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${process.env.GEMINI_API_KEY}`, {
       method: 'POST',
@@ -108,9 +222,10 @@ export async function callGemini(model: string, prompt: string, context?: any):
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        contents: [{
-          parts: [{ text: fullPrompt }]
-        }],
+        systemInstruction: {
+          parts: [{ text: systemPrompt }]
+        },
+        contents: toGeminiContents(conversation),
         generationConfig: {
           temperature: 0.7,
           maxOutputTokens: getMaxTokensForModel(model),
@@ -119,31 +234,219 @@ export async function callGemini(model: string, prompt: string, context?: any):
     })
 
     if (!response.ok) {
-      throw new Error(`Gemini API Error: ${response.status} ${response.statusText}`)
+      throw new ProviderError(`Gemini API Error: ${response.status} ${response.statusText}`, response.status)
     }
 
     const data = await response.json()
     const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || ''
     
-    // Estimate token usage (Gemini doesn't always provide exact counts)
-    const estimatedTokens = Math.ceil((prompt.length + responseText.length) / 4)
     
-    return {
-      text: responseText,
-      tokenUsage: estimatedTokens,
-      model: model,
-      cost: calculateCost(model, estimatedTokens)
+    return buildModelResponse(model, responseText, fromGeminiUsage(data.usageMetadata, conversation, responseText))
+  } catch (error) {
+    console.error('Gemini API Error:', error)
+    if (error instanceof ProviderError) throw error
+    throw new ProviderError(`Gemini API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, getErrorStatus(error))
+  }
+}
+
+export async function* streamGemini(model: string, messages: ConversationMessage[], context?: any): AsyncGenerator<ModelStreamEvent> {
+  const systemPrompt = buildSystemPrompt('google', context)
+  const conversation = fitToContextWindow(model, systemPrompt, messages)
+  let responseText = ''
+  let usageMetadata: any
+
+  try {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${process.env.GEMINI_API_KEY}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        systemInstruction: {
+          parts: [{ text: systemPrompt }]
+        },
+        contents: toGeminiContents(conversation),
+        generationConfig: {
+          temperature: 0.7,
+          maxOutputTokens: getMaxTokensForModel(model),
+        }
+      })
+    })
+
+    if (!response.ok || !response.body) {
+      throw new ProviderError(`Gemini API Error: ${response.status} ${response.statusText}`, response.status)
+    }
+
+    for await (const data of readEventStream(response.body)) {
+      const delta = data.candidates?.[0]?.content?.parts?.[0]?.text
+      if (delta) {
+        responseText += delta
+        yield { type: 'delta', text: delta }
+      }
+
+      // Every chunk carries running totals, so the last one wins
+      if (data.usageMetadata) {
+        usageMetadata = data.usageMetadata
+      }
     }
   } catch (error) {
     console.error('Gemini API Error:', error)
-    throw new Error(`Gemini API Error: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    if (error instanceof ProviderError) throw error
+    throw new ProviderError(`Gemini API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, getErrorStatus(error))
+  }
+
+  yield {
+    type: 'done',
+    response: buildModelResponse(model, responseText, fromGeminiUsage(usageMetadata, conversation, responseText))
+  }
+}
+
+// Parses the `data:` payloads of an SSE response body as JSON
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        yield JSON.parse(line.slice(5).trim())
+      }
+    }
+  }
+
+  if (buffer.startsWith('data:')) {
+    yield JSON.parse(buffer.slice(5).trim())
+  }
+}
+
+// =============================================
+// CONVERSATION HANDLING
+// =============================================
+
+// Normalizes a request body into an ordered conversation. Accepts either a
+// `messages` history or a single `prompt`; returns null when neither is usable.
+export function buildConversation(prompt?: unknown, messages?: unknown): ConversationMessage[] | null {
+  if (Array.isArray(messages) && messages.length > 0) {
+    const conversation: ConversationMessage[] = []
+
+    for (const message of messages) {
+      if (
+        !message ||
+        (message.role !== 'user' && message.role !== 'assistant') ||
+        typeof message.content !== 'string'
+      ) {
+        return null
+      }
+      conversation.push({ role: message.role, content: message.content })
+    }
+
+    // The model always answers the latest user turn
+    if (conversation[conversation.length - 1].role !== 'user') {
+      return null
+    }
+
+    return conversation
+  }
+
+  if (typeof prompt === 'string' && prompt.trim()) {
+    return [{ role: 'user', content: prompt }]
+  }
+
+  return null
+}
+
+// Drops the oldest turns until the conversation, the system prompt and the
+// reserved output tokens fit inside the model's context window. The latest
+// turn is always kept.
+function fitToContextWindow(
+  model: string,
+  systemPrompt: string,
+  messages: ConversationMessage[]
+): ConversationMessage[] {
+  const budget = getContextWindowForModel(model) - getMaxTokensForModel(model) - estimateTextTokens(systemPrompt)
+  const kept: ConversationMessage[] = []
+  let used = 0
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTextTokens(messages[i].content)
+    if (kept.length > 0 && used + tokens > budget) break
+
+    kept.unshift(messages[i])
+    used += tokens
+  }
+
+  // Providers expect the conversation to open with a user turn
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift()
+  }
+
+  return kept
+}
+
+// Claude requires strictly alternating roles, so consecutive turns from the
+// same speaker are merged
+function toClaudeMessages(messages: ConversationMessage[]): Anthropic.MessageParam[] {
+  const merged: Anthropic.MessageParam[] = []
+
+  for (const message of messages) {
+    const previous = merged[merged.length - 1]
+    if (previous && previous.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`
+    } else {
+      merged.push({ role: message.role, content: message.content })
+    }
   }
+
+  return merged
+}
+
+// Gemini names the assistant role "model" and has the same alternation rule
+function toGeminiContents(messages: ConversationMessage[]): Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }> {
+  const contents: Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }> = []
+
+  for (const message of messages) {
+    const role = message.role === 'assistant' ? 'model' : 'user'
+    const previous = contents[contents.length - 1]
+    if (previous && previous.role === role) {
+      previous.parts.push({ text: message.content })
+    } else {
+      contents.push({ role, parts: [{ text: message.content }] })
+    }
+  }
+
+  return contents
+}
+
+function estimateTextTokens(text: string): number {
+  // Rough estimation: ~4 characters per token
+  return Math.ceil(text.length / 4)
 }
 
 // =============================================
 // SYSTEM PROMPTS
 // =============================================
 
+// Provider prompt plus whatever the client sent about the canvas and project
+function buildSystemPrompt(provider: string, context?: any): string {
+  const contextString = processContext(context)
+  let systemPrompt = getSystemPrompt(provider, context?.mode || 'ask')
+
+  // Rules the plugin resolved for this request, already ordered by priority and trimmed to budget
+  if (typeof context?.rules === 'string' && context.rules) {
+    systemPrompt += `\n\nUser rules (always follow these; earlier rules take precedence):\n${context.rules}`
+  }
+
+  return contextString ? `${systemPrompt}\n\nCurrent context:${contextString}` : systemPrompt
+}
+
 function getSystemPrompt(provider: string, mode: 'ask' | 'agent'): string {
   const basePrompt = `You are Framium AI, an intelligent design and development assistant integrated with Framer. You help users create beautiful, functional UI components and automate design workflows.
 
@@ -186,63 +489,66 @@ ASK MODE: Provide helpful, detailed responses to user questions. When generating
 // =============================================
 
 function getMaxTokensForModel(model: string): number {
-  const tokenLimits: { [key: string]: number } = {
-    // OpenAI models
-    'gpt-4': 4096,
-    'gpt-4-turbo': 4096,
-    'gpt-4o': 4096,
-    'gpt-4.1': 8192,
-    'gpt-3.5-turbo': 4096,
-    
-    // Anthropic models
-    'claude-3-opus-20240229': 4096,
-    'claude-3-sonnet-20240229': 4096,
-    'claude-3-haiku-20240307': 4096,
-    'claude-3.5-sonnet': 4096,
-    'claude-4-sonnet': 8192,
-    'claude-4.1-opus': 8192,
-    'claude-3.7-sonnet': 8192,
-    
-    // Google models
-    'gemini-pro': 2048,
-    'gemini-1.5-pro': 8192,
-    'gemini-2.5-pro': 8192,
-  }
-  
-  return tokenLimits[model] || 4096
+  return findModel(model)?.maxOutputTokens || 4096
+}
+
+function getContextWindowForModel(model: string): number {
+  return findModel(model)?.contextWindow || 8192
 }
 
 // =============================================
 // COST CALCULATION
 // =============================================
 
-function calculateCost(model: string, tokens: number): number {
-  // Cost per 1000 tokens (as of 2025)
-  const costPer1k: { [key: string]: number } = {
-    // OpenAI models
-    'gpt-4': 0.03,
-    'gpt-4-turbo': 0.01,
-    'gpt-4o': 0.025,
-    'gpt-4.1': 0.003,
-    'gpt-3.5-turbo': 0.001,
-    
-    // Anthropic models
-    'claude-3-opus-20240229': 0.075,
-    'claude-3-sonnet-20240229': 0.015,
-    'claude-3-haiku-20240307': 0.0025,
-    'claude-3.5-sonnet': 0.015,
-    'claude-4-sonnet': 0.03,
-    'claude-4.1-opus': 0.06,
-    'claude-3.7-sonnet': 0.0025,
-    
-    // Google models
-    'gemini-pro': 0.005,
-    'gemini-1.5-pro': 0.0025,
-    'gemini-2.5-pro': 0.05,
+export function calculateCost(model: string, usage: TokenBreakdown): number {
+  const pricing = findModel(model)?.pricing || { input: 0.01, output: 0.01 }
+  const cachedRate = pricing.cachedInput ?? pricing.input
+  const uncachedTokens = Math.max(usage.promptTokens - usage.cachedTokens, 0)
+
+  return (
+    (uncachedTokens / 1000) * pricing.input +
+    (usage.cachedTokens / 1000) * cachedRate +
+    (usage.completionTokens / 1000) * pricing.output
+  )
+}
+
+function buildModelResponse(model: string, text: string, usage: TokenBreakdown): ModelResponse {
+  return {
+    text,
+    ...usage,
+    tokenUsage: usage.promptTokens + usage.completionTokens,
+    model,
+    cost: calculateCost(model, usage)
+  }
+}
+
+// Anthropic reports cache reads and writes separately from `input_tokens`
+function fromClaudeUsage(usage: Anthropic.Usage & { cache_read_input_tokens?: number | null; cache_creation_input_tokens?: number | null }): TokenBreakdown {
+  const cachedTokens = usage.cache_read_input_tokens || 0
+
+  return {
+    promptTokens: usage.input_tokens + cachedTokens + (usage.cache_creation_input_tokens || 0),
+    completionTokens: usage.output_tokens,
+    cachedTokens
+  }
+}
+
+// Falls back to a character-based estimate if the response has no usageMetadata
+function fromGeminiUsage(usageMetadata: any, conversation: ConversationMessage[], responseText: string): TokenBreakdown {
+  if (!usageMetadata) {
+    return {
+      promptTokens: estimateTextTokens(conversation.map(m => m.content).join('')),
+      completionTokens: estimateTextTokens(responseText),
+      cachedTokens: 0
+    }
+  }
+
+  return {
+    promptTokens: usageMetadata.promptTokenCount || 0,
+    // Thinking models bill reasoning tokens at the output rate
+    completionTokens: (usageMetadata.candidatesTokenCount || 0) + (usageMetadata.thoughtsTokenCount || 0),
+    cachedTokens: usageMetadata.cachedContentTokenCount || 0
   }
-  
-  const rate = costPer1k[model] || 0.01
-  return (tokens / 1000) * rate
 }
 
 // =============================================
@@ -250,65 +556,202 @@ function calculateCost(model: string, tokens: number): number {
 // =============================================
 
 export function isModelAllowed(plan: string, model: string): boolean {
-  const rules: { [key: string]: string[] } = {
-    BASIC: [
-      'gpt-4.1',
-      'claude-3.7-sonnet',
-      'claude-3-haiku-20240307',
-      'gpt-3.5-turbo'
-    ],
-    MAX: [
-      'gpt-4.1',
-      'gpt-4o',
-      'gpt-4-turbo',
-      'claude-3.7-sonnet',
-      'claude-3.5-sonnet',
-      'claude-4-sonnet',
-      'claude-3-sonnet-20240229',
-      'gemini-pro',
-      'gemini-1.5-pro'
-    ],
-    BEAST: [
-      'gpt-4.1',
-      'gpt-4o',
-      'gpt-4-turbo',
-      'gpt-4',
-      'claude-3.7-sonnet',
-      'claude-3.5-sonnet',
-      'claude-4-sonnet',
-      'claude-4.1-opus',
-      'claude-3-opus-20240229',
-      'claude-3-sonnet-20240229',
-      'gemini-pro',
-      'gemini-1.5-pro',
-      'gemini-2.5-pro'
-    ]
+  const definition = findModel(model)
+  if (!definition || !isDirectProvider(definition.provider)) return false
+
+  return planIncludes(plan, definition.minPlan)
+}
+
+export function getRequiredPlan(model: string): string {
+  return findModel(model)?.minPlan || 'BASIC'
+}
+
+// Providers this backend calls directly; the rest are plugin/gateway-only
+function isDirectProvider(provider: ModelProvider): boolean {
+  return provider === 'openai' || provider === 'anthropic' || provider === 'google'
+}
+
+// =============================================
+// TOKEN ESTIMATION
+// =============================================
+
+// Upper bound for a request, used to reserve quota before the call: the
+// estimated input plus the most output the model is allowed to produce
+export function estimateTokenUsage(model: string, messages: ConversationMessage[], context?: any): number {
+  return estimateTextTokens(getRequestText(messages, context)) + getMaxTokensForModel(model)
+}
+
+// Usage for a stream the provider cut off before reporting usage, estimated
+// from the request and the output already relayed to the client
+export function estimatePartialUsage(
+  model: string,
+  messages: ConversationMessage[],
+  context: any,
+  streamedText: string
+): ModelResponse {
+  return buildModelResponse(model, streamedText, {
+    promptTokens: estimateTextTokens(getRequestText(messages, context)),
+    completionTokens: estimateTextTokens(streamedText),
+    cachedTokens: 0
+  })
+}
+
+function getRequestText(messages: ConversationMessage[], context?: any): string {
+  let totalText = messages.map(m => m.content).join('\n')
+  
+  if (context?.selectedFrames) {
+    totalText += JSON.stringify(context.selectedFrames)
   }
   
-  return rules[plan]?.includes(model) || false
+  if (context?.projectContext) {
+    totalText += JSON.stringify(context.projectContext)
+  }
+
+  if (typeof context?.canvas === 'string') {
+    totalText += context.canvas
+  }
+
+  if (typeof context?.rules === 'string') {
+    totalText += context.rules
+  }
+
+  return totalText
 }
 
 // =============================================
 // ROUTE REQUEST TO APPROPRIATE MODEL
 // =============================================
 
-export async function routeModelRequest(request: ModelRequest): Promise<ModelResponse> {
-  const { model, prompt, context } = request
-  
-  try {
-    // Determine provider from model name
-    if (model.startsWith('gpt') || model.includes('gpt')) {
-      return await callOpenAI(model, prompt, context)
-    } else if (model.startsWith('claude') || model.includes('claude')) {
-      return await callClaude(model, prompt, context)
-    } else if (model.startsWith('gemini') || model.includes('gemini')) {
-      return await callGemini(model, prompt, context)
-    } else {
+export type ProviderCall = (model: string, messages: ConversationMessage[], context?: any) => Promise<ModelResponse>
+
+export type ProviderClients = Partial<Record<ModelProvider, ProviderCall>>
+
+export interface ModelRouterOptions {
+  // Provider calls keyed by catalog provider; replace these to stub providers in tests
+  clients?: ProviderClients
+  config?: ResilienceConfig
+  runtime?: ResilienceRuntime
+}
+
+// Builds a router that retries transient provider failures with backoff,
+// trips a circuit breaker per provider, and optionally fails over to an
+// equivalent model from another provider
+export function createModelRouter(options: ModelRouterOptions = {}): (request: ModelRequest) => Promise<ModelResponse> {
+  const clients: ProviderClients = options.clients || {
+    openai: callOpenAI,
+    anthropic: callClaude,
+    google: callGemini
+  }
+  const config = options.config || DEFAULT_RESILIENCE_CONFIG
+  const runtime = options.runtime || defaultRuntime
+  const breakers = new Map<ModelProvider, CircuitBreaker>()
+
+  function getBreaker(provider: ModelProvider): CircuitBreaker {
+    let breaker = breakers.get(provider)
+    if (!breaker) {
+      breaker = new CircuitBreaker(provider, config.circuitBreaker, runtime.now)
+      breakers.set(provider, breaker)
+    }
+    return breaker
+  }
+
+  // The timeout sits outside the breaker: running out of request budget
+  // says nothing about the provider's health
+  function callModel(definition: ModelDefinition, messages: ConversationMessage[], context: any, deadline: number): Promise<ModelResponse> {
+    const call = clients[definition.provider]!
+    const breaker = getBreaker(definition.provider)
+
+    return withRetry(
+      () => withTimeout(
+        () => breaker.execute(() => call(definition.apiModel, messages, context)),
+        deadline - runtime.now(),
+        definition.provider
+      ),
+      config.retry,
+      runtime,
+      deadline
+    )
+  }
+
+  function getFallbackModels(definition: ModelDefinition, plan: string): ModelDefinition[] {
+    return (definition.equivalents || [])
+      .map(id => findModel(id))
+      .filter((candidate): candidate is ModelDefinition =>
+        !!candidate &&
+        candidate.provider !== definition.provider &&
+        !!clients[candidate.provider] &&
+        isModelAllowed(plan, candidate.id) &&
+        getBreaker(candidate.provider).getState() !== 'open'
+      )
+  }
+
+  return async function routeModelRequest(request: ModelRequest): Promise<ModelResponse> {
+    const { model, context } = request
+    const messages = getRequestMessages(request)
+    const definition = findModel(model)
+
+    if (!definition || !clients[definition.provider]) {
       throw new Error(`Unsupported model: ${model}`)
     }
-  } catch (error) {
-    console.error('Model routing error:', error)
-    throw error
+
+    const deadline = runtime.now() + config.deadlineMs
+
+    try {
+      return await callModel(definition, messages, context, deadline)
+    } catch (error) {
+      console.error('Model routing error:', error)
+
+      const providerUnavailable = error instanceof CircuitOpenError || isRetryableError(error)
+      if (!request.fallback || !providerUnavailable) throw error
+
+      const plan = request.userPlan || context?.userPlan || 'BASIC'
+
+      for (const candidate of getFallbackModels(definition, plan)) {
+        if (runtime.now() >= deadline) break
+
+        try {
+          const response = await callModel(candidate, messages, context, deadline)
+          return { ...response, fallbackFrom: model }
+        } catch (fallbackError) {
+          console.error(`Fallback to ${candidate.id} failed:`, fallbackError)
+        }
+      }
+
+      throw error
+    }
+  }
+}
+
+// Shared across requests so circuit state survives between warm invocations
+export const routeModelRequest = createModelRouter()
+
+function getRequestMessages(request: ModelRequest): ConversationMessage[] {
+  const messages = buildConversation(request.prompt, request.messages)
+  if (!messages) {
+    throw new Error('Model request requires a prompt or a conversation ending with a user message')
+  }
+  return messages
+}
+
+// =============================================
+// STREAM REQUEST TO APPROPRIATE MODEL
+// =============================================
+
+export function streamModelRequest(request: ModelRequest): AsyncGenerator<ModelStreamEvent> {
+  const { model, context } = request
+  const messages = getRequestMessages(request)
+  const definition = findModel(model)
+
+  // Determine provider from the model catalog
+  switch (definition?.provider) {
+    case 'openai':
+      return streamOpenAI(definition.apiModel, messages, context)
+    case 'anthropic':
+      return streamClaude(definition.apiModel, messages, context)
+    case 'google':
+      return streamGemini(definition.apiModel, messages, context)
+    default:
+      throw new Error(`Unsupported model: ${model}`)
   }
 }
 
@@ -321,6 +764,11 @@ export function processContext(context: any): string {
   
   let contextString = ''
   
+  // Outline of the canvas built by the plugin (see framium/src/services/canvasContext.ts)
+  if (typeof context.canvas === 'string' && context.canvas) {
+    contextString += `\nCanvas:\n${context.canvas}`
+  }
+  
   if (context.selectedFrames?.length > 0) {
     contextString += `\nSelected Frames: ${context.selectedFrames.map((f: any) => f.name).join(', ')}`
   }
@@ -0,0 +1,301 @@
+// lib/rateLimit.ts - Request rate limiting backed by a shared store
+// Limits are keyed on the authenticated user and chosen per plan, so they hold
+// across serverless instances and can't be dodged by spoofing headers.
+
+import { NextApiResponse } from 'next'
+import { db } from '@vercel/postgres'
+import type { AuthenticatedHandler, AuthenticatedRequest } from './auth'
+import type { User } from './db'
+
+// =============================================
+// POLICIES
+// =============================================
+
+export interface SlidingWindowPolicy {
+  algorithm: 'sliding-window'
+  limit: number
+  windowMs: number
+}
+
+export interface TokenBucketPolicy {
+  algorithm: 'token-bucket'
+  capacity: number
+  refillPerSecond: number
+}
+
+export type RateLimitPolicy = SlidingWindowPolicy | TokenBucketPolicy
+
+export const PLAN_RATE_LIMITS: Record<User['plan'], RateLimitPolicy> = {
+  BASIC: { algorithm: 'sliding-window', limit: 20, windowMs: 60000 },
+  MAX: { algorithm: 'token-bucket', capacity: 60, refillPerSecond: 1 },
+  BEAST: { algorithm: 'token-bucket', capacity: 120, refillPerSecond: 3 }
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Milliseconds until the limit is fully replenished
+  resetMs: number
+  // Milliseconds until the next request would be allowed (0 when allowed)
+  retryAfterMs: number
+}
+
+// =============================================
+// STORES
+// =============================================
+
+export type StateUpdate<S, T> = (state: S | null) => { state: S; result: T }
+
+// A store only has to apply an update to one key atomically; the algorithms
+// are pure functions over the stored state
+export interface RateLimitStore {
+  update<S, T>(key: string, ttlMs: number, apply: StateUpdate<S, T>): Promise<T>
+}
+
+// Single-process store for tests and local development
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: unknown; expiresAt: number }>()
+
+  constructor(private now: () => number = Date.now) {}
+
+  async update<S, T>(key: string, ttlMs: number, apply: StateUpdate<S, T>): Promise<T> {
+    const entry = this.entries.get(key)
+    const current = entry && entry.expiresAt > this.now() ? (entry.state as S) : null
+
+    const { state, result } = apply(current)
+    this.entries.set(key, { state, expiresAt: this.now() + ttlMs })
+
+    return result
+  }
+}
+
+// Shared store for production; the key's row is locked for the duration of
+// the update so concurrent invocations see each other's hits
+export class PostgresRateLimitStore implements RateLimitStore {
+  async update<S, T>(key: string, ttlMs: number, apply: StateUpdate<S, T>): Promise<T> {
+    const client = await db.connect()
+
+    try {
+      await client.sql`BEGIN`
+
+      // Make sure a row exists so there is something to lock
+      await client.sql`
+        INSERT INTO rate_limits (key, state, expires_at)
+        VALUES (${key}, NULL, NOW())
+        ON CONFLICT (key) DO NOTHING
+      `
+
+      const { rows } = await client.sql`
+        SELECT state, expires_at > NOW() as live
+        FROM rate_limits
+        WHERE key = ${key}
+        FOR UPDATE
+      `
+
+      const current = rows[0]?.live ? (rows[0].state as S) : null
+      const { state, result } = apply(current)
+
+      await client.sql`
+        UPDATE rate_limits
+        SET state = ${JSON.stringify(state)}::jsonb,
+            expires_at = NOW() + make_interval(secs => ${ttlMs / 1000})
+        WHERE key = ${key}
+      `
+
+      await client.sql`COMMIT`
+      return result
+    } catch (error) {
+      await client.sql`ROLLBACK`.catch(() => undefined)
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+}
+
+// =============================================
+// ALGORITHMS
+// =============================================
+
+interface SlidingWindowState {
+  windowStart: number
+  count: number
+  previousCount: number
+}
+
+interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+// Sliding window counter: the previous fixed window's count is weighted by
+// how much of it still overlaps the sliding window
+export function applySlidingWindow(
+  policy: SlidingWindowPolicy,
+  now: number
+): StateUpdate<SlidingWindowState, RateLimitResult> {
+  return (state) => {
+    const windowStart = Math.floor(now / policy.windowMs) * policy.windowMs
+    let count = 0
+    let previousCount = 0
+
+    if (state && state.windowStart === windowStart) {
+      count = state.count
+      previousCount = state.previousCount
+    } else if (state && state.windowStart === windowStart - policy.windowMs) {
+      previousCount = state.count
+    }
+
+    const elapsed = (now - windowStart) / policy.windowMs
+    const weighted = previousCount * (1 - elapsed) + count
+    const resetMs = windowStart + policy.windowMs - now
+
+    if (weighted + 1 > policy.limit) {
+      return {
+        state: { windowStart, count, previousCount },
+        result: {
+          allowed: false,
+          limit: policy.limit,
+          remaining: 0,
+          resetMs,
+          retryAfterMs: getSlidingWindowRetry(policy, windowStart, count, previousCount, now)
+        }
+      }
+    }
+
+    return {
+      state: { windowStart, count: count + 1, previousCount },
+      result: {
+        allowed: true,
+        limit: policy.limit,
+        remaining: Math.max(Math.floor(policy.limit - weighted - 1), 0),
+        resetMs,
+        retryAfterMs: 0
+      }
+    }
+  }
+}
+
+// Time until the previous window's weight has decayed enough for one more hit
+function getSlidingWindowRetry(
+  policy: SlidingWindowPolicy,
+  windowStart: number,
+  count: number,
+  previousCount: number,
+  now: number
+): number {
+  const nextWindow = windowStart + policy.windowMs - now
+  if (count + 1 > policy.limit || previousCount === 0) return nextWindow
+
+  const overlapAllowed = (policy.limit - count - 1) / previousCount
+  const retryAt = windowStart + (1 - overlapAllowed) * policy.windowMs
+
+  return Math.min(Math.max(Math.ceil(retryAt - now), 0), nextWindow)
+}
+
+export function applyTokenBucket(
+  policy: TokenBucketPolicy,
+  now: number
+): StateUpdate<TokenBucketState, RateLimitResult> {
+  return (state) => {
+    const elapsedSeconds = state ? Math.max(now - state.updatedAt, 0) / 1000 : 0
+    const available = state
+      ? Math.min(policy.capacity, state.tokens + elapsedSeconds * policy.refillPerSecond)
+      : policy.capacity
+
+    const allowed = available >= 1
+    const tokens = allowed ? available - 1 : available
+    const msPerToken = 1000 / policy.refillPerSecond
+
+    return {
+      state: { tokens, updatedAt: now },
+      result: {
+        allowed,
+        limit: policy.capacity,
+        remaining: Math.floor(tokens),
+        resetMs: Math.ceil((policy.capacity - tokens) * msPerToken),
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) * msPerToken)
+      }
+    }
+  }
+}
+
+export function checkRateLimit(
+  store: RateLimitStore,
+  key: string,
+  policy: RateLimitPolicy,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  if (policy.algorithm === 'sliding-window') {
+    return store.update(key, policy.windowMs * 2, applySlidingWindow(policy, now))
+  }
+
+  const refillMs = (policy.capacity / policy.refillPerSecond) * 1000
+  return store.update(key, refillMs, applyTokenBucket(policy, now))
+}
+
+// =============================================
+// MIDDLEWARE
+// =============================================
+
+export interface RateLimitOptions {
+  store?: RateLimitStore
+  // Separate counters per route group, e.g. 'chat'
+  scope?: string
+  planPolicies?: Partial<Record<User['plan'], RateLimitPolicy>>
+  // Overrides for individual users, keyed by user ID
+  userPolicies?: Record<string, RateLimitPolicy>
+}
+
+const defaultStore = new PostgresRateLimitStore()
+
+export function setRateLimitHeaders(res: NextApiResponse, policy: RateLimitPolicy, result: RateLimitResult): void {
+  const policyHeader = policy.algorithm === 'sliding-window'
+    ? `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`
+    : `${policy.capacity};w=${Math.ceil(policy.capacity / policy.refillPerSecond)}`
+
+  res.setHeader('RateLimit-Policy', policyHeader)
+  res.setHeader('RateLimit-Limit', String(result.limit))
+  res.setHeader('RateLimit-Remaining', String(result.remaining))
+  res.setHeader('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)))
+
+  if (!result.allowed) {
+    res.setHeader('Retry-After', String(Math.max(Math.ceil(result.retryAfterMs / 1000), 1)))
+  }
+}
+
+// Wraps an authenticated handler; compose inside requireAuth so the user is known
+export function withRateLimit(handler: AuthenticatedHandler, options: RateLimitOptions = {}): AuthenticatedHandler {
+  const store = options.store || defaultStore
+  const scope = options.scope || 'api'
+
+  return async (req: AuthenticatedRequest, res: NextApiResponse) => {
+    const { user } = req
+    const policy =
+      options.userPolicies?.[user.id] ||
+      options.planPolicies?.[user.plan] ||
+      PLAN_RATE_LIMITS[user.plan] ||
+      PLAN_RATE_LIMITS.BASIC
+
+    let result: RateLimitResult
+    try {
+      result = await checkRateLimit(store, `${scope}:${user.id}`, policy)
+    } catch (error) {
+      // Token quotas still apply, so fail open rather than take the API down
+      console.error('Rate limit store error:', error)
+      return handler(req, res)
+    }
+
+    setRateLimitHeaders(res, policy, result)
+
+    if (!result.allowed) {
+      return res.status(429).json({
+        error: 'Too many requests',
+        retryAfter: Math.max(Math.ceil(result.retryAfterMs / 1000), 1)
+      })
+    }
+
+    return handler(req, res)
+  }
+}
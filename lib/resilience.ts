@@ -0,0 +1,217 @@
+// lib/resilience.ts - Retry, backoff and circuit breaking for provider calls
+// Kept free of SDK imports so the policies can be exercised with stubbed clients.
+
+// =============================================
+// ERRORS
+// =============================================
+
+// Provider failure with the upstream HTTP status when one is known. Messages
+// keep the "<Provider> API Error:" prefix that API routes match on.
+export class ProviderError extends Error {
+  readonly status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'ProviderError'
+    this.status = status
+  }
+}
+
+export class CircuitOpenError extends ProviderError {
+  readonly provider: string
+  readonly retryAt: number
+
+  constructor(provider: string, retryAt: number) {
+    super(`${provider} API Error: circuit open until ${new Date(retryAt).toISOString()}`, 503)
+    this.name = 'CircuitOpenError'
+    this.provider = provider
+    this.retryAt = retryAt
+  }
+}
+
+// The request ran out of its time budget; another attempt would overrun too
+export class DeadlineExceededError extends ProviderError {
+  constructor(provider: string) {
+    super(`${provider} API Error: request deadline exceeded`, 504)
+    this.name = 'DeadlineExceededError'
+  }
+}
+
+// Reads the HTTP status off SDK errors (OpenAI and Anthropic both expose `status`)
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status
+  return typeof status === 'number' ? status : undefined
+}
+
+// Rate limits, timeouts, server errors and network failures (no status) are
+// worth retrying; other client errors will fail the same way again
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError || error instanceof DeadlineExceededError) return false
+
+  const status = getErrorStatus(error)
+  if (status === undefined) return true
+
+  return status === 408 || status === 429 || status >= 500
+}
+
+// =============================================
+// CONFIGURATION
+// =============================================
+
+export interface RetryPolicy {
+  // Total attempts per model, including the first one
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number
+  // How long the circuit stays open before a trial request is let through
+  cooldownMs: number
+}
+
+export interface ResilienceConfig {
+  retry: RetryPolicy
+  circuitBreaker: CircuitBreakerOptions
+  // Time budget for one routed request across all retries, backoff and
+  // fallbacks. Must stay under the function's maxDuration in vercel.json.
+  deadlineMs: number
+}
+
+export const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
+  retry: {
+    maxAttempts: Number(process.env.MODEL_RETRY_ATTEMPTS) || 3,
+    baseDelayMs: 250,
+    maxDelayMs: 4000
+  },
+  circuitBreaker: {
+    failureThreshold: 5,
+    cooldownMs: 30000
+  },
+  // api/chat.ts has 15s; leave room for auth, the token reservation and billing
+  deadlineMs: Number(process.env.MODEL_DEADLINE_MS) || 12000
+}
+
+// Clock and randomness are injectable so tests don't have to wait on real timers
+export interface ResilienceRuntime {
+  now: () => number
+  sleep: (ms: number) => Promise<void>
+  random: () => number
+}
+
+export const defaultRuntime: ResilienceRuntime = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+  random: () => Math.random()
+}
+
+// =============================================
+// RETRY WITH BACKOFF
+// =============================================
+
+// Exponential backoff with full jitter: a random delay in [0, base * 2^attempt)
+export function getBackoffDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.floor(random() * ceiling)
+}
+
+// Stops early rather than back off past `deadline` (a runtime.now() timestamp)
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  runtime: ResilienceRuntime = defaultRuntime,
+  deadline: number = Infinity
+): Promise<T> {
+  let lastError: unknown
+
+  for (let attempt = 0; attempt < policy.maxAttempts; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      lastError = error
+
+      const isLastAttempt = attempt === policy.maxAttempts - 1
+      if (isLastAttempt || !isRetryableError(error)) break
+
+      const delay = getBackoffDelay(policy, attempt, runtime.random)
+      if (runtime.now() + delay >= deadline) break
+
+      await runtime.sleep(delay)
+    }
+  }
+
+  throw lastError
+}
+
+// Rejects with DeadlineExceededError once `ms` has passed. The provider call
+// itself keeps running, but the request no longer waits on it.
+export function withTimeout<T>(operation: () => Promise<T>, ms: number, provider: string): Promise<T> {
+  if (ms <= 0) return Promise.reject(new DeadlineExceededError(provider))
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new DeadlineExceededError(provider)), ms)
+  })
+
+  return Promise.race([operation(), timeout]).finally(() => clearTimeout(timer))
+}
+
+// =============================================
+// CIRCUIT BREAKER
+// =============================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+
+  constructor(
+    readonly name: string,
+    private options: CircuitBreakerOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half-open'
+    }
+    return this.state
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.getState() === 'open') {
+      throw new CircuitOpenError(this.name, this.openedAt + this.options.cooldownMs)
+    }
+
+    try {
+      const result = await operation()
+      this.recordSuccess()
+      return result
+    } catch (error) {
+      // Bad requests say nothing about provider health
+      if (isRetryableError(error)) {
+        this.recordFailure()
+      }
+      throw error
+    }
+  }
+
+  private recordSuccess(): void {
+    this.state = 'closed'
+    this.failures = 0
+  }
+
+  private recordFailure(): void {
+    this.failures++
+
+    // A failed trial request re-opens immediately
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = this.now()
+    }
+  }
+}
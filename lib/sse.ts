@@ -0,0 +1,26 @@
+// lib/sse.ts - Server-Sent Events helpers
+// Minimal writer for streaming API routes
+
+import { NextApiResponse } from 'next'
+
+export function openEventStream(res: NextApiResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Disable proxy buffering so deltas reach the client immediately
+    'X-Accel-Buffering': 'no'
+  })
+  res.flushHeaders()
+}
+
+export function sendEvent(res: NextApiResponse, event: string, data: unknown): void {
+  if (res.writableEnded) return
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+export function closeEventStream(res: NextApiResponse): void {
+  if (!res.writableEnded) {
+    res.end()
+  }
+}
@@ -33,6 +33,7 @@ echo "🗄️  Setting up database..."
 if [ "$SETUP_DB" = "true" ]; then
     npm run db:setup
 fi
+npm run db:migrate
 
 # 6. Deploy to Vercel
 echo "🌐 Deploying to Vercel..."
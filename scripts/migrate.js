@@ -0,0 +1,84 @@
+// scripts/migrate.js - Applies schema changes made after the initial schema
+// Run with: npm run db:migrate (reads POSTGRES_URL like the API does)
+
+const { db } = require('@vercel/postgres')
+
+// Applied in order and recorded in schema_migrations, so each runs once.
+// Append new migrations to the end; never edit one that has shipped.
+const migrations = [
+  {
+    name: '001_token_usage_breakdown',
+    sql: `
+      ALTER TABLE token_usage
+        ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS completion_tokens INTEGER NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS cached_tokens INTEGER NOT NULL DEFAULT 0
+    `
+  },
+  {
+    name: '002_token_reservations',
+    sql: `
+      CREATE TABLE IF NOT EXISTS token_reservations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        tokens INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS token_reservations_active_idx
+        ON token_reservations (user_id) WHERE status = 'active'
+    `
+  },
+  {
+    name: '003_rate_limits',
+    sql: `
+      CREATE TABLE IF NOT EXISTS rate_limits (
+        key TEXT PRIMARY KEY,
+        state JSONB,
+        expires_at TIMESTAMPTZ NOT NULL
+      )
+    `
+  }
+]
+
+async function migrate() {
+  const client = await db.connect()
+
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        name TEXT PRIMARY KEY,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `)
+
+    const { rows } = await client.query('SELECT name FROM schema_migrations')
+    const applied = new Set(rows.map((row) => row.name))
+
+    for (const migration of migrations) {
+      if (applied.has(migration.name)) continue
+
+      console.log(`Applying ${migration.name}...`)
+      await client.query('BEGIN')
+      try {
+        await client.query(migration.sql)
+        await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [migration.name])
+        await client.query('COMMIT')
+      } catch (error) {
+        await client.query('ROLLBACK')
+        throw error
+      }
+    }
+
+    console.log('✅ Database is up to date')
+  } finally {
+    client.release()
+  }
+}
+
+migrate().catch((error) => {
+  console.error('❌ Migration failed:', error)
+  process.exit(1)
+})
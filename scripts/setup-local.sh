@@ -24,7 +24,7 @@ if ! grep -q "^DATABASE_URL=" .env.local || grep -q "^DATABASE_URL=postgres://us
     echo "🗄️  Database Setup Required:"
     echo "1. Create a Vercel Postgres database at: https://vercel.com/storage/postgres"
     echo "2. Copy the DATABASE_URL to your .env.local file"
-    echo "3. Run: npm run db:setup"
+    echo "3. Run: npm run db:setup && npm run db:migrate"
     echo ""
 fi
 
@@ -71,6 +71,6 @@ fi
 echo ""
 echo "🎉 Setup complete! Next steps:"
 echo "1. Update .env.local with your API keys and database URL"
-echo "2. Run 'npm run db:setup' to initialize the database"
+echo "2. Run 'npm run db:setup' and 'npm run db:migrate' to initialize the database"
 echo "3. Run 'npm run dev' to start the development server"
 echo "4. Test the API at http://localhost:3000/api/health"
@@ -178,28 +178,37 @@ export type Database = {
       }
       token_usage: {
         Row: {
+          cached_tokens: number
+          completion_tokens: number
           cost_usd: number | null
           created_at: string | null
           id: string
           model: string
+          prompt_tokens: number
           request_type: string | null
           tokens_used: number
           user_id: string
         }
         Insert: {
+          cached_tokens?: number
+          completion_tokens?: number
           cost_usd?: number | null
           created_at?: string | null
           id?: string
           model: string
+          prompt_tokens?: number
           request_type?: string | null
           tokens_used?: number
           user_id: string
         }
         Update: {
+          cached_tokens?: number
+          completion_tokens?: number
           cost_usd?: number | null
           created_at?: string | null
           id?: string
           model?: string
+          prompt_tokens?: number
           request_type?: string | null
           tokens_used?: number
           user_id?: string